@@ -0,0 +1,158 @@
+/**
+ * Commands in flight
+ * Policy checks, timeouts and cancellation for commands sent to the extension
+ */
+
+import type { Command, CommandAck, CancelMessage, BatchStepCommand } from './protocol.js';
+import { generateCommandId } from './protocol.js';
+import { getTab, getElementName, getFocusedId, noteCommandAck } from './world-state.js';
+import { checkCommand, checkBatch, logCommand } from './policy.js';
+
+// How long a command may run when it doesn't set timeoutMs (ms)
+const COMMAND_TIMEOUT = 30000;
+
+// Extra wait past timeoutMs, so the extension's own timeout ack arrives first (ms)
+const TIMEOUT_GRACE = 2000;
+
+// Defaults of wait_for's timeout and a batch step's expect.timeout, as in the extension (ms)
+const WAIT_TIMEOUT = 10000;
+const EXPECT_TIMEOUT = 1000;
+
+// Room past a wait_for's or batch's own waits for the work around them (ms)
+const TIMEOUT_MARGIN = 5000;
+
+// Pending command callbacks
+const pendingCommands = new Map<string, {
+    command: Command;
+    resolve: (ack: CommandAck) => void;
+    timeout: NodeJS.Timeout;
+}>();
+
+// Delivers messages to the extension; false when none is connected
+let send: (message: Command | CancelMessage) => boolean = () => false;
+
+/**
+ * Set how commands and cancels reach the extension
+ */
+export function setCommandSender(sender: (message: Command | CancelMessage) => boolean): void {
+    send = sender;
+}
+
+/**
+ * timeoutMs for a command that doesn't set one. wait_for gets its own timeout and a batch
+ * the sum of its steps' timeouts, delays and expectations, each plus TIMEOUT_MARGIN.
+ */
+export function getDefaultTimeout(command: Command | BatchStepCommand): number {
+    if (command.type === 'wait_for') {
+        return (command.timeout ?? WAIT_TIMEOUT) + TIMEOUT_MARGIN;
+    }
+    if (command.type === 'batch') {
+        let total = TIMEOUT_MARGIN;
+        for (const step of command.steps) {
+            total += (step.delay ?? 0) + (step.command.timeoutMs ?? getDefaultTimeout(step.command));
+            if (step.expect) total += step.expect.timeout ?? EXPECT_TIMEOUT;
+        }
+        return total;
+    }
+    return COMMAND_TIMEOUT;
+}
+
+/**
+ * Execute command with promise
+ */
+export async function executeCommand(command: Command): Promise<CommandAck> {
+    return new Promise((resolve, reject) => {
+        // Ensure commandId
+        if (!command.commandId) {
+            command.commandId = generateCommandId();
+        }
+
+        // Check policy
+        const tab = getTab(command.tabId);
+        const getName = (id: string) => getElementName(command.tabId, id);
+        const id = (command as any).id as string | undefined;
+        const focusedId = getFocusedId(command.tabId);
+        const focusedName = focusedId ? getName(focusedId) ?? null : focusedId;
+        const policyResult = command.type === 'batch'
+            ? checkBatch(command, tab?.url, getName, focusedId)
+            : checkCommand(command, tab?.url, id ? getName(id) : undefined, focusedName);
+
+        if (!policyResult.allowed) {
+            const ack: CommandAck = {
+                type: 'ack',
+                commandId: command.commandId,
+                status: 'fail',
+                reason: policyResult.reason || 'Policy denied',
+                timestamp: Date.now(),
+            };
+            logCommand(command, 'fail', policyResult.reason);
+            resolve(ack);
+            return;
+        }
+
+        // Send to extension, with the default timeout when the command sets none
+        const timeoutMs = command.timeoutMs ?? getDefaultTimeout(command);
+        if (!send({ ...command, timeoutMs })) {
+            const ack: CommandAck = {
+                type: 'ack',
+                commandId: command.commandId,
+                status: 'fail',
+                reason: 'No extension connected',
+                timestamp: Date.now(),
+            };
+            resolve(ack);
+            return;
+        }
+
+        // The extension stops the command at timeoutMs and acks the timeout; this
+        // timer only fires when that ack never comes
+        const timeout = setTimeout(() => {
+            abortCommand(command.commandId, 'fail', 'timeout');
+        }, timeoutMs + TIMEOUT_GRACE);
+
+        pendingCommands.set(command.commandId, { command, resolve, timeout });
+    });
+}
+
+/**
+ * Stop a pending command: tell the extension to stop it and resolve it with the
+ * given status. Returns false if no such command is pending.
+ */
+function abortCommand(commandId: string, status: 'fail' | 'cancelled', reason: string): boolean {
+    const pending = pendingCommands.get(commandId);
+    if (!pending) return false;
+
+    clearTimeout(pending.timeout);
+    pendingCommands.delete(commandId);
+    send({ type: 'cancel', tabId: pending.command.tabId, commandId, reason });
+
+    logCommand(pending.command, status, reason);
+    pending.resolve({
+        type: 'ack',
+        commandId,
+        status,
+        reason,
+        timestamp: Date.now(),
+    });
+    return true;
+}
+
+/**
+ * Cancel a pending command on request; it resolves as cancelled
+ */
+export function cancelCommand(commandId: string, reason = 'Cancelled'): boolean {
+    return abortCommand(commandId, 'cancelled', reason);
+}
+
+/**
+ * Resolve the pending command an ack from the extension answers
+ */
+export function resolveCommand(ack: CommandAck): void {
+    const pending = pendingCommands.get(ack.commandId);
+    if (!pending) return;
+
+    clearTimeout(pending.timeout);
+    noteCommandAck(pending.command, ack);
+    pending.resolve(ack);
+    pendingCommands.delete(ack.commandId);
+}
@@ -3,7 +3,7 @@
  * Domain filtering, action blocking, and rate limiting
  */
 
-import type { Command } from './protocol.js';
+import type { Command, BatchCommand } from './protocol.js';
 
 export interface PolicyConfig {
     // Domain filtering
@@ -51,6 +51,12 @@ const PAYMENT_PATTERNS = [
     /pay\s*\$/i,
 ];
 
+// Keys that activate the focused button or link (a key command's own target)
+const ACTIVATING_KEYS = new Set(['enter', 'return', 'space', 'spacebar', ' ']);
+
+// Commands that leave focus on their target
+const FOCUSING_COMMANDS = new Set<Command['type']>(['focus', 'type', 'click', 'select']);
+
 const DELETE_PATTERNS = [
     /delete/i,
     /remove/i,
@@ -159,46 +165,106 @@ export interface PolicyCheckResult {
 }
 
 /**
- * Check if command is allowed by policy
+ * Whether a key (or the last key of a chord) activates the focused button or link.
+ * "Ctrl+Enter" activates too; a bare "+" is the plus key.
  */
-export function checkCommand(
+function isActivatingKey(chord: string): boolean {
+    const key = chord === '+' ? '+' : chord.split('+').pop()!;
+    return ACTIVATING_KEYS.has(key.toLowerCase());
+}
+
+/**
+ * The names a command acts on, for the payment/delete checks: the target of a
+ * click or type, the target of Enter/Space (the focused candidate when the key
+ * has no id), and every label of a menu path (the last one gets clicked)
+ */
+function getActionNames(command: Command, elementName?: string, focusedName?: string | null): string[] {
+    switch (command.type) {
+        case 'click':
+        case 'type':
+            return elementName ? [elementName] : [];
+        case 'key': {
+            const name = command.id ? elementName : focusedName;
+            return name && isActivatingKey(command.key) ? [name] : [];
+        }
+        case 'navigate_menu':
+            return command.path;
+        default:
+            return [];
+    }
+}
+
+/**
+ * Check the domain and the payment/delete patterns for one command (no rate limits).
+ * focusedName is the name of the focused candidate: null when no candidate has
+ * focus, undefined when focus isn't known.
+ */
+function checkAction(
     command: Command,
     tabUrl?: string,
-    elementName?: string
+    elementName?: string,
+    focusedName?: string | null
 ): PolicyCheckResult {
-    const warnings: string[] = [];
-
-    // Check domain
-    if (tabUrl && !isDomainAllowed(tabUrl)) {
+    // Check domain (an empty URL means the main frame hasn't connected yet)
+    if (tabUrl !== undefined && !isDomainAllowed(tabUrl)) {
         return {
             allowed: false,
-            reason: `Domain not allowed: ${tabUrl}`
+            reason: `Domain not allowed: ${tabUrl || '(unknown URL)'}`
         };
     }
 
-    // Check rate limits
-    const rateCheck = checkRateLimits();
-    if (!rateCheck.allowed) {
-        return { allowed: false, reason: rateCheck.reason };
+    // Enter/Space without an id activates whatever has focus; refuse to guess
+    if (command.type === 'key' && !command.id && focusedName === undefined && isActivatingKey(command.key) &&
+        (config.blockPaymentActions || config.blockDeleteActions)) {
+        return {
+            allowed: false,
+            reason: `Focus not known for ${command.key}: send it to a candidate id`
+        };
     }
 
-    // Check for dangerous actions (only for click/type)
-    if (command.type === 'click' || command.type === 'type') {
-        if (isPaymentAction(command, elementName)) {
+    // Check for dangerous actions
+    for (const name of getActionNames(command, elementName, focusedName)) {
+        if (isPaymentAction(command, name)) {
             return {
                 allowed: false,
-                reason: `Payment action blocked: ${elementName}`
+                reason: `Payment action blocked: ${name}`
             };
         }
 
-        if (isDeleteAction(command, elementName)) {
+        if (isDeleteAction(command, name)) {
             return {
                 allowed: false,
-                reason: `Delete action blocked: ${elementName}`
+                reason: `Delete action blocked: ${name}`
             };
         }
     }
 
+    return { allowed: true };
+}
+
+/**
+ * Check if command is allowed by policy. focusedName is the name of the focused
+ * candidate for key commands without an id (null: none; undefined: not known).
+ */
+export function checkCommand(
+    command: Command,
+    tabUrl?: string,
+    elementName?: string,
+    focusedName?: string | null
+): PolicyCheckResult {
+    const warnings: string[] = [];
+
+    const actionCheck = checkAction(command, tabUrl, elementName, focusedName);
+    if (!actionCheck.allowed) {
+        return actionCheck;
+    }
+
+    // Check rate limits
+    const rateCheck = checkRateLimits();
+    if (!rateCheck.allowed) {
+        return { allowed: false, reason: rateCheck.reason };
+    }
+
     // Record command and allow
     recordCommand();
 
@@ -209,10 +275,46 @@ export function checkCommand(
     return { allowed: true, warnings };
 }
 
+/**
+ * Check a batch: the domain and payment/delete checks run on every step; the batch
+ * counts once toward the rate limits. The first denied step denies the whole batch.
+ * Focus is followed from focusedId through the steps: focus/type/click/select leave
+ * it on their target, and after a key it is no longer known.
+ */
+export function checkBatch(
+    command: BatchCommand,
+    tabUrl?: string,
+    getElementName?: (id: string) => string | undefined,
+    focusedId?: string | null
+): PolicyCheckResult {
+    let focused = focusedId;
+    for (const [index, step] of command.steps.entries()) {
+        const stepCommand = {
+            ...step.command,
+            commandId: step.command.commandId || `${command.commandId}.${index}`,
+            tabId: command.tabId,
+        } as Command;
+        const id = 'id' in stepCommand ? stepCommand.id : undefined;
+        const focusedName = focused ? getElementName?.(focused) ?? null : focused;
+        const result = checkAction(stepCommand, tabUrl, id ? getElementName?.(id) : undefined, focusedName);
+        if (!result.allowed) {
+            return { allowed: false, reason: `Step ${index + 1}: ${result.reason}` };
+        }
+
+        if (id && FOCUSING_COMMANDS.has(stepCommand.type)) {
+            focused = id;
+        } else if (stepCommand.type === 'key') {
+            focused = undefined;
+        }
+    }
+
+    return checkCommand(command, tabUrl);
+}
+
 /**
  * Log command for audit
  */
-export function logCommand(command: Command, result: 'success' | 'fail', details?: string): void {
+export function logCommand(command: Command, result: 'success' | 'fail' | 'cancelled', details?: string): void {
     if (!config.logAllCommands) return;
 
     const entry = {
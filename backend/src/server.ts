@@ -15,27 +15,43 @@ import type {
     ReplRequest,
     ActionMapSnapshot,
     ActionMapDelta,
+    ConfigureMessage,
+    PerceptionOptions,
+    InputDefaultsMessage,
+    CancelMessage,
+    InputMode,
 } from './protocol.js';
 import { generateCommandId } from './protocol.js';
 import {
     handleHello,
     handleSnapshot,
     handleDelta,
+    handleOutline,
+    handleForms,
+    handleTables,
+    handleRegions,
+    handleFrameDetached,
     handleDisconnect,
     updatePointer,
     getTabs,
     getTab,
     getCandidates,
+    getCandidatesForFrame,
+    getOutline,
+    getForms,
+    getTables,
+    resolveTableRow,
+    getRegions,
     searchCandidates,
+    reacquireCandidate,
     getWorldSummary,
 } from './world-state.js';
 import {
-    checkCommand,
-    logCommand,
     getPolicy,
     updatePolicy,
     getRateLimitStatus,
 } from './policy.js';
+import { setCommandSender, executeCommand, cancelCommand, resolveCommand } from './commands.js';
 import cdp from './cdp-client.js';
 
 // Configuration
@@ -63,16 +79,10 @@ const fastify = Fastify({
 const extensionConnections = new Set<WebSocket>();
 const replConnections = new Map<WebSocket, { subscribedTabId?: number }>();
 
-// Pending command callbacks
-const pendingCommands = new Map<string, {
-    resolve: (ack: CommandAck) => void;
-    timeout: NodeJS.Timeout;
-}>();
-
 /**
  * Send message to extension
  */
-function sendToExtension(message: Command): boolean {
+function sendToExtension(message: Command | ConfigureMessage | InputDefaultsMessage | CancelMessage): boolean {
     for (const ws of extensionConnections) {
         if (ws.readyState === WebSocket.OPEN) {
             ws.send(JSON.stringify(message));
@@ -82,6 +92,8 @@ function sendToExtension(message: Command): boolean {
     return false;
 }
 
+setCommandSender(sendToExtension);
+
 /**
  * Broadcast to subscribed REPL connections
  */
@@ -109,12 +121,12 @@ function handleTelemetry(message: TelemetryMessage): void {
     switch (message.type) {
         case 'hello':
             handleHello(message);
-            fastify.log.info(`Tab connected: ${message.tabId} - ${message.url}`);
+            fastify.log.info(`Tab connected: ${message.tabId}${message.frameId ? ` (frame ${message.frameId})` : ''} - ${message.url}`);
             break;
 
         case 'snapshot':
             handleSnapshot(message);
-            fastify.log.info(`Snapshot: tab ${message.tabId} - ${message.candidates.length} candidates`);
+            fastify.log.info(`Snapshot: tab ${message.tabId} frame ${message.frameId} - ${message.candidates.length} candidates`);
             break;
 
         case 'delta':
@@ -124,6 +136,26 @@ function handleTelemetry(message: TelemetryMessage): void {
             }
             break;
 
+        case 'outline':
+            handleOutline(message);
+            fastify.log.debug(`Outline: tab ${message.tabId} frame ${message.frameId} - ${message.headings.length} headings, ${message.textBlocks.length} text blocks`);
+            break;
+
+        case 'forms':
+            handleForms(message);
+            fastify.log.debug(`Forms: tab ${message.tabId} frame ${message.frameId} - ${message.forms.length} forms`);
+            break;
+
+        case 'tables':
+            handleTables(message);
+            fastify.log.debug(`Tables: tab ${message.tabId} frame ${message.frameId} - ${message.tables.length} tables`);
+            break;
+
+        case 'regions':
+            handleRegions(message);
+            fastify.log.debug(`Regions: tab ${message.tabId} frame ${message.frameId} - ${message.regions.length} regions`);
+            break;
+
         case 'pointer':
             updatePointer(message.x, message.y, message.buttons);
             break;
@@ -131,7 +163,11 @@ function handleTelemetry(message: TelemetryMessage): void {
         case 'event':
             fastify.log.info(`Event: tab ${message.tabId} - ${message.eventType}`);
             if (message.eventType === 'unload') {
-                handleDisconnect(message.tabId);
+                if (message.frameId) {
+                    handleFrameDetached(message.tabId, message.frameId);
+                } else {
+                    handleDisconnect(message.tabId);
+                }
             }
             break;
 
@@ -148,76 +184,12 @@ function handleTelemetry(message: TelemetryMessage): void {
  * Handle command acknowledgment from extension
  */
 function handleCommandAck(ack: CommandAck): void {
-    const pending = pendingCommands.get(ack.commandId);
-    if (pending) {
-        clearTimeout(pending.timeout);
-        pending.resolve(ack);
-        pendingCommands.delete(ack.commandId);
-    }
+    resolveCommand(ack);
 
     // Forward to REPL
     broadcastToRepl(ack);
 }
 
-/**
- * Execute command with promise
- */
-async function executeCommand(command: Command): Promise<CommandAck> {
-    return new Promise((resolve, reject) => {
-        // Ensure commandId
-        if (!command.commandId) {
-            command.commandId = generateCommandId();
-        }
-
-        // Check policy
-        const tab = getTab(command.tabId);
-        const candidate = tab?.candidates.get((command as any).id);
-        const policyResult = checkCommand(command, tab?.url, candidate?.name);
-
-        if (!policyResult.allowed) {
-            const ack: CommandAck = {
-                type: 'ack',
-                commandId: command.commandId,
-                status: 'fail',
-                reason: policyResult.reason || 'Policy denied',
-                timestamp: Date.now(),
-            };
-            logCommand(command, 'fail', policyResult.reason);
-            resolve(ack);
-            return;
-        }
-
-        // Send to extension
-        if (!sendToExtension(command)) {
-            const ack: CommandAck = {
-                type: 'ack',
-                commandId: command.commandId,
-                status: 'fail',
-                reason: 'No extension connected',
-                timestamp: Date.now(),
-            };
-            resolve(ack);
-            return;
-        }
-
-        // Set up timeout
-        const timeout = setTimeout(() => {
-            pendingCommands.delete(command.commandId);
-            const ack: CommandAck = {
-                type: 'ack',
-                commandId: command.commandId,
-                status: 'fail',
-                reason: 'Command timeout',
-                timestamp: Date.now(),
-            };
-            logCommand(command, 'fail', 'timeout');
-            resolve(ack);
-        }, 30000);
-
-        pendingCommands.set(command.commandId, { resolve, timeout });
-    });
-}
-
 /**
  * Handle REPL request
  */
@@ -251,6 +223,64 @@ async function handleReplRequest(ws: WebSocket, request: ReplRequest): Promise<v
             break;
         }
 
+        case 'reacquire': {
+            const candidate = reacquireCandidate(request.tabId, {
+                id: request.id,
+                fingerprint: request.fingerprint,
+            });
+            ws.send(JSON.stringify({ type: 'reacquired', candidate }));
+            break;
+        }
+
+        case 'get_outline': {
+            ws.send(JSON.stringify({ type: 'page_outline', outline: getOutline(request.tabId) }));
+            break;
+        }
+
+        case 'get_forms': {
+            ws.send(JSON.stringify({ type: 'form_schemas', forms: getForms(request.tabId) }));
+            break;
+        }
+
+        case 'get_tables': {
+            ws.send(JSON.stringify({ type: 'table_schemas', tables: getTables(request.tabId) }));
+            break;
+        }
+
+        case 'resolve_row': {
+            const match = resolveTableRow(request.tabId, {
+                column: request.column,
+                value: request.value,
+                target: request.target,
+                tableId: request.tableId,
+            });
+            ws.send(JSON.stringify({ type: 'row_resolved', match }));
+            break;
+        }
+
+        case 'get_regions': {
+            ws.send(JSON.stringify({ type: 'region_list', regions: getRegions(request.tabId) }));
+            break;
+        }
+
+        case 'configure': {
+            const ok = sendToExtension({ type: 'configure', tabId: request.tabId, options: request.options });
+            ws.send(JSON.stringify({ type: 'configured', ok, tabId: request.tabId, options: request.options }));
+            break;
+        }
+
+        case 'configure_input': {
+            const ok = sendToExtension({ type: 'input_defaults', defaults: request.defaults });
+            ws.send(JSON.stringify({ type: 'input_configured', ok, defaults: request.defaults }));
+            break;
+        }
+
+        case 'cancel': {
+            const cancelled = cancelCommand(request.commandId, request.reason);
+            ws.send(JSON.stringify({ type: 'cancel_result', commandId: request.commandId, cancelled }));
+            break;
+        }
+
         case 'act': {
             const command = request.command as Command;
             if (!command.commandId) {
@@ -423,6 +453,7 @@ fastify.get('/tabs', async () => {
         tabId: t.tabId,
         url: t.url,
         candidateCount: t.candidates.size,
+        frameCount: t.frames.size,
         viewport: t.viewport,
         lastUpdate: t.lastUpdate,
     }));
@@ -433,17 +464,141 @@ fastify.get('/tabs/:tabId/candidates', async (req) => {
     return getCandidates(parseInt(tabId, 10));
 });
 
+fastify.get('/tabs/:tabId/frames/:frameId/candidates', async (req) => {
+    const { tabId, frameId } = req.params as { tabId: string; frameId: string };
+    return getCandidatesForFrame(parseInt(tabId, 10), parseInt(frameId, 10));
+});
+
+fastify.get('/tabs/:tabId/outline', async (req, reply) => {
+    const { tabId } = req.params as { tabId: string };
+    const outline = getOutline(parseInt(tabId, 10));
+    if (!outline) {
+        reply.code(404);
+        return { error: 'No outline for tab' };
+    }
+    return outline;
+});
+
+fastify.get('/tabs/:tabId/forms', async (req) => {
+    const { tabId } = req.params as { tabId: string };
+    return getForms(parseInt(tabId, 10));
+});
+
+fastify.get('/tabs/:tabId/tables', async (req) => {
+    const { tabId } = req.params as { tabId: string };
+    return getTables(parseInt(tabId, 10));
+});
+
+fastify.get('/tabs/:tabId/tables/resolve', async (req, reply) => {
+    const { tabId } = req.params as { tabId: string };
+    const { column, value, target, table } = req.query as {
+        column?: string; value?: string; target?: string; table?: string;
+    };
+    if (!column || !value) {
+        reply.code(400);
+        return { error: 'column and value are required' };
+    }
+    const match = resolveTableRow(parseInt(tabId, 10), { column, value, target, tableId: table });
+    if (!match) {
+        reply.code(404);
+        return { error: 'No matching row' };
+    }
+    return match;
+});
+
+fastify.get('/tabs/:tabId/regions', async (req) => {
+    const { tabId } = req.params as { tabId: string };
+    return getRegions(parseInt(tabId, 10));
+});
+
 fastify.get('/tabs/:tabId/search', async (req) => {
     const { tabId } = req.params as { tabId: string };
     const { q, role, tag } = req.query as { q?: string; role?: string; tag?: string };
     return searchCandidates(parseInt(tabId, 10), q || '', { role, tag });
 });
 
+fastify.get('/tabs/:tabId/reacquire', async (req, reply) => {
+    const { tabId } = req.params as { tabId: string };
+    const { id, fingerprint } = req.query as { id?: string; fingerprint?: string };
+    const candidate = reacquireCandidate(parseInt(tabId, 10), { id, fingerprint });
+    if (!candidate) {
+        reply.code(404);
+        return { error: 'No matching candidate' };
+    }
+    return candidate;
+});
+
+fastify.get('/tabs/:tabId/candidates/:id/patch', async (req, reply) => {
+    const { tabId, id } = req.params as { tabId: string; id: string };
+    const { format, padding, quality, raw } = req.query as {
+        format?: string; padding?: string; quality?: string; raw?: string;
+    };
+    if (format && format !== 'png' && format !== 'jpeg') {
+        reply.code(400);
+        return { error: 'format must be png or jpeg' };
+    }
+    const tab = getTab(parseInt(tabId, 10));
+    if (!tab?.candidates.has(id)) {
+        reply.code(404);
+        return { error: 'No such candidate' };
+    }
+
+    const ack = await executeCommand({
+        type: 'capture_patch',
+        commandId: generateCommandId(),
+        tabId: parseInt(tabId, 10),
+        id,
+        format: format as 'png' | 'jpeg' | undefined,
+        padding: padding !== undefined ? Number(padding) : undefined,
+        quality: quality !== undefined ? Number(quality) : undefined,
+    });
+    if (ack.status !== 'ok') {
+        reply.code(ack.status === 'fail' && ack.reason === 'No extension connected' ? 503 : 502);
+        return { error: ack.status === 'fail' ? ack.reason : 'Capture did not complete' };
+    }
+
+    const patch = ack.result as { format: string; data: string };
+    if (raw !== undefined) {
+        reply.type(`image/${patch.format}`);
+        return Buffer.from(patch.data, 'base64');
+    }
+    return patch;
+});
+
+fastify.post('/tabs/:tabId/configure', async (req, reply) => {
+    const { tabId } = req.params as { tabId: string };
+    const options = req.body as PerceptionOptions;
+    if (!sendToExtension({ type: 'configure', tabId: parseInt(tabId, 10), options })) {
+        reply.code(503);
+        return { error: 'No extension connected' };
+    }
+    return { ok: true, options };
+});
+
+fastify.post('/input-defaults', async (req, reply) => {
+    const defaults = req.body as Record<string, InputMode>;
+    if (!sendToExtension({ type: 'input_defaults', defaults })) {
+        reply.code(503);
+        return { error: 'No extension connected' };
+    }
+    return { ok: true, defaults };
+});
+
 fastify.post('/command', async (req) => {
     const command = req.body as Command;
     return executeCommand(command);
 });
 
+fastify.post('/commands/:commandId/cancel', async (req, reply) => {
+    const { commandId } = req.params as { commandId: string };
+    const { reason } = (req.body || {}) as { reason?: string };
+    if (!cancelCommand(commandId, reason)) {
+        reply.code(404);
+        return { error: 'No such running command' };
+    }
+    return { ok: true, commandId };
+});
+
 fastify.get('/policy', async () => getPolicy());
 
 fastify.post('/policy', async (req) => {
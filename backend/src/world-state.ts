@@ -8,6 +8,16 @@ import type {
     ActionMapSnapshot,
     ActionMapDelta,
     HelloMessage,
+    PageOutline,
+    FormsMessage,
+    FormSchema,
+    TablesMessage,
+    TableSchema,
+    TableRow,
+    RegionsMessage,
+    VirtualListRegion,
+    Command,
+    CommandAck,
 } from './protocol.js';
 
 export interface TabState {
@@ -17,7 +27,13 @@ export interface TabState {
     userAgent: string;
     connectedAt: number;
     lastUpdate: number;
-    candidates: Map<string, ActionCandidate>;
+    candidates: Map<string, ActionCandidate>; // Merged view across all frames
+    frames: Map<number, Map<string, ActionCandidate>>; // Per-frame candidate sets
+    outlines: Map<number, PageOutline>; // Latest page outline per frame
+    forms: Map<number, FormSchema[]>; // Latest form schemas per frame
+    tables: Map<number, TableSchema[]>; // Latest tables per frame
+    regions: Map<number, VirtualListRegion[]>; // Latest virtualized list regions per frame
+    focusedId: string | null | undefined; // Candidate holding focus; null: none; undefined: not known
     deltaHistory: ActionMapDelta[];
 }
 
@@ -35,12 +51,113 @@ const state: WorldState = {
 // Delta history limit
 const MAX_DELTA_HISTORY = 50;
 
+// Commands that leave focus on their target when they succeed
+const FOCUSING_COMMANDS = new Set<Command['type']>(['focus', 'type', 'click', 'select']);
+
+// Last known fingerprint per candidate id (tabId -> id -> fingerprint).
+// Kept across navigations so ids held by the model can be reacquired.
+const fingerprintHistory = new Map<number, Map<string, string>>();
+const MAX_FINGERPRINT_HISTORY = 1000;
+
+/**
+ * Remember candidate fingerprints for later reacquisition
+ */
+function rememberFingerprints(tabId: number, candidates: Partial<ActionCandidate>[]): void {
+    let history = fingerprintHistory.get(tabId);
+    if (!history) {
+        history = new Map();
+        fingerprintHistory.set(tabId, history);
+    }
+
+    for (const candidate of candidates) {
+        if (!candidate.id || !candidate.fingerprint) continue;
+        history.delete(candidate.id);
+        history.set(candidate.id, candidate.fingerprint);
+    }
+
+    while (history.size > MAX_FINGERPRINT_HISTORY) {
+        history.delete(history.keys().next().value!);
+    }
+}
+
+/**
+ * Create an empty tab state
+ */
+function createTabState(tabId: number, url: string, viewport: { width: number; height: number }): TabState {
+    return {
+        tabId,
+        url,
+        viewport,
+        userAgent: '',
+        connectedAt: Date.now(),
+        lastUpdate: Date.now(),
+        candidates: new Map(),
+        frames: new Map(),
+        outlines: new Map(),
+        forms: new Map(),
+        tables: new Map(),
+        regions: new Map(),
+        focusedId: null,
+        deltaHistory: [],
+    };
+}
+
+/**
+ * Follow focus through candidate state: a candidate reporting focus holds it, and
+ * one losing it without another gaining it leaves focus outside the candidates
+ */
+function noteFocus(tabState: TabState, candidates: Partial<ActionCandidate>[]): void {
+    for (const candidate of candidates) {
+        if (!candidate.id || !candidate.state) continue;
+        if (candidate.state.focused) {
+            tabState.focusedId = candidate.id;
+        } else if (tabState.focusedId === candidate.id || tabState.focusedId === undefined) {
+            tabState.focusedId = null;
+        }
+    }
+}
+
+/**
+ * Get the candidate set for a frame, creating it if needed
+ */
+function getFrameCandidates(tabState: TabState, frameId: number): Map<string, ActionCandidate> {
+    let frame = tabState.frames.get(frameId);
+    if (!frame) {
+        frame = new Map();
+        tabState.frames.set(frameId, frame);
+    }
+    return frame;
+}
+
+/**
+ * Drop a frame's candidates from both the frame set and the merged view
+ */
+function clearFrameCandidates(tabState: TabState, frameId: number): void {
+    const frame = tabState.frames.get(frameId);
+    if (!frame) return;
+
+    for (const id of frame.keys()) {
+        tabState.candidates.delete(id);
+    }
+    tabState.frames.delete(frameId);
+}
+
 /**
  * Handle hello message from tab
  */
 export function handleHello(message: HelloMessage): TabState {
     const existing = state.tabs.get(message.tabId);
 
+    // Subframes say hello too, but only the main frame describes the tab;
+    // a subframe that connects first leaves the URL unset until the main frame does
+    if (message.frameId) {
+        if (existing) return existing;
+        const tabState = createTabState(message.tabId, '', message.viewport);
+        tabState.userAgent = message.userAgent;
+        state.tabs.set(message.tabId, tabState);
+        return tabState;
+    }
+
     const tabState: TabState = {
         tabId: message.tabId,
         url: message.url,
@@ -49,6 +166,12 @@ export function handleHello(message: HelloMessage): TabState {
         connectedAt: existing?.connectedAt || Date.now(),
         lastUpdate: Date.now(),
         candidates: existing?.candidates || new Map(),
+        frames: existing?.frames || new Map(),
+        outlines: existing?.outlines || new Map(),
+        forms: existing?.forms || new Map(),
+        tables: existing?.tables || new Map(),
+        regions: existing?.regions || new Map(),
+        focusedId: existing ? existing.focusedId : null,
         deltaHistory: existing?.deltaHistory || [],
     };
 
@@ -57,38 +180,40 @@ export function handleHello(message: HelloMessage): TabState {
 }
 
 /**
- * Handle snapshot message - replace entire candidate list
+ * Handle snapshot message - replace the sending frame's candidate list
  */
 export function handleSnapshot(snapshot: ActionMapSnapshot): TabState | null {
+    const frameId = snapshot.frameId || 0;
     let tabState = state.tabs.get(snapshot.tabId);
 
     if (!tabState) {
         // Create new tab state
-        tabState = {
-            tabId: snapshot.tabId,
-            url: snapshot.url,
-            viewport: snapshot.viewport,
-            userAgent: '',
-            connectedAt: Date.now(),
-            lastUpdate: Date.now(),
-            candidates: new Map(),
-            deltaHistory: [],
-        };
+        tabState = createTabState(
+            snapshot.tabId,
+            frameId === 0 ? snapshot.url : '',
+            snapshot.viewport
+        );
         state.tabs.set(snapshot.tabId, tabState);
     }
 
-    // Clear and rebuild candidates
-    tabState.candidates.clear();
+    // Clear and rebuild this frame's candidates
+    clearFrameCandidates(tabState, frameId);
+    const frame = getFrameCandidates(tabState, frameId);
     for (const candidate of snapshot.candidates) {
+        frame.set(candidate.id, candidate);
         tabState.candidates.set(candidate.id, candidate);
     }
+    rememberFingerprints(snapshot.tabId, snapshot.candidates);
+    noteFocus(tabState, snapshot.candidates.filter(c => c.state.focused));
 
-    tabState.url = snapshot.url;
-    tabState.viewport = snapshot.viewport;
-    tabState.lastUpdate = Date.now();
+    if (frameId === 0) {
+        tabState.url = snapshot.url;
+        tabState.viewport = snapshot.viewport;
 
-    // Clear delta history on full snapshot
-    tabState.deltaHistory = [];
+        // Clear delta history on full main-frame snapshot
+        tabState.deltaHistory = [];
+    }
+    tabState.lastUpdate = Date.now();
 
     return tabState;
 }
@@ -104,24 +229,31 @@ export function handleDelta(delta: ActionMapDelta): TabState | null {
         return null;
     }
 
+    const frame = getFrameCandidates(tabState, delta.frameId || 0);
+
     // Apply removals
     for (const id of delta.removed) {
+        frame.delete(id);
         tabState.candidates.delete(id);
+        if (tabState.focusedId === id) tabState.focusedId = null;
     }
 
     // Apply additions
     for (const candidate of delta.added) {
+        frame.set(candidate.id, candidate);
         tabState.candidates.set(candidate.id, candidate);
     }
 
-    // Apply updates
+    // Apply updates (frame set and merged view share candidate objects)
     for (const update of delta.updated) {
         if (!update.id) continue;
-        const existing = tabState.candidates.get(update.id);
+        const existing = frame.get(update.id);
         if (existing) {
             Object.assign(existing, update);
         }
     }
+    rememberFingerprints(delta.tabId, [...delta.added, ...delta.updated]);
+    noteFocus(tabState, [...delta.added.filter(c => c.state.focused), ...delta.updated]);
 
     tabState.lastUpdate = Date.now();
 
@@ -134,6 +266,89 @@ export function handleDelta(delta: ActionMapDelta): TabState | null {
     return tabState;
 }
 
+/**
+ * Handle page outline message - replace the sending frame's outline
+ */
+export function handleOutline(outline: PageOutline): TabState | null {
+    const tabState = state.tabs.get(outline.tabId);
+
+    if (!tabState) {
+        console.warn(`Outline received for unknown tab: ${outline.tabId}`);
+        return null;
+    }
+
+    tabState.outlines.set(outline.frameId || 0, outline);
+    tabState.lastUpdate = Date.now();
+
+    return tabState;
+}
+
+/**
+ * Handle forms message - replace the sending frame's form schemas
+ */
+export function handleForms(message: FormsMessage): TabState | null {
+    const tabState = state.tabs.get(message.tabId);
+
+    if (!tabState) {
+        console.warn(`Forms received for unknown tab: ${message.tabId}`);
+        return null;
+    }
+
+    tabState.forms.set(message.frameId || 0, message.forms);
+    tabState.lastUpdate = Date.now();
+
+    return tabState;
+}
+
+/**
+ * Handle tables message - replace the sending frame's tables
+ */
+export function handleTables(message: TablesMessage): TabState | null {
+    const tabState = state.tabs.get(message.tabId);
+
+    if (!tabState) {
+        console.warn(`Tables received for unknown tab: ${message.tabId}`);
+        return null;
+    }
+
+    tabState.tables.set(message.frameId || 0, message.tables);
+    tabState.lastUpdate = Date.now();
+
+    return tabState;
+}
+
+/**
+ * Handle regions message - replace the sending frame's virtualized list regions
+ */
+export function handleRegions(message: RegionsMessage): TabState | null {
+    const tabState = state.tabs.get(message.tabId);
+
+    if (!tabState) {
+        console.warn(`Regions received for unknown tab: ${message.tabId}`);
+        return null;
+    }
+
+    tabState.regions.set(message.frameId || 0, message.regions);
+    tabState.lastUpdate = Date.now();
+
+    return tabState;
+}
+
+/**
+ * Handle subframe detach (navigated away or removed)
+ */
+export function handleFrameDetached(tabId: number, frameId: number): void {
+    const tabState = state.tabs.get(tabId);
+    if (!tabState) return;
+
+    clearFrameCandidates(tabState, frameId);
+    tabState.outlines.delete(frameId);
+    tabState.forms.delete(frameId);
+    tabState.tables.delete(frameId);
+    tabState.regions.delete(frameId);
+    tabState.lastUpdate = Date.now();
+}
+
 /**
  * Handle tab disconnect
  */
@@ -170,6 +385,148 @@ export function getCandidates(tabId: number): ActionCandidate[] {
     return tabState ? Array.from(tabState.candidates.values()) : [];
 }
 
+/**
+ * Get candidates reported by one frame of a tab
+ */
+export function getCandidatesForFrame(tabId: number, frameId: number): ActionCandidate[] {
+    const frame = state.tabs.get(tabId)?.frames.get(frameId);
+    return frame ? Array.from(frame.values()) : [];
+}
+
+/**
+ * Get the page outline for a tab, merged across frames (main frame first)
+ */
+export function getOutline(tabId: number): Omit<PageOutline, 'type' | 'frameId'> | null {
+    const tabState = state.tabs.get(tabId);
+    if (!tabState || tabState.outlines.size === 0) return null;
+
+    const outlines = Array.from(tabState.outlines.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([, outline]) => outline);
+
+    return {
+        tabId,
+        url: tabState.url,
+        timestamp: Math.max(...outlines.map(o => o.timestamp)),
+        landmarks: outlines.flatMap(o => o.landmarks),
+        headings: outlines.flatMap(o => o.headings),
+        textBlocks: outlines.flatMap(o => o.textBlocks),
+    };
+}
+
+/**
+ * Get form schemas for a tab across all frames (main frame first)
+ */
+export function getForms(tabId: number): FormSchema[] {
+    const tabState = state.tabs.get(tabId);
+    if (!tabState) return [];
+
+    return Array.from(tabState.forms.entries())
+        .sort(([a], [b]) => a - b)
+        .flatMap(([, forms]) => forms);
+}
+
+/**
+ * Get tables for a tab across all frames (main frame first)
+ */
+export function getTables(tabId: number): TableSchema[] {
+    const tabState = state.tabs.get(tabId);
+    if (!tabState) return [];
+
+    return Array.from(tabState.tables.entries())
+        .sort(([a], [b]) => a - b)
+        .flatMap(([, tables]) => tables);
+}
+
+/**
+ * Get virtualized list regions for a tab across all frames (main frame first)
+ */
+export function getRegions(tabId: number): VirtualListRegion[] {
+    const tabState = state.tabs.get(tabId);
+    if (!tabState) return [];
+
+    return Array.from(tabState.regions.entries())
+        .sort(([a], [b]) => a - b)
+        .flatMap(([, regions]) => regions);
+}
+
+/**
+ * Resolve "the row where <column> is <value>" to that row and, when a target
+ * name is given, the id of the control in the row with that name (e.g. its Edit
+ * button). Exact cell matches win over substring matches. The id is returned for
+ * rows outside the viewport too; candidate is only set when it is in the ActionMap.
+ */
+export function resolveTableRow(
+    tabId: number,
+    query: { column: string; value: string; target?: string; tableId?: string }
+): { table: TableSchema; row: TableRow; candidateId: string | null; candidate: ActionCandidate | null } | null {
+    const column = query.column.trim().toLowerCase();
+    const value = query.value.trim().toLowerCase();
+    const tables = getTables(tabId).filter(t => !query.tableId || t.id === query.tableId);
+
+    let exact: { table: TableSchema; row: TableRow } | null = null;
+    let partial: { table: TableSchema; row: TableRow } | null = null;
+    for (const table of tables) {
+        const columnIndex = table.headers.findIndex(h => h.toLowerCase() === column);
+        if (columnIndex === -1) continue;
+
+        for (const row of table.rows) {
+            const text = row.cells.find(c => c.column === columnIndex)?.text.toLowerCase() ?? '';
+            if (text === value) {
+                exact = { table, row };
+                break;
+            }
+            if (!partial && text.includes(value)) partial = { table, row };
+        }
+        if (exact) break;
+    }
+
+    const match = exact ?? partial;
+    if (!match) return null;
+
+    const controls = match.row.cells.flatMap(c =>
+        c.candidateIds.map((id, i) => ({ id, name: (c.candidateNames[i] ?? '').toLowerCase() }))
+    );
+
+    let candidateId: string | null = null;
+    if (query.target) {
+        const target = query.target.trim().toLowerCase();
+        candidateId = (controls.find(c => c.name === target)
+            ?? controls.find(c => c.name.includes(target)))?.id ?? null;
+    }
+
+    return { ...match, candidateId, candidate: candidateId ? getCandidate(tabId, candidateId) ?? null : null };
+}
+
+/**
+ * Follow focus through a command's ack: effects report it, focus/type/click/select
+ * leave it on their target, and keys or batches may have moved it anywhere
+ */
+export function noteCommandAck(command: Command, ack: CommandAck): void {
+    const tabState = state.tabs.get(command.tabId);
+    if (!tabState) return;
+
+    if (ack.status === 'verify' && ack.verification.effects) {
+        tabState.focusedId = ack.verification.effects.focusedId;
+        return;
+    }
+
+    const id = 'id' in command ? command.id : undefined;
+    if (ack.status === 'ok' && id && FOCUSING_COMMANDS.has(command.type)) {
+        tabState.focusedId = id;
+    } else if (command.type === 'key' || command.type === 'batch') {
+        tabState.focusedId = undefined;
+    }
+}
+
+/**
+ * Get the candidate holding focus (null: none; undefined: not known)
+ */
+export function getFocusedId(tabId: number): string | null | undefined {
+    const tabState = state.tabs.get(tabId);
+    return tabState ? tabState.focusedId : null;
+}
+
 /**
  * Get candidate by ID
  */
@@ -178,6 +535,25 @@ export function getCandidate(tabId: number, candidateId: string): ActionCandidat
     return tabState?.candidates.get(candidateId);
 }
 
+/**
+ * Get the accessible name behind an id: the candidate's, or for a control in a
+ * table row outside the ActionMap, the name reported with the table
+ */
+export function getElementName(tabId: number, id: string): string | undefined {
+    const candidate = getCandidate(tabId, id);
+    if (candidate) return candidate.name;
+
+    for (const table of getTables(tabId)) {
+        for (const row of table.rows) {
+            for (const cell of row.cells) {
+                const index = cell.candidateIds.indexOf(id);
+                if (index !== -1) return cell.candidateNames[index];
+            }
+        }
+    }
+    return undefined;
+}
+
 /**
  * Search candidates by text
  */
@@ -193,6 +569,7 @@ export function searchCandidates(
         // Apply text search
         if (search && !c.name.toLowerCase().includes(query) &&
             !c.aria.toLowerCase().includes(query) &&
+            !c.description?.toLowerCase().includes(query) &&
             !c.id.toLowerCase().includes(query)) {
             return false;
         }
@@ -207,6 +584,50 @@ export function searchCandidates(
     });
 }
 
+/**
+ * Parse a fingerprint position: "<col>.<row>", or "item<index>" in a recycled list
+ */
+function parsePosition(position: string): number[] {
+    return position.startsWith('item') ? [0, Number(position.slice(4))] : position.split('.').map(Number);
+}
+
+/**
+ * Reacquire "the same element as before" by fingerprint, or by an id seen earlier.
+ * Exact fingerprint matches win; otherwise the closest candidate with the same
+ * semantic part (role, name, form, landmarks) is returned.
+ */
+export function reacquireCandidate(
+    tabId: number,
+    target: { id?: string; fingerprint?: string }
+): ActionCandidate | null {
+    const fingerprint = target.fingerprint
+        ?? (target.id ? fingerprintHistory.get(tabId)?.get(target.id) : undefined);
+    if (!fingerprint) return null;
+
+    const candidates = getCandidates(tabId);
+    const exact = candidates.find(c => c.fingerprint === fingerprint);
+    if (exact) return exact;
+
+    const [semantic, position = ''] = fingerprint.split(':');
+    const [col, row] = parsePosition(position);
+
+    let best: ActionCandidate | null = null;
+    let bestDistance = Infinity;
+    for (const candidate of candidates) {
+        const [candidateSemantic, candidatePosition = ''] = candidate.fingerprint.split(':');
+        if (candidateSemantic !== semantic) continue;
+
+        const [candidateCol, candidateRow] = parsePosition(candidatePosition);
+        const distance = Math.abs(candidateCol - col) + Math.abs(candidateRow - row);
+        if (best === null || distance < bestDistance) {
+            best = candidate;
+            bestDistance = Number.isNaN(distance) ? Infinity : distance;
+        }
+    }
+
+    return best;
+}
+
 /**
  * Get world state summary
  */
@@ -217,6 +638,7 @@ export function getWorldSummary() {
             tabId: t.tabId,
             url: t.url,
             candidateCount: t.candidates.size,
+            frameCount: t.frames.size,
             lastUpdate: t.lastUpdate,
         })),
         pointer: state.pointer,
@@ -229,6 +651,7 @@ export function getWorldSummary() {
 export function clearState(): void {
     state.tabs.clear();
     state.pointer = null;
+    fingerprintHistory.clear();
 }
 
 export { state };
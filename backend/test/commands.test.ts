@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+    setCommandSender,
+    executeCommand,
+    cancelCommand,
+    resolveCommand,
+    getDefaultTimeout,
+} from '../src/commands.js';
+import { resetPolicy, updatePolicy } from '../src/policy.js';
+import type { Command, CancelMessage } from '../src/protocol.js';
+
+describe('commands', () => {
+    let clock = Date.now();
+    let sent: (Command | CancelMessage)[];
+
+    beforeEach(() => {
+        // Each test starts two minutes after the last so rate limit history has expired
+        clock += 120000;
+        vi.useFakeTimers();
+        vi.setSystemTime(clock);
+        resetPolicy();
+        updatePolicy({ logAllCommands: false });
+
+        sent = [];
+        setCommandSender(message => {
+            sent.push(message);
+            return true;
+        });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe('getDefaultTimeout', () => {
+        it('gives wait_for its own timeout plus a margin', () => {
+            expect(getDefaultTimeout({ type: 'wait_for', commandId: 'w', tabId: 1, condition: 'quiet' })).toBe(15000);
+            expect(getDefaultTimeout({ type: 'wait_for', commandId: 'w', tabId: 1, condition: 'quiet', timeout: 2000 })).toBe(7000);
+        });
+
+        it('sums a batch from its steps', () => {
+            const timeout = getDefaultTimeout({
+                type: 'batch',
+                commandId: 'b',
+                tabId: 1,
+                steps: [
+                    { command: { type: 'click', id: 'save', timeoutMs: 1000 }, delay: 200 },
+                    { command: { type: 'wait_for', condition: 'quiet' }, expect: { text: 'Saved' } },
+                ],
+            });
+            // margin + (delay + step timeout) + (wait_for default + expect default)
+            expect(timeout).toBe(5000 + 1200 + 15000 + 1000);
+        });
+
+        it('gives other commands the command timeout', () => {
+            expect(getDefaultTimeout({ type: 'click', commandId: 'c', tabId: 1, id: 'save' })).toBe(30000);
+        });
+    });
+
+    describe('executeCommand', () => {
+        it('sends the default timeoutMs and resolves with the ack', async () => {
+            const running = executeCommand({ type: 'wait_for', commandId: 'w1', tabId: 1, condition: 'quiet' });
+            expect(sent).toEqual([{ type: 'wait_for', commandId: 'w1', tabId: 1, condition: 'quiet', timeoutMs: 15000 }]);
+
+            resolveCommand({ type: 'ack', commandId: 'w1', status: 'ok', timestamp: Date.now() });
+            expect((await running).status).toBe('ok');
+        });
+
+        it('keeps a timeoutMs the command sets', () => {
+            executeCommand({ type: 'click', commandId: 'c1', tabId: 1, id: 'save', timeoutMs: 500 });
+            expect((sent[0] as Command).timeoutMs).toBe(500);
+            cancelCommand('c1');
+        });
+
+        it('fails with a timeout when no ack arrives', async () => {
+            const running = executeCommand({ type: 'click', commandId: 'c2', tabId: 1, id: 'save', timeoutMs: 1000 });
+
+            vi.advanceTimersByTime(2999);
+            expect(sent).toHaveLength(1);
+            vi.advanceTimersByTime(1);
+
+            const ack = await running;
+            expect(ack).toMatchObject({ status: 'fail', reason: 'timeout' });
+            expect(sent[1]).toEqual({ type: 'cancel', tabId: 1, commandId: 'c2', reason: 'timeout' });
+        });
+
+        it('fails when no extension is connected', async () => {
+            setCommandSender(() => false);
+            const ack = await executeCommand({ type: 'click', commandId: 'c3', tabId: 1, id: 'save' });
+            expect(ack).toMatchObject({ status: 'fail', reason: 'No extension connected' });
+        });
+    });
+
+    describe('cancelCommand', () => {
+        it('returns false for a command that is not running', () => {
+            expect(cancelCommand('unknown')).toBe(false);
+            expect(sent).toEqual([]);
+        });
+
+        it('tells the extension and resolves the command as cancelled', async () => {
+            const running = executeCommand({ type: 'click', commandId: 'c4', tabId: 1, id: 'save' });
+
+            expect(cancelCommand('c4', 'User stop')).toBe(true);
+            expect(sent[1]).toEqual({ type: 'cancel', tabId: 1, commandId: 'c4', reason: 'User stop' });
+            expect(await running).toMatchObject({ status: 'cancelled', reason: 'User stop' });
+
+            // A late ack and a second cancel find nothing pending
+            resolveCommand({ type: 'ack', commandId: 'c4', status: 'ok', timestamp: Date.now() });
+            expect(cancelCommand('c4')).toBe(false);
+        });
+
+        it('logs a cancelled command as cancelled', () => {
+            updatePolicy({ logAllCommands: true });
+            const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+            executeCommand({ type: 'click', commandId: 'c5', tabId: 1, id: 'save' });
+            cancelCommand('c5');
+
+            const audit = log.mock.calls.find(call => call[0] === '[Audit]');
+            expect(JSON.parse(audit![1])).toMatchObject({ commandId: 'c5', result: 'cancelled' });
+            log.mockRestore();
+        });
+    });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { checkCommand, checkBatch, resetPolicy, updatePolicy, getRateLimitStatus } from '../src/policy.js';
+import type { BatchCommand, BatchStep, Command } from '../src/protocol.js';
+
+function batch(steps: BatchStep[]): BatchCommand {
+    return { type: 'batch', commandId: 'b1', tabId: 1, steps };
+}
+
+function clickStep(id: string): BatchStep {
+    return { command: { type: 'click', id } };
+}
+
+const names: Record<string, string> = {
+    save: 'Save',
+    remove: 'Remove item',
+    pay: 'Buy now',
+};
+
+describe('policy', () => {
+    let clock = Date.now();
+
+    beforeEach(() => {
+        // Each test starts two minutes after the last so rate limit history has expired
+        clock += 120000;
+        vi.useFakeTimers();
+        vi.setSystemTime(clock);
+        resetPolicy();
+        updatePolicy({ logAllCommands: false });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe('checkBatch', () => {
+        it('allows an 11-step batch and counts it once toward the rate limits', () => {
+            const steps = Array.from({ length: 11 }, () => clickStep('save'));
+            const result = checkBatch(batch(steps), 'https://example.com', id => names[id]);
+
+            expect(result.allowed).toBe(true);
+            expect(getRateLimitStatus().commandsLastSecond).toBe(1);
+        });
+
+        it('denies the batch at the first dangerous step without recording it', () => {
+            const result = checkBatch(batch([clickStep('save'), clickStep('remove')]), 'https://example.com', id => names[id]);
+
+            expect(result.allowed).toBe(false);
+            expect(result.reason).toBe('Step 2: Delete action blocked: Remove item');
+            expect(getRateLimitStatus().commandsLastSecond).toBe(0);
+        });
+
+        it('checks the domain of every step', () => {
+            updatePolicy({ domainMode: 'blocklist', domainList: ['example.com'] });
+            const result = checkBatch(batch([clickStep('save')]), 'https://shop.example.com');
+
+            expect(result.allowed).toBe(false);
+            expect(result.reason).toMatch(/^Step 1: Domain not allowed/);
+        });
+
+        it('follows focus through the steps for Enter without an id', () => {
+            const enter: BatchStep = { command: { type: 'key', key: 'Enter' } };
+            const focusPay: BatchStep = { command: { type: 'focus', id: 'pay' } };
+            const typeSearch: BatchStep = { command: { type: 'type', id: 'save', text: 'x' } };
+
+            const focused = checkBatch(batch([focusPay, enter]), undefined, id => names[id], null);
+            expect(focused.reason).toBe('Step 2: Payment action blocked: Buy now');
+
+            const typed = checkBatch(batch([focusPay, typeSearch, enter]), undefined, id => names[id], null);
+            expect(typed.allowed).toBe(true);
+
+            const before = checkBatch(batch([enter]), undefined, id => names[id], 'remove');
+            expect(before.reason).toBe('Step 1: Delete action blocked: Remove item');
+        });
+
+        it('stops trusting focus after a key step', () => {
+            const tab: BatchStep = { command: { type: 'key', key: 'Tab' } };
+            const enter: BatchStep = { command: { type: 'key', key: 'Enter' } };
+            const result = checkBatch(batch([clickStep('save'), tab, enter]), undefined, id => names[id], null);
+
+            expect(result.reason).toBe('Step 3: Focus not known for Enter: send it to a candidate id');
+        });
+
+        it('is denied once the per-second limit is used up', () => {
+            for (let i = 0; i < 10; i++) {
+                checkCommand({ type: 'focus', commandId: `c${i}`, tabId: 1, id: 'save' } as Command);
+            }
+            const result = checkBatch(batch([clickStep('save')]), 'https://example.com', id => names[id]);
+
+            expect(result.allowed).toBe(false);
+            expect(result.reason).toBe('Rate limit exceeded (per second)');
+        });
+    });
+
+    describe('checkCommand', () => {
+        it('blocks payment clicks by element name', () => {
+            const result = checkCommand({ type: 'click', commandId: 'c1', tabId: 1, id: 'pay' }, undefined, 'Buy now');
+
+            expect(result.allowed).toBe(false);
+            expect(result.reason).toBe('Payment action blocked: Buy now');
+        });
+
+        it('checks every label of a menu path', () => {
+            const blocked = checkCommand({ type: 'navigate_menu', commandId: 'c1', tabId: 1, path: ['Edit', 'Delete row'] });
+            const allowed = checkCommand({ type: 'navigate_menu', commandId: 'c2', tabId: 1, path: ['File', 'Export', 'PDF'] });
+
+            expect(blocked.allowed).toBe(false);
+            expect(blocked.reason).toBe('Delete action blocked: Delete row');
+            expect(allowed.allowed).toBe(true);
+        });
+
+        it('checks Enter and Space sent to a candidate', () => {
+            const enter = checkCommand({ type: 'key', commandId: 'c1', tabId: 1, id: 'pay', key: 'Enter' }, undefined, 'Buy now');
+            const space = checkCommand({ type: 'key', commandId: 'c2', tabId: 1, id: 'remove', key: 'Shift+Space' }, undefined, 'Remove item');
+            const arrow = checkCommand({ type: 'key', commandId: 'c3', tabId: 1, id: 'remove', key: 'ArrowDown' }, undefined, 'Remove item');
+
+            expect(enter.reason).toBe('Payment action blocked: Buy now');
+            expect(space.reason).toBe('Delete action blocked: Remove item');
+            expect(arrow.allowed).toBe(true);
+        });
+
+        it('checks Enter without an id against the focused candidate', () => {
+            const enter: Command = { type: 'key', commandId: 'c1', tabId: 1, key: 'Enter' };
+
+            expect(checkCommand(enter, undefined, undefined, 'Buy now').reason).toBe('Payment action blocked: Buy now');
+            expect(checkCommand(enter, undefined, undefined, 'Search').allowed).toBe(true);
+            expect(checkCommand(enter, undefined, undefined, null).allowed).toBe(true);
+        });
+
+        it('denies Enter without an id while focus is not known', () => {
+            const enter: Command = { type: 'key', commandId: 'c1', tabId: 1, key: 'Enter' };
+            const tab: Command = { type: 'key', commandId: 'c2', tabId: 1, key: 'Tab' };
+
+            expect(checkCommand(enter).reason).toBe('Focus not known for Enter: send it to a candidate id');
+            expect(checkCommand(tab).allowed).toBe(true);
+
+            updatePolicy({ blockPaymentActions: false, blockDeleteActions: false });
+            expect(checkCommand(enter).allowed).toBe(true);
+        });
+
+        it('allows dangerous names when blocking is off', () => {
+            updatePolicy({ blockDeleteActions: false });
+            const result = checkCommand({ type: 'click', commandId: 'c1', tabId: 1, id: 'remove' }, undefined, 'Remove item');
+
+            expect(result.allowed).toBe(true);
+        });
+    });
+
+    describe('domain filtering', () => {
+        it('denies commands to a tab whose main frame URL is not known yet', () => {
+            updatePolicy({ domainMode: 'allowlist', domainList: ['example.com'] });
+            const command: Command = { type: 'click', commandId: 'c1', tabId: 1, id: 'save' };
+
+            expect(checkCommand(command, '', 'Save').allowed).toBe(false);
+            expect(checkCommand(command, 'https://example.com/', 'Save').allowed).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    handleHello,
+    handleSnapshot,
+    handleTables,
+    handleDelta,
+    getTab,
+    getFocusedId,
+    noteCommandAck,
+    getElementName,
+    resolveTableRow,
+    reacquireCandidate,
+    clearState,
+} from '../src/world-state.js';
+import type { ActionCandidate, Command, CommandAck, HelloMessage, TableSchema } from '../src/protocol.js';
+
+function hello(frameId: number, url: string): HelloMessage {
+    return {
+        type: 'hello',
+        tabId: 1,
+        frameId,
+        url,
+        viewport: { width: 1280, height: 800 },
+        userAgent: 'test',
+        timestamp: Date.now(),
+    };
+}
+
+function candidate(id: string, name: string, fingerprint: string): ActionCandidate {
+    return {
+        id,
+        rect: { x: 0, y: 0, w: 10, h: 10 },
+        rectN: { x: 0, y: 0, w: 0.01, h: 0.01 },
+        role: 'button',
+        tag: 'button',
+        name,
+        description: '',
+        aria: '',
+        state: { disabled: false, expanded: false, checked: false, selected: false, focused: false },
+        ctx: { inModal: false, inNav: false, inForm: false, depth: 1 },
+        styleHint: { isPrimary: false, isDanger: false, cursorPointer: true },
+        hit: { cx: 5, cy: 5 },
+        occluded: false,
+        visibleFraction: 1,
+        occludedBy: null,
+        inViewport: true,
+        fingerprint,
+        headingId: null,
+        landmarkId: null,
+    };
+}
+
+function snapshot(candidates: ActionCandidate[]): void {
+    handleSnapshot({
+        type: 'snapshot',
+        tabId: 1,
+        frameId: 0,
+        url: 'https://example.com/',
+        viewport: { width: 1280, height: 800 },
+        timestamp: Date.now(),
+        candidates,
+    });
+}
+
+const users: TableSchema = {
+    id: 't1',
+    name: 'Users',
+    kind: 'table',
+    headers: ['Email', 'Actions'],
+    rowCount: 2,
+    rows: [
+        {
+            id: 'r1',
+            index: 0,
+            cells: [
+                { column: 0, text: 'ann@example.com', candidateIds: [], candidateNames: [] },
+                { column: 1, text: 'Edit Delete', candidateIds: ['edit1', 'del1'], candidateNames: ['Edit', 'Delete'] },
+            ],
+        },
+        {
+            // Below the fold: its controls are not in the ActionMap
+            id: 'r2',
+            index: 1,
+            cells: [
+                { column: 0, text: 'bob@example.com', candidateIds: [], candidateNames: [] },
+                { column: 1, text: 'Edit Delete', candidateIds: ['edit2', 'del2'], candidateNames: ['Edit', 'Delete'] },
+            ],
+        },
+    ],
+};
+
+describe('world-state', () => {
+    beforeEach(() => {
+        clearState();
+    });
+
+    describe('handleHello', () => {
+        it('leaves the tab URL unset when a subframe connects first', () => {
+            handleHello(hello(3, 'https://ads.example.net/frame'));
+            expect(getTab(1)?.url).toBe('');
+
+            handleHello(hello(0, 'https://example.com/'));
+            expect(getTab(1)?.url).toBe('https://example.com/');
+        });
+
+        it('keeps the main frame URL when a subframe connects later', () => {
+            handleHello(hello(0, 'https://example.com/'));
+            handleHello(hello(3, 'https://ads.example.net/frame'));
+            expect(getTab(1)?.url).toBe('https://example.com/');
+        });
+    });
+
+    describe('resolveTableRow', () => {
+        beforeEach(() => {
+            snapshot([candidate('edit1', 'Edit', 'h1:0.0'), candidate('del1', 'Delete', 'h2:0.0')]);
+            handleTables({ type: 'tables', tabId: 1, frameId: 0, timestamp: Date.now(), tables: [users] });
+        });
+
+        it('returns the named control of the matching row', () => {
+            const match = resolveTableRow(1, { column: 'email', value: 'ann@example.com', target: 'Edit' });
+
+            expect(match?.row.id).toBe('r1');
+            expect(match?.candidateId).toBe('edit1');
+            expect(match?.candidate?.id).toBe('edit1');
+        });
+
+        it('returns the control id of a row outside the ActionMap', () => {
+            const match = resolveTableRow(1, { column: 'Email', value: 'bob@example.com', target: 'delete' });
+
+            expect(match?.row.id).toBe('r2');
+            expect(match?.candidateId).toBe('del2');
+            expect(match?.candidate).toBeNull();
+        });
+
+        it('prefers an exact cell match over a substring match', () => {
+            const match = resolveTableRow(1, { column: 'Email', value: 'example.com' });
+            expect(match?.row.id).toBe('r1');
+
+            const exact = resolveTableRow(1, { column: 'Email', value: 'BOB@example.com' });
+            expect(exact?.row.id).toBe('r2');
+        });
+
+        it('returns null without a matching row', () => {
+            expect(resolveTableRow(1, { column: 'Email', value: 'eve@example.com' })).toBeNull();
+            expect(resolveTableRow(1, { column: 'Phone', value: 'ann' })).toBeNull();
+        });
+
+        it('names controls outside the ActionMap for the policy checks', () => {
+            expect(getElementName(1, 'del1')).toBe('Delete');
+            expect(getElementName(1, 'del2')).toBe('Delete');
+            expect(getElementName(1, 'missing')).toBeUndefined();
+        });
+    });
+
+    describe('reacquireCandidate', () => {
+        it('finds an exact fingerprint match', () => {
+            snapshot([candidate('a', 'Save', 'h1:2.1'), candidate('b', 'Save', 'h1:2.4')]);
+            expect(reacquireCandidate(1, { fingerprint: 'h1:2.4' })?.id).toBe('b');
+        });
+
+        it('falls back to the nearest candidate with the same semantic hash', () => {
+            snapshot([candidate('a', 'Save', 'h1:0.0'), candidate('b', 'Save', 'h1:3.5'), candidate('c', 'Cancel', 'h2:3.4')]);
+            expect(reacquireCandidate(1, { fingerprint: 'h1:3.4' })?.id).toBe('b');
+        });
+
+        it('compares item positions in recycled lists', () => {
+            snapshot([candidate('a', 'Open', 'h1:item3'), candidate('b', 'Open', 'h1:item40')]);
+            expect(reacquireCandidate(1, { fingerprint: 'h1:item38' })?.id).toBe('b');
+        });
+
+        it('reacquires by an id seen in an earlier snapshot', () => {
+            snapshot([candidate('old', 'Save', 'h1:1.1')]);
+            snapshot([candidate('new', 'Save', 'h1:1.2')]);
+            expect(reacquireCandidate(1, { id: 'old' })?.id).toBe('new');
+        });
+
+        it('returns null without a candidate of the same semantic hash', () => {
+            snapshot([candidate('a', 'Save', 'h1:1.1')]);
+            expect(reacquireCandidate(1, { fingerprint: 'h9:1.1' })).toBeNull();
+            expect(reacquireCandidate(1, { id: 'unknown' })).toBeNull();
+        });
+    });
+
+    describe('focus', () => {
+        const ok = (commandId: string): CommandAck => ({ type: 'ack', commandId, status: 'ok', timestamp: 0 });
+        const focused = (c: ActionCandidate) => ({ ...c, state: { ...c.state, focused: true } });
+
+        it('follows candidates reporting focus', () => {
+            snapshot([focused(candidate('a', 'Search', 'h1:0.0')), candidate('b', 'Buy now', 'h2:0.0')]);
+            expect(getFocusedId(1)).toBe('a');
+
+            handleDelta({
+                type: 'delta', tabId: 1, frameId: 0, timestamp: 0, added: [], removed: [],
+                updated: [
+                    { id: 'a', state: candidate('a', '', '').state },
+                    { id: 'b', state: focused(candidate('b', '', '')).state },
+                ],
+            });
+            expect(getFocusedId(1)).toBe('b');
+
+            handleDelta({ type: 'delta', tabId: 1, frameId: 0, timestamp: 0, added: [], removed: ['b'], updated: [] });
+            expect(getFocusedId(1)).toBeNull();
+        });
+
+        it('follows focus through command acks', () => {
+            snapshot([candidate('a', 'Search', 'h1:0.0'), candidate('b', 'Buy now', 'h2:0.0')]);
+            const focus: Command = { type: 'focus', commandId: 'c1', tabId: 1, id: 'b' };
+            const key: Command = { type: 'key', commandId: 'c2', tabId: 1, key: 'Tab' };
+
+            noteCommandAck(focus, ok('c1'));
+            expect(getFocusedId(1)).toBe('b');
+
+            noteCommandAck(key, ok('c2'));
+            expect(getFocusedId(1)).toBeUndefined();
+
+            noteCommandAck(key, {
+                type: 'ack', commandId: 'c2', status: 'verify', timestamp: 0,
+                verification: {
+                    id: 'a', stillVisible: true, hitTestOk: true, rectChanged: false,
+                    effects: {
+                        urlChanged: false, modalOpened: false, menuOpened: false, focusChanged: true,
+                        focusedId: 'a', candidatesAdded: 0, candidatesRemoved: 0, valueChanged: false,
+                    },
+                },
+            });
+            expect(getFocusedId(1)).toBe('a');
+        });
+    });
+});
@@ -215,6 +215,7 @@ function renderCandidates() {
               <span class="meta-item">📐 ${c.rect.w}×${c.rect.h}</span>
               ${c.state.focused ? '<span class="meta-item">🎯 focused</span>' : ''}
               ${c.occluded ? '<span class="meta-item">👁️ occluded</span>' : ''}
+              ${c.inViewport === false ? '<span class="meta-item">↕️ offscreen</span>' : ''}
               ${c.ctx.inModal ? '<span class="meta-item">📦 modal</span>' : ''}
             </div>
           </div>
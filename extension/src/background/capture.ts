@@ -0,0 +1,83 @@
+/**
+ * Capture - Cropped screenshots of the visible tab
+ * Captures with chrome.tabs.captureVisibleTab and crops in device pixels on an OffscreenCanvas
+ */
+
+import type { CapturePatchRequest } from '../shared/protocol';
+
+// captureVisibleTab is limited to two calls per second
+const MIN_CAPTURE_INTERVAL = 550;
+
+let lastCaptureAt = 0;
+
+export interface Patch {
+    data: string;
+    width: number;
+    height: number;
+    scale: number;
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    // Chunked: String.fromCharCode with one argument per byte overflows the stack on big images
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+async function captureTab(tabId: number): Promise<string> {
+    const tab = await chrome.tabs.get(tabId);
+    if (!tab.active) {
+        throw new Error(`Tab ${tabId} is not the active tab of its window; only visible tabs can be captured`);
+    }
+
+    const wait = lastCaptureAt + MIN_CAPTURE_INTERVAL - Date.now();
+    if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait));
+    }
+    lastCaptureAt = Date.now();
+
+    // Always PNG here; the crop is re-encoded in the requested format
+    return chrome.tabs.captureVisibleTab(tab.windowId, { format: 'png' });
+}
+
+/**
+ * Capture a tab and crop it to a rect in top-level viewport CSS pixels. The scale
+ * comes from the screenshot's size against the viewport, which covers both the
+ * device pixel ratio and page zoom.
+ */
+export async function capturePatch(tabId: number, request: CapturePatchRequest): Promise<Patch> {
+    const dataUrl = await captureTab(tabId);
+    const bitmap = await createImageBitmap(await (await fetch(dataUrl)).blob());
+    const scale = bitmap.width / request.viewport.width;
+
+    // Clamp to the screenshot; parts of the rect outside the viewport can't be captured
+    const left = Math.max(0, Math.floor(request.rect.x * scale));
+    const top = Math.max(0, Math.floor(request.rect.y * scale));
+    const right = Math.min(bitmap.width, Math.ceil((request.rect.x + request.rect.w) * scale));
+    const bottom = Math.min(bitmap.height, Math.ceil((request.rect.y + request.rect.h) * scale));
+    if (right <= left || bottom <= top) {
+        bitmap.close();
+        throw new Error('Rect is outside the visible viewport');
+    }
+
+    const width = right - left;
+    const height = bottom - top;
+    const canvas = new OffscreenCanvas(width, height);
+    canvas.getContext('2d')!.drawImage(bitmap, left, top, width, height, 0, 0, width, height);
+    bitmap.close();
+
+    const blob = await canvas.convertToBlob({
+        type: request.format === 'jpeg' ? 'image/jpeg' : 'image/png',
+        quality: request.quality !== undefined ? request.quality / 100 : undefined,
+    });
+
+    return {
+        data: toBase64(await blob.arrayBuffer()),
+        width,
+        height,
+        scale,
+    };
+}
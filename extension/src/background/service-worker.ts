@@ -6,12 +6,24 @@
 import type {
     TelemetryMessage,
     Command,
+    BatchStepCommand,
     CommandAck,
     ActionMapSnapshot,
     ActionMapDelta,
     HelloMessage,
     ConnectionConfig,
+    ConfigureMessage,
+    PerceptionOptions,
+    InputDefaultsMessage,
+    CancelMessage,
+    TrustedInputRequest,
+    TrustedInputResult,
+    CapturePatchRequest,
+    CapturePatchResult,
+    PointerPositionMessage,
 } from '../shared/protocol';
+import { setInputDefaults, withInputMode, dispatchTrustedInput } from './trusted-input';
+import { capturePatch } from './capture';
 
 // Connection configuration
 const config: ConnectionConfig = {
@@ -29,10 +41,19 @@ let heartbeatInterval: ReturnType<typeof setInterval> | null = null;
 let messageQueue: TelemetryMessage[] = [];
 let isConnecting = false;
 
-// Tab state: map of tabId -> port
-const tabPorts = new Map<number, chrome.runtime.Port>();
+// Tab state: map of tabId -> (frameId -> port)
+const tabPorts = new Map<number, Map<number, chrome.runtime.Port>>();
 const tabState = new Map<number, { url: string; lastSnapshot: ActionMapSnapshot | null }>();
 
+// Per-frame snapshots, merged into tabState.lastSnapshot
+const frameSnapshots = new Map<number, Map<number, ActionMapSnapshot>>();
+
+// Candidate ownership: map of tabId -> (candidateId -> frameId)
+const candidateFrames = new Map<number, Map<string, number>>();
+
+// Perception options per tab, replayed to frames that connect later
+const tabOptions = new Map<number, PerceptionOptions>();
+
 /**
  * Connect to WebSocket backend
  */
@@ -62,12 +83,8 @@ function connectWebSocket() {
             }
 
             // Request snapshots from all connected tabs
-            for (const [tabId, port] of tabPorts) {
-                try {
-                    port.postMessage({ type: 'request_snapshot' });
-                } catch (e) {
-                    console.error('[ServiceWorker] Failed to request snapshot from tab', tabId, e);
-                }
+            for (const tabId of tabPorts.keys()) {
+                postToAllFrames(tabId, { type: 'request_snapshot' });
             }
         };
 
@@ -138,17 +155,138 @@ function sendToBackend(message: TelemetryMessage) {
     }
 }
 
+/**
+ * Post a message to every frame of a tab
+ */
+function postToAllFrames(tabId: number, message: unknown) {
+    const ports = tabPorts.get(tabId);
+    if (!ports) return;
+
+    for (const [frameId, port] of ports) {
+        try {
+            port.postMessage(message);
+        } catch (e) {
+            console.error('[ServiceWorker] Failed to post to frame', tabId, frameId, e);
+        }
+    }
+}
+
+/**
+ * The candidate a command targets, if any (for a batch, its first targeted step's)
+ */
+function getTargetId(command: Command | BatchStepCommand): string | undefined {
+    if (command.type === 'batch') {
+        for (const step of command.steps) {
+            const targetId = getTargetId(step.command);
+            if (targetId) return targetId;
+        }
+        return undefined;
+    }
+    return 'id' in command ? command.id
+        : command.type === 'scroll' ? command.target
+            : undefined;
+}
+
+/**
+ * Resolve which frame owns the element targeted by a command (defaults to main frame).
+ * A batch runs entirely in one frame.
+ */
+function getCommandFrameId(tabId: number, command: Command): number {
+    const targetId = getTargetId(command);
+    if (!targetId) return 0;
+
+    return candidateFrames.get(tabId)?.get(targetId) ?? 0;
+}
+
+/**
+ * Record candidate ownership from a snapshot or delta
+ */
+function trackCandidateFrames(tabId: number, frameId: number, message: ActionMapSnapshot | ActionMapDelta) {
+    let owners = candidateFrames.get(tabId);
+    if (!owners) {
+        owners = new Map();
+        candidateFrames.set(tabId, owners);
+    }
+
+    if (message.type === 'snapshot') {
+        for (const [id, owner] of owners) {
+            if (owner === frameId) owners.delete(id);
+        }
+        for (const candidate of message.candidates) {
+            owners.set(candidate.id, frameId);
+        }
+    } else {
+        for (const id of message.removed) {
+            owners.delete(id);
+        }
+        for (const candidate of message.added) {
+            owners.set(candidate.id, frameId);
+        }
+    }
+}
+
+/**
+ * Forget everything a frame reported
+ */
+function forgetFrame(tabId: number, frameId: number) {
+    tabPorts.get(tabId)?.delete(frameId);
+    frameSnapshots.get(tabId)?.delete(frameId);
+
+    const owners = candidateFrames.get(tabId);
+    if (owners) {
+        for (const [id, owner] of owners) {
+            if (owner === frameId) owners.delete(id);
+        }
+    }
+}
+
+/**
+ * Forget everything about a tab
+ */
+function forgetTab(tabId: number) {
+    tabPorts.delete(tabId);
+    tabState.delete(tabId);
+    frameSnapshots.delete(tabId);
+    candidateFrames.delete(tabId);
+}
+
+/**
+ * Store a frame snapshot and rebuild the merged tab snapshot
+ */
+function storeSnapshot(tabId: number, frameId: number, snapshot: ActionMapSnapshot) {
+    let snapshots = frameSnapshots.get(tabId);
+    if (!snapshots) {
+        snapshots = new Map();
+        frameSnapshots.set(tabId, snapshots);
+    }
+    snapshots.set(frameId, snapshot);
+
+    const state = tabState.get(tabId);
+    if (!state) return;
+
+    const top = snapshots.get(0) || snapshot;
+    state.lastSnapshot = {
+        ...top,
+        frameId: 0,
+        candidates: Array.from(snapshots.values()).flatMap(s => s.candidates),
+    };
+}
+
 /**
  * Handle message from backend
  */
 function handleBackendMessage(message: Command | { type: string; tabId?: number }) {
     const msgWithTab = message as { commandId?: string; tabId?: number; type: string };
-    if (msgWithTab.commandId && msgWithTab.tabId !== undefined) {
-        // Route command to specific tab
-        const port = tabPorts.get(msgWithTab.tabId);
+    if (message.type === 'cancel' && msgWithTab.tabId !== undefined) {
+        // Only the frame running the command knows it; tell them all
+        postToAllFrames(msgWithTab.tabId, message as CancelMessage);
+    } else if (msgWithTab.commandId && msgWithTab.tabId !== undefined) {
+        // Route command to the frame that owns its target
+        const frameId = getCommandFrameId(msgWithTab.tabId, message as Command);
+        const port = tabPorts.get(msgWithTab.tabId)?.get(frameId);
         if (port) {
             try {
-                port.postMessage(message);
+                port.postMessage(withInputMode(message as Command, tabState.get(msgWithTab.tabId)?.url));
             } catch (e) {
                 console.error('[ServiceWorker] Failed to send command to tab', msgWithTab.tabId, e);
             }
@@ -158,22 +296,69 @@ function handleBackendMessage(message: Command | { type: string; tabId?: number
                 type: 'ack',
                 commandId: msgWithTab.commandId,
                 status: 'fail',
-                reason: `Tab ${msgWithTab.tabId} not connected`,
+                reason: tabPorts.has(msgWithTab.tabId)
+                    ? `Frame ${frameId} of tab ${msgWithTab.tabId} not connected`
+                    : `Tab ${msgWithTab.tabId} not connected`,
                 timestamp: Date.now(),
             } as unknown as TelemetryMessage);
         }
+    } else if (message.type === 'configure' && message.tabId !== undefined) {
+        // Merge and apply perception options to every frame of the tab
+        const configure = message as ConfigureMessage;
+        const options = { ...tabOptions.get(configure.tabId), ...configure.options };
+        tabOptions.set(configure.tabId, options);
+        postToAllFrames(configure.tabId, { ...configure, options });
+    } else if (message.type === 'input_defaults') {
+        setInputDefaults((message as InputDefaultsMessage).defaults);
     } else if (message.type === 'broadcast') {
         // Broadcast to all tabs
-        for (const port of tabPorts.values()) {
-            try {
-                port.postMessage(message);
-            } catch (e) {
-                console.error('[ServiceWorker] Failed to broadcast:', e);
-            }
+        for (const tabId of tabPorts.keys()) {
+            postToAllFrames(tabId, message);
         }
     }
 }
 
+/**
+ * Run a content script's trusted input request and answer on its port
+ */
+async function handleTrustedInput(port: chrome.runtime.Port, tabId: number, request: TrustedInputRequest) {
+    const result: TrustedInputResult = { type: 'trusted_input_result', requestId: request.requestId, ok: true };
+    try {
+        await dispatchTrustedInput(tabId, request.events);
+    } catch (e) {
+        result.ok = false;
+        result.error = `Trusted input failed: ${(e as Error).message}`;
+    }
+    try {
+        port.postMessage(result);
+    } catch {
+        // Frame went away while the input was dispatched
+    }
+}
+
+/**
+ * Capture a patch of a content script's tab and answer on its port
+ */
+async function handleCapturePatch(port: chrome.runtime.Port, tabId: number, request: CapturePatchRequest) {
+    let result: CapturePatchResult;
+    try {
+        const patch = await capturePatch(tabId, request);
+        result = { type: 'capture_patch_result', requestId: request.requestId, ok: true, ...patch };
+    } catch (e) {
+        result = {
+            type: 'capture_patch_result',
+            requestId: request.requestId,
+            ok: false,
+            error: `Capture failed: ${(e as Error).message}`,
+        };
+    }
+    try {
+        port.postMessage(result);
+    } catch {
+        // Frame went away while the tab was captured
+    }
+}
+
 /**
  * Start heartbeat
  */
@@ -207,27 +392,59 @@ chrome.runtime.onConnect.addListener((port) => {
         console.warn('[ServiceWorker] Connection without tab ID');
         return;
     }
+    const frameId = port.sender?.frameId ?? 0;
 
-    console.log('[ServiceWorker] Tab connected:', tabId);
-    tabPorts.set(tabId, port);
+    console.log('[ServiceWorker] Tab connected:', tabId, 'frame', frameId);
+    let ports = tabPorts.get(tabId);
+    if (!ports) {
+        ports = new Map();
+        tabPorts.set(tabId, ports);
+    }
+    ports.set(frameId, port);
 
     // Handle messages from content script
-    port.onMessage.addListener((message: TelemetryMessage | CommandAck) => {
-        // Add tabId to message
-        const enrichedMessage = { ...message, tabId };
+    port.onMessage.addListener((message: TelemetryMessage | CommandAck | TrustedInputRequest | CapturePatchRequest | PointerPositionMessage) => {
+        if (message.type === 'trusted_input') {
+            handleTrustedInput(port, tabId, message);
+            return;
+        }
+        if (message.type === 'capture_patch_request') {
+            handleCapturePatch(port, tabId, message);
+            return;
+        }
+        if (message.type === 'pointer_position') {
+            // Share the pointer position with the tab's other frames (not the backend)
+            for (const [otherFrameId, otherPort] of tabPorts.get(tabId) || []) {
+                if (otherFrameId === frameId) continue;
+                try {
+                    otherPort.postMessage(message);
+                } catch {
+                    // Frame is going away; its port is cleaned up on disconnect
+                }
+            }
+            return;
+        }
+
+        // Add tabId and the authoritative frameId to message
+        const enrichedMessage = message.type === 'ack'
+            ? { ...message, tabId }
+            : { ...message, tabId, frameId };
 
         if (message.type === 'hello') {
-            // Store tab state
-            tabState.set(tabId, {
-                url: (message as HelloMessage).url,
-                lastSnapshot: null
-            });
+            // Store tab state (subframes report their own URL, not the tab's)
+            if (frameId === 0) {
+                tabState.set(tabId, {
+                    url: (message as HelloMessage).url,
+                    lastSnapshot: null
+                });
+            }
         } else if (message.type === 'snapshot') {
             // Store snapshot
-            const state = tabState.get(tabId);
-            if (state) {
-                state.lastSnapshot = message as ActionMapSnapshot;
-            }
+            const snapshot = enrichedMessage as ActionMapSnapshot;
+            storeSnapshot(tabId, frameId, snapshot);
+            trackCandidateFrames(tabId, frameId, snapshot);
+        } else if (message.type === 'delta') {
+            trackCandidateFrames(tabId, frameId, enrichedMessage as ActionMapDelta);
         }
 
         // Forward to backend
@@ -236,19 +453,36 @@ chrome.runtime.onConnect.addListener((port) => {
 
     // Handle disconnect
     port.onDisconnect.addListener(() => {
-        console.log('[ServiceWorker] Tab disconnected:', tabId);
-        tabPorts.delete(tabId);
-        tabState.delete(tabId);
+        console.log('[ServiceWorker] Tab disconnected:', tabId, 'frame', frameId);
+
+        // A newer port may already have replaced this one
+        if (tabPorts.get(tabId)?.get(frameId) !== port) return;
+
+        if (frameId === 0) {
+            forgetTab(tabId);
+        } else {
+            forgetFrame(tabId, frameId);
+        }
 
         // Notify backend
         sendToBackend({
             type: 'event',
             tabId,
+            frameId,
             eventType: 'unload',
             timestamp: Date.now(),
         } as TelemetryMessage);
     });
 
+    // Apply the tab's perception options before the first snapshot
+    const options = tabOptions.get(tabId);
+    if (options) {
+        port.postMessage({ type: 'configure', tabId, options } as ConfigureMessage);
+    }
+
+    // Tell the content script which frame it is; it starts perception on receipt
+    port.postMessage({ type: 'frame_info', frameId });
+
     // Ensure we're connected to backend
     connectWebSocket();
 });
@@ -258,15 +492,8 @@ chrome.runtime.onConnect.addListener((port) => {
  */
 chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
     if (changeInfo.status === 'complete') {
-        const port = tabPorts.get(tabId);
-        if (port) {
-            // Request new snapshot after navigation
-            try {
-                port.postMessage({ type: 'request_snapshot' });
-            } catch (e) {
-                // Tab might have been closed
-            }
-        }
+        // Request new snapshot after navigation
+        postToAllFrames(tabId, { type: 'request_snapshot' });
     }
 });
 
@@ -274,8 +501,8 @@ chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
  * Handle tab removal
  */
 chrome.tabs.onRemoved.addListener((tabId) => {
-    tabPorts.delete(tabId);
-    tabState.delete(tabId);
+    forgetTab(tabId);
+    tabOptions.delete(tabId);
 });
 
 /**
@@ -310,9 +537,9 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     }
 
     if (message.type === 'execute_command') {
-        const port = tabPorts.get(message.tabId);
+        const port = tabPorts.get(message.tabId)?.get(getCommandFrameId(message.tabId, message.command));
         if (port) {
-            port.postMessage(message.command);
+            port.postMessage(withInputMode(message.command, tabState.get(message.tabId)?.url));
             sendResponse({ ok: true });
         } else {
             sendResponse({ ok: false, error: 'Tab not connected' });
@@ -0,0 +1,102 @@
+/**
+ * Trusted Input - CDP input events through chrome.debugger
+ * Attaches to tabs on demand and keeps the per-domain default input mode
+ */
+
+import type { Command, BatchStepCommand, InputMode, TrustedInputEvent } from '../shared/protocol';
+
+const PROTOCOL_VERSION = '1.3';
+
+// Detach after this long without trusted input, so the debugging infobar goes away (ms)
+const IDLE_DETACH = 30000;
+
+const STORAGE_KEY = 'inputDefaults';
+
+// Commands that can run as trusted input
+const TRUSTED_COMMANDS = new Set(['click', 'type', 'hover', 'key', 'scroll']);
+
+// Attached tabs and their idle-detach timers
+const attached = new Map<number, ReturnType<typeof setTimeout>>();
+
+// Default input mode per domain
+let inputDefaults: Record<string, InputMode> = {};
+
+chrome.storage.local.get(STORAGE_KEY).then(stored => {
+    // Defaults set before storage loaded win over stored ones
+    inputDefaults = { ...(stored[STORAGE_KEY] as Record<string, InputMode> | undefined), ...inputDefaults };
+});
+
+chrome.debugger.onDetach.addListener((source) => {
+    // Detached by us, by the user dismissing the infobar, or by the tab closing
+    if (source.tabId === undefined) return;
+    clearTimeout(attached.get(source.tabId));
+    attached.delete(source.tabId);
+});
+
+/**
+ * Merge per-domain defaults and persist them
+ */
+export function setInputDefaults(defaults: Record<string, InputMode>): void {
+    inputDefaults = { ...inputDefaults, ...defaults };
+    chrome.storage.local.set({ [STORAGE_KEY]: inputDefaults });
+}
+
+/**
+ * Default input mode for a URL: the most specific matching domain, else synthetic
+ */
+export function getDefaultInputMode(url: string | undefined): InputMode {
+    if (!url) return 'synthetic';
+
+    let hostname: string;
+    try {
+        hostname = new URL(url).hostname.toLowerCase();
+    } catch {
+        return 'synthetic';
+    }
+
+    const match = Object.keys(inputDefaults)
+        .filter(domain => hostname === domain.toLowerCase() || hostname.endsWith('.' + domain.toLowerCase()))
+        .sort((a, b) => b.length - a.length)[0];
+    return match ? inputDefaults[match] : 'synthetic';
+}
+
+/**
+ * Fill in a command's input mode from its tab's domain when it doesn't set one
+ * (for a batch, in each of its steps)
+ */
+export function withInputMode<T extends Command | BatchStepCommand>(command: T, url: string | undefined): T {
+    if (command.type === 'batch') {
+        return {
+            ...command,
+            steps: command.steps.map(step => ({ ...step, command: withInputMode(step.command, url) })),
+        };
+    }
+    if (!TRUSTED_COMMANDS.has(command.type) || ('inputMode' in command && command.inputMode)) {
+        return command;
+    }
+    return { ...command, inputMode: getDefaultInputMode(url) };
+}
+
+async function attach(tabId: number): Promise<void> {
+    if (!attached.has(tabId)) {
+        await chrome.debugger.attach({ tabId }, PROTOCOL_VERSION);
+    }
+
+    clearTimeout(attached.get(tabId));
+    attached.set(tabId, setTimeout(() => {
+        attached.delete(tabId);
+        chrome.debugger.detach({ tabId }).catch(() => {
+            // Already detached
+        });
+    }, IDLE_DETACH));
+}
+
+/**
+ * Dispatch input events to a tab in order, attaching the debugger if needed
+ */
+export async function dispatchTrustedInput(tabId: number, events: TrustedInputEvent[]): Promise<void> {
+    await attach(tabId);
+    for (const event of events) {
+        await chrome.debugger.sendCommand({ tabId }, event.method, event.params);
+    }
+}
@@ -0,0 +1,325 @@
+/**
+ * AccName - Accessible name and description computation
+ * Follows the W3C accname algorithm (labelledby, embedded controls, name from content)
+ */
+
+// Roles whose name can be computed from their content
+const NAME_FROM_CONTENT_ROLES = new Set([
+    'button', 'cell', 'checkbox', 'columnheader', 'gridcell', 'heading', 'link',
+    'menuitem', 'menuitemcheckbox', 'menuitemradio', 'option', 'radio', 'row',
+    'rowheader', 'switch', 'tab', 'tooltip', 'treeitem',
+]);
+
+// Elements that name themselves from content even without an explicit role
+const NAME_FROM_CONTENT_TAGS = new Set([
+    'a', 'button', 'summary', 'option', 'label', 'legend', 'td', 'th',
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+]);
+
+// Names and descriptions are cut to this length (name from content can be a whole card)
+const MAX_NAME_LENGTH = 150;
+
+const TEXTBOX_ROLES = new Set(['textbox', 'searchbox']);
+const RANGE_ROLES = new Set(['slider', 'spinbutton', 'scrollbar', 'progressbar', 'meter']);
+
+interface Traversal {
+    // Nodes already visited (guards against labelledby cycles)
+    visited: Set<Node>;
+    // Computing the text of an aria-labelledby / aria-describedby target
+    inReference: boolean;
+    // The referenced node, and whether it is hidden as a whole (then so is its content)
+    reference: Element | null;
+    referenceHidden: boolean;
+    // Computing the name of another element (descendant or reference)
+    recursing: boolean;
+    // The element whose name is being computed, and its computed role
+    root: Element;
+    rootRole: string;
+}
+
+function newTraversal(root: Element, rootRole: string): Traversal {
+    return {
+        visited: new Set(), inReference: false, reference: null, referenceHidden: false,
+        recursing: false, root, rootRole,
+    };
+}
+
+function collapse(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+function truncate(text: string): string {
+    return text.length > MAX_NAME_LENGTH ? `${text.slice(0, MAX_NAME_LENGTH - 1).trimEnd()}…` : text;
+}
+
+/**
+ * Whether an element is hidden from the accessibility tree
+ */
+function isHidden(element: Element): boolean {
+    if (element.getAttribute('aria-hidden') === 'true') return true;
+    if (element instanceof HTMLElement && element.hidden) return true;
+    const style = window.getComputedStyle(element);
+    return style.display === 'none' || style.visibility === 'hidden' || style.visibility === 'collapse';
+}
+
+/**
+ * Traversal for the text of an aria-labelledby / aria-describedby target
+ */
+function referenceTraversal(traversal: Traversal, reference: Element): Traversal {
+    return { ...traversal, inReference: true, recursing: true, reference, referenceHidden: isHidden(reference) };
+}
+
+/**
+ * Resolve a space-separated IDREF list within the element's own tree
+ */
+function resolveIdRefs(element: Element, attribute: string): Element[] {
+    const value = element.getAttribute(attribute);
+    if (!value) return [];
+
+    const root = element.getRootNode() as Document | ShadowRoot;
+    return value.split(/\s+/)
+        .filter(Boolean)
+        .map(id => root.getElementById(id))
+        .filter((el): el is HTMLElement => el !== null);
+}
+
+function getRoleOf(element: Element): string {
+    const explicit = element.getAttribute('role')?.split(/\s+/)[0];
+    if (explicit) return explicit;
+
+    const tag = element.tagName.toLowerCase();
+    if (tag === 'textarea') return 'textbox';
+    if (tag === 'select') {
+        const select = element as HTMLSelectElement;
+        return select.multiple || select.size > 1 ? 'listbox' : 'combobox';
+    }
+    if (tag === 'input') {
+        const type = (element as HTMLInputElement).type;
+        if (type === 'range') return 'slider';
+        if (type === 'number') return 'spinbutton';
+        if (['text', 'email', 'tel', 'url', 'search', 'password', ''].includes(type)) {
+            return type === 'search' ? 'searchbox' : 'textbox';
+        }
+        return type;
+    }
+    return tag;
+}
+
+function allowsNameFromContent(element: Element, role: string): boolean {
+    return NAME_FROM_CONTENT_ROLES.has(role) ||
+        (!element.hasAttribute('role') && NAME_FROM_CONTENT_TAGS.has(element.tagName.toLowerCase()));
+}
+
+/**
+ * Value of a control embedded in another element's label (step 2C)
+ */
+function getEmbeddedControlValue(element: Element, role: string): string | null {
+    if (TEXTBOX_ROLES.has(role)) {
+        if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+            return element.value;
+        }
+        return element.textContent || '';
+    }
+
+    if (role === 'combobox' || role === 'listbox') {
+        if (element instanceof HTMLSelectElement) {
+            return Array.from(element.selectedOptions).map(o => o.text).join(' ');
+        }
+        if (element instanceof HTMLInputElement) {
+            return element.value;
+        }
+        const selected = element.querySelectorAll('[role="option"][aria-selected="true"]');
+        return Array.from(selected).map(o => o.textContent || '').join(' ');
+    }
+
+    if (RANGE_ROLES.has(role)) {
+        return element.getAttribute('aria-valuetext') ||
+            element.getAttribute('aria-valuenow') ||
+            (element as HTMLInputElement).value ||
+            '';
+    }
+
+    return null;
+}
+
+/**
+ * Name from the host language (step 2E): labels, alt, legend, caption, ...
+ */
+function getNativeName(element: Element, traversal: Traversal): string {
+    if (element instanceof HTMLInputElement) {
+        const type = element.type;
+        if (type === 'button' || type === 'submit' || type === 'reset') {
+            if (element.value) return element.value;
+            if (type === 'submit') return 'Submit';
+            if (type === 'reset') return 'Reset';
+        }
+        if (type === 'image') {
+            return element.alt || element.value || element.title || 'Submit';
+        }
+    }
+
+    // Labelable elements: <label for> and wrapping <label>
+    const labels = (element as HTMLInputElement).labels;
+    if (labels && labels.length > 0) {
+        const text = Array.from(labels)
+            .map(label => computeText(label, { ...traversal, recursing: true }))
+            .join(' ');
+        if (collapse(text)) return text;
+    }
+
+    if (element instanceof HTMLImageElement || element instanceof HTMLAreaElement) {
+        if (element.alt) return element.alt;
+    }
+
+    if (element instanceof HTMLFieldSetElement) {
+        const legend = Array.from(element.children).find(c => c.tagName === 'LEGEND');
+        if (legend) return computeText(legend, { ...traversal, recursing: true });
+    }
+
+    if (element instanceof HTMLTableElement && element.caption) {
+        return computeText(element.caption, { ...traversal, recursing: true });
+    }
+
+    if (element.tagName === 'FIGURE') {
+        const caption = Array.from(element.children).find(c => c.tagName === 'FIGCAPTION');
+        if (caption) return computeText(caption, { ...traversal, recursing: true });
+    }
+
+    if (element instanceof SVGElement) {
+        const title = Array.from(element.children).find(c => c.tagName.toLowerCase() === 'title');
+        if (title?.textContent) return title.textContent;
+    }
+
+    return '';
+}
+
+/**
+ * Child nodes as rendered: shadow root contents, or assigned nodes for slots
+ */
+function getRenderedChildren(element: Element): Node[] {
+    if (element.shadowRoot) return Array.from(element.shadowRoot.childNodes);
+    if (element instanceof HTMLSlotElement) {
+        const assigned = element.assignedNodes({ flatten: true });
+        if (assigned.length > 0) return assigned;
+    }
+    return Array.from(element.childNodes);
+}
+
+/**
+ * Name from content (step 2F): concatenate the text of rendered descendants
+ */
+function getTextFromContent(element: Element, traversal: Traversal): string {
+    const parts: string[] = [];
+
+    for (const child of getRenderedChildren(element)) {
+        if (child.nodeType === Node.TEXT_NODE) {
+            parts.push(child.textContent || '');
+        } else if (child instanceof Element) {
+            const text = computeText(child, { ...traversal, recursing: true });
+            // Block-level children are separated by whitespace
+            const display = window.getComputedStyle(child).display;
+            parts.push(display.startsWith('inline') ? text : ` ${text} `);
+        }
+    }
+
+    return parts.join('');
+}
+
+/**
+ * Compute the text alternative of a node (the core of the accname algorithm)
+ */
+function computeText(element: Element, traversal: Traversal): string {
+    if (traversal.visited.has(element)) return '';
+    traversal.visited.add(element);
+
+    // 2A: hidden nodes are skipped unless directly referenced by aria-labelledby;
+    // hidden descendants of a visible reference are still skipped
+    if (isHidden(element) && !(traversal.inReference &&
+        (element === traversal.reference || traversal.referenceHidden))) return '';
+
+    // 2B: aria-labelledby (not followed again while inside a reference)
+    if (!traversal.inReference) {
+        const refs = resolveIdRefs(element, 'aria-labelledby');
+        if (refs.length > 0) {
+            const text = refs
+                .map(ref => computeText(ref, referenceTraversal(traversal, ref)))
+                .join(' ');
+            if (collapse(text)) return text;
+        }
+    }
+
+    const role = element === traversal.root && traversal.rootRole ? traversal.rootRole : getRoleOf(element);
+
+    // 2C: a control embedded in another element's name contributes its value
+    if (traversal.recursing && element !== traversal.root) {
+        const value = getEmbeddedControlValue(element, role);
+        if (value !== null) return value;
+    }
+
+    // 2D: aria-label
+    const ariaLabel = element.getAttribute('aria-label');
+    if (ariaLabel && collapse(ariaLabel)) return ariaLabel;
+
+    // 2E: host language label (presentational elements have none)
+    if (role !== 'presentation' && role !== 'none') {
+        const native = getNativeName(element, traversal);
+        if (collapse(native)) return native;
+    }
+
+    // 2F: name from content
+    if (traversal.recursing || allowsNameFromContent(element, role)) {
+        const text = getTextFromContent(element, traversal);
+        if (collapse(text)) return text;
+    }
+
+    // 2I: tooltip
+    const title = element.getAttribute('title');
+    if (title) return title;
+
+    // Placeholder as a last resort for text fields
+    if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+        return element.placeholder || '';
+    }
+
+    return '';
+}
+
+/**
+ * Compute the accessible name of an element.
+ * role is the element's computed role, which decides whether it is named from content.
+ * Unless contentFallback is off, elements left unnamed fall back to their rendered text.
+ */
+export function computeAccessibleName(element: Element, role: string, contentFallback = true): string {
+    const name = collapse(computeText(element, newTraversal(element, role)));
+    if (name || !contentFallback) return truncate(name);
+
+    // Generic interactive elements (div[onclick], custom elements) have no name by spec;
+    // fall back to their rendered text so they stay addressable
+    const traversal = newTraversal(element, role);
+    traversal.recursing = true;
+    traversal.visited.add(element);
+    return truncate(collapse(getTextFromContent(element, traversal)));
+}
+
+/**
+ * Compute the accessible description of an element
+ * (aria-describedby, then aria-description, then an unused title)
+ */
+export function computeAccessibleDescription(element: Element, name: string): string {
+    const refs = resolveIdRefs(element, 'aria-describedby');
+    if (refs.length > 0) {
+        const text = collapse(refs
+            .map(ref => computeText(ref, referenceTraversal(newTraversal(element, ''), ref)))
+            .join(' '));
+        if (text) return truncate(text);
+    }
+
+    const description = element.getAttribute('aria-description');
+    if (description && collapse(description)) return truncate(collapse(description));
+
+    // title describes the element when it didn't provide the name
+    const title = collapse(element.getAttribute('title') || '');
+    if (title && title !== name) return truncate(title);
+
+    return '';
+}
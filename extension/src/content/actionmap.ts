@@ -3,7 +3,29 @@
  * Extracts interactive candidates from the DOM with spatial and semantic information
  */
 
-import type { ActionCandidate, Rect, ActionState, ActionContext, StyleHint, HitPoint } from '../shared/protocol';
+import type {
+    ActionCandidate,
+    Rect,
+    ActionState,
+    ActionContext,
+    StyleHint,
+    HitPoint,
+    Occluder,
+    PerceptionOptions,
+} from '../shared/protocol';
+import { getFrameId, toTopLevelRect, toTopLevelPoint, normalizeRect } from './frames';
+import {
+    querySelectorAllDeep,
+    closestComposed,
+    getComposedParent,
+    getShadowHostPath,
+} from './shadow';
+import { computeFingerprint } from './fingerprint';
+import { computeAccessibleName, computeAccessibleDescription } from './accname';
+import { sampleOcclusion, findCloseControl } from './occlusion';
+import { createHeadingIndex, findLandmark } from './landmarks';
+import { registerElement, unregisterElement, lookupElement, getRegisteredFingerprint } from './registry';
+import type { ElementIdentity } from './registry';
 
 // Interactive element selectors
 const INTERACTIVE_SELECTORS = [
@@ -40,59 +62,135 @@ const INTERACTIVE_SELECTORS = [
 const elementIdMap = new WeakMap<Element, string>();
 let idCounter = 0;
 
+// Last id seen for each fingerprint, used to re-attach ids to re-created elements
+const fingerprintIds = new Map<string, string>();
+const MAX_FINGERPRINTS = 2000;
+
+// Extraction options, set by the backend via a configure message
+let extractOptions: PerceptionOptions = {};
+
+// Position key for candidates in recycled list rows (set by the content script entry)
+let listItemKeyProvider: (element: Element) => string | null = () => null;
+
+/**
+ * Update extraction options (merged into the current ones)
+ */
+export function setExtractOptions(options: PerceptionOptions): void {
+    extractOptions = { ...extractOptions, ...options };
+}
+
+/**
+ * Set the provider of list item position keys (see virtuallist getListItemKey)
+ */
+export function setListItemKeyProvider(provider: (element: Element) => string | null): void {
+    listItemKeyProvider = provider;
+}
+
 /**
  * Get or create a stable ID for an element
  */
 export function getElementId(element: Element): string {
     let id = elementIdMap.get(element);
     if (!id) {
-        // Try to use existing id attribute if unique
+        // Prefix ids in subframes so they stay unique across the tab
+        const frameId = getFrameId();
+        const prefix = frameId ? `f${frameId}_` : '';
+
+        // Try to use existing id attribute if unique (light DOM only; shadow ids are scoped)
         const existingId = element.id;
-        if (existingId && document.querySelectorAll(`#${CSS.escape(existingId)}`).length === 1) {
-            id = `e_${existingId}`;
+        if (existingId && element.getRootNode() === document &&
+            document.querySelectorAll(`#${CSS.escape(existingId)}`).length === 1) {
+            id = `${prefix}e_${existingId}`;
         } else {
-            id = `a_${(idCounter++).toString(36)}`;
+            id = `${prefix}a_${(idCounter++).toString(36)}`;
         }
         elementIdMap.set(element, id);
+        registerElement(id, element);
     }
     return id;
 }
 
 /**
- * Get element from its stable ID
+ * Assign an id during extraction, re-attaching the previous id of a re-created
+ * element with the same fingerprint when no live element holds it any more.
+ * An element in a recycled list row that now shows another item gives up its id.
  */
-export function getElementById(id: string): Element | null {
-    // Search through all tracked elements
-    const allElements = document.querySelectorAll(INTERACTIVE_SELECTORS);
-    for (const el of allElements) {
-        if (elementIdMap.get(el) === id) {
-            return el;
+function assignId(element: Element, fingerprint: string, identity: ElementIdentity, claimedIds: Set<string>, recycled: boolean): string {
+    let id = elementIdMap.get(element);
+    if (id && recycled && getRegisteredFingerprint(id) !== fingerprint) {
+        elementIdMap.delete(element);
+        claimedIds.delete(id);
+        unregisterElement(id);
+        id = undefined;
+    }
+    if (!id) {
+        const previousId = fingerprintIds.get(fingerprint);
+        if (previousId && !claimedIds.has(previousId)) {
+            id = previousId;
+            elementIdMap.set(element, id);
+        } else {
+            id = getElementId(element);
+        }
+    }
+    claimedIds.add(id);
+    registerElement(id, element, fingerprint, identity);
+
+    // Refresh insertion order so the oldest fingerprints are evicted first
+    fingerprintIds.delete(fingerprint);
+    fingerprintIds.set(fingerprint, id);
+    if (fingerprintIds.size > MAX_FINGERPRINTS) {
+        fingerprintIds.delete(fingerprintIds.keys().next().value!);
+    }
+
+    return id;
+}
+
+/**
+ * Collect ids already held by live elements, resolving duplicates
+ * (e.g. a detached node re-inserted after its id was re-attached elsewhere)
+ */
+function claimLiveIds(elements: Element[]): Set<string> {
+    const claimedIds = new Set<string>();
+    for (const element of elements) {
+        const id = elementIdMap.get(element);
+        if (!id) continue;
+        if (claimedIds.has(id)) {
+            elementIdMap.delete(element);
+        } else {
+            claimedIds.add(id);
         }
     }
+    return claimedIds;
+}
+
+/**
+ * Get element from its stable ID.
+ * Falls back to re-resolving by fingerprint when the element was re-created.
+ */
+export function getElementById(id: string): Element | null {
+    const element = lookupElement(id);
+    if (element) return element;
+
+    // Re-extraction re-attaches the id to a live element with the same fingerprint
+    const fingerprint = getRegisteredFingerprint(id);
+    if (fingerprint && fingerprintIds.get(fingerprint) === id) {
+        extractActionMap();
+        return lookupElement(id);
+    }
     return null;
 }
 
 /**
- * Get bounding rect in both px and normalized (0-1) coordinates
+ * Get bounding rect in px, relative to this frame's viewport
  */
-function getRect(element: Element): { rect: Rect; rectN: Rect } {
+function getRect(element: Element): Rect {
     const bounds = element.getBoundingClientRect();
-    const vw = window.innerWidth;
-    const vh = window.innerHeight;
 
     return {
-        rect: {
-            x: Math.round(bounds.left),
-            y: Math.round(bounds.top),
-            w: Math.round(bounds.width),
-            h: Math.round(bounds.height),
-        },
-        rectN: {
-            x: bounds.left / vw,
-            y: bounds.top / vh,
-            w: bounds.width / vw,
-            h: bounds.height / vh,
-        },
+        x: Math.round(bounds.left),
+        y: Math.round(bounds.top),
+        w: Math.round(bounds.width),
+        h: Math.round(bounds.height),
     };
 }
 
@@ -107,9 +205,9 @@ function getHitPoint(rect: Rect): HitPoint {
 }
 
 /**
- * Check if element is visible in viewport
+ * Check if element is rendered (has a box and isn't hidden)
  */
-function isVisible(element: Element, rect: Rect): boolean {
+function isRendered(element: Element, rect: Rect): boolean {
     if (rect.w === 0 || rect.h === 0) return false;
 
     const style = window.getComputedStyle(element);
@@ -117,66 +215,25 @@ function isVisible(element: Element, rect: Rect): boolean {
     if (style.visibility === 'hidden') return false;
     if (style.opacity === '0') return false;
 
-    // Check if in viewport
-    const vw = window.innerWidth;
-    const vh = window.innerHeight;
-    if (rect.x + rect.w < 0 || rect.x > vw) return false;
-    if (rect.y + rect.h < 0 || rect.y > vh) return false;
-
     return true;
 }
 
 /**
- * Check if element is occluded by another element at its center
- */
-function isOccluded(element: Element, hit: HitPoint): boolean {
-    const topElement = document.elementFromPoint(hit.cx, hit.cy);
-    if (!topElement) return true;
-    return !element.contains(topElement) && !topElement.contains(element) && topElement !== element;
-}
-
-/**
- * Get accessible name for element
+ * Check if a rect intersects this frame's viewport
  */
-function getAccessibleName(element: Element): string {
-    // aria-label takes precedence
-    const ariaLabel = element.getAttribute('aria-label');
-    if (ariaLabel) return ariaLabel;
-
-    // aria-labelledby
-    const labelledBy = element.getAttribute('aria-labelledby');
-    if (labelledBy) {
-        const labelEl = document.getElementById(labelledBy);
-        if (labelEl) return labelEl.textContent?.trim() || '';
-    }
-
-    // For inputs, check associated label
-    if (element instanceof HTMLInputElement || element instanceof HTMLSelectElement || element instanceof HTMLTextAreaElement) {
-        const id = element.id;
-        if (id) {
-            const label = document.querySelector(`label[for="${CSS.escape(id)}"]`);
-            if (label) return label.textContent?.trim() || '';
-        }
-    }
-
-    // title attribute
-    const title = element.getAttribute('title');
-    if (title) return title;
-
-    // placeholder for inputs
-    if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
-        if (element.placeholder) return element.placeholder;
-    }
+function isInViewport(rect: Rect): boolean {
+    const vw = window.innerWidth;
+    const vh = window.innerHeight;
+    if (rect.x + rect.w < 0 || rect.x > vw) return false;
+    if (rect.y + rect.h < 0 || rect.y > vh) return false;
 
-    // Text content (limited)
-    const text = element.textContent?.trim() || '';
-    return text.length > 50 ? text.substring(0, 50) + '...' : text;
+    return true;
 }
 
 /**
  * Get ARIA role for element
  */
-function getRole(element: Element): string {
+export function getRole(element: Element): string {
     // Explicit role
     const role = element.getAttribute('role');
     if (role) return role;
@@ -233,16 +290,16 @@ function getState(element: Element): ActionState {
  * Get element context
  */
 function getContext(element: Element): ActionContext {
-    const isInModal = !!element.closest('[role="dialog"], [role="alertdialog"], .modal, [aria-modal="true"]');
-    const isInNav = !!element.closest('nav, [role="navigation"], [role="menu"], [role="menubar"]');
-    const form = element.closest('form');
+    const isInModal = !!closestComposed(element, '[role="dialog"], [role="alertdialog"], .modal, [aria-modal="true"]');
+    const isInNav = !!closestComposed(element, 'nav, [role="navigation"], [role="menu"], [role="menubar"]');
+    const form = closestComposed(element, 'form');
 
-    // Calculate depth
+    // Calculate depth (counting shadow hosts along the way)
     let depth = 0;
     let current: Element | null = element;
     while (current && current !== document.body) {
         depth++;
-        current = current.parentElement;
+        current = getComposedParent(current);
     }
 
     return {
@@ -303,29 +360,79 @@ function isRedColor(color: string): boolean {
 }
 
 /**
- * Extract all action candidates from the current page
+ * The candidate that dismisses an overlay: its close control, or else the first
+ * rendered candidate inside it
  */
-export function extractActionMap(): ActionCandidate[] {
-    const elements = document.querySelectorAll(INTERACTIVE_SELECTORS);
+function findDismissTarget(occluder: Element): Element | null {
+    const control = findCloseControl(occluder);
+    if (control && control.matches(INTERACTIVE_SELECTORS)) return control;
+    return querySelectorAllDeep(INTERACTIVE_SELECTORS, occluder)
+        .find(element => isRendered(element, getRect(element))) ?? null;
+}
+
+/**
+ * Describe the overlay covering a candidate. Only an overlay that is itself a
+ * candidate gets an id; other containers are described by role, name and rect,
+ * with dismissId pointing at the candidate that closes them.
+ */
+function describeOccluder(occluder: Element): Occluder {
+    const role = getRole(occluder);
+    const dismiss = findDismissTarget(occluder);
+    return {
+        id: occluder.matches(INTERACTIVE_SELECTORS) ? getElementId(occluder) : null,
+        dismissId: dismiss ? getElementId(dismiss) : null,
+        role,
+        name: computeAccessibleName(occluder, role, false),
+        rect: toTopLevelRect(getRect(occluder)),
+    };
+}
+
+/**
+ * Extract all action candidates from the current page.
+ * With includeOffscreen, rendered candidates outside the viewport are reported with
+ * inViewport: false; their rect and hit lie outside the top-level viewport.
+ */
+export function extractActionMap(options: PerceptionOptions = extractOptions): ActionCandidate[] {
+    const elements = querySelectorAllDeep(INTERACTIVE_SELECTORS);
     const candidates: ActionCandidate[] = [];
+    const claimedIds = claimLiveIds(elements);
+    const findHeading = createHeadingIndex();
+    const occluded: [ActionCandidate, Element][] = [];
 
     for (const element of elements) {
-        const { rect, rectN } = getRect(element);
+        const rect = getRect(element);
 
         // Skip invisible elements
-        if (!isVisible(element, rect)) continue;
+        if (!isRendered(element, rect)) continue;
+        const inViewport = isInViewport(rect);
+        if (!inViewport && !options.includeOffscreen) continue;
+
+        const role = getRole(element);
+        const name = computeAccessibleName(element, role);
+        const itemKey = listItemKeyProvider(element);
+        const fingerprint = computeFingerprint(element, role, name, rect, itemKey ?? undefined);
+        const id = assignId(element, fingerprint, { role, name }, claimedIds, itemKey !== null);
+
+        // Report geometry in top-level viewport coordinates, for subframes and off-screen too
+        const topRect = toTopLevelRect(rect);
+
+        const shadowPath = getShadowHostPath(element);
+
+        // Place the candidate in the page outline
+        const heading = findHeading(element);
+        const landmark = findLandmark(element);
 
-        const hit = getHitPoint(rect);
-        const id = getElementId(element);
-        const name = getAccessibleName(element);
+        // Off-screen candidates can't be hit-tested; report their centre (outside the viewport)
+        const occlusion = inViewport ? sampleOcclusion(element, rect) : null;
 
         const candidate: ActionCandidate = {
             id,
-            rect,
-            rectN,
-            role: getRole(element),
+            rect: topRect,
+            rectN: normalizeRect(topRect),
+            role,
             tag: element.tagName.toLowerCase(),
             name,
+            description: computeAccessibleDescription(element, name),
             aria: element.getAttribute('aria-label') || '',
             placeholder: (element as HTMLInputElement).placeholder,
             value: (element as HTMLInputElement).value,
@@ -333,11 +440,33 @@ export function extractActionMap(): ActionCandidate[] {
             state: getState(element),
             ctx: getContext(element),
             styleHint: getStyleHint(element),
-            hit,
-            occluded: isOccluded(element, hit),
+            hit: occlusion ? toTopLevelPoint(occlusion.hit) : getHitPoint(topRect),
+            occluded: occlusion ? occlusion.visibleFraction === 0 : false,
+            visibleFraction: occlusion ? occlusion.visibleFraction : 0,
+            occludedBy: null,
+            inViewport,
+            frameId: getFrameId(),
+            shadowPath: shadowPath.length > 0 ? shadowPath : undefined,
+            fingerprint,
+            headingId: heading ? getElementId(heading) : null,
+            landmarkId: landmark ? getElementId(landmark) : null,
         };
 
         candidates.push(candidate);
+        if (occlusion?.occluder) {
+            occluded.push([candidate, occlusion.occluder]);
+        }
+    }
+
+    // Describe overlays once every candidate has its id, so ids inside them are reused
+    const described = new Map<Element, Occluder>();
+    for (const [candidate, occluder] of occluded) {
+        let occludedBy = described.get(occluder);
+        if (!occludedBy) {
+            occludedBy = describeOccluder(occluder);
+            described.set(occluder, occludedBy);
+        }
+        candidate.occludedBy = occludedBy;
     }
 
     return candidates;
@@ -0,0 +1,87 @@
+/**
+ * Cancel - Cancellation of running commands
+ * Keeps an AbortController per running command; long waits go through sleep() so they stop early
+ */
+
+export class CancelledError extends Error {
+    constructor(reason: string) {
+        super(reason);
+        this.name = 'CancelledError';
+    }
+}
+
+// Abort reason of a command that ran past its timeoutMs; it acks as a failure, not a cancel
+export const TIMEOUT_REASON = 'timeout';
+
+const running = new Map<string, { controller: AbortController; timer?: ReturnType<typeof setTimeout> }>();
+
+function getReason(signal: AbortSignal): string {
+    return typeof signal.reason === 'string' ? signal.reason : 'Cancelled';
+}
+
+/**
+ * Register a running command; its signal aborts on cancelCommand, after timeoutMs,
+ * or when the parent signal (a batch's) aborts
+ */
+export function startCommand(commandId: string, timeoutMs?: number, parent?: AbortSignal): AbortSignal {
+    const controller = new AbortController();
+    const timer = timeoutMs
+        ? setTimeout(() => controller.abort(TIMEOUT_REASON), timeoutMs)
+        : undefined;
+    running.set(commandId, { controller, timer });
+
+    if (parent) {
+        const abort = () => controller.abort(getReason(parent));
+        if (parent.aborted) abort();
+        else parent.addEventListener('abort', abort, { once: true });
+    }
+    return controller.signal;
+}
+
+export function finishCommand(commandId: string): void {
+    clearTimeout(running.get(commandId)?.timer);
+    running.delete(commandId);
+}
+
+/**
+ * Abort a running command; false if it isn't running in this frame
+ */
+export function cancelCommand(commandId: string, reason = 'Cancelled'): boolean {
+    const entry = running.get(commandId);
+    if (!entry) return false;
+    entry.controller.abort(reason);
+    return true;
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) throw new CancelledError(getReason(signal));
+}
+
+/**
+ * Wait, rejecting with CancelledError as soon as the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    throwIfCancelled(signal);
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new CancelledError(getReason(signal!)));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * A promise that rejects with CancelledError when the signal aborts
+ */
+export function whenCancelled(signal: AbortSignal): Promise<never> {
+    return new Promise((_, reject) => {
+        const onAbort = () => reject(new CancelledError(getReason(signal)));
+        if (signal.aborted) onAbort();
+        else signal.addEventListener('abort', onAbort, { once: true });
+    });
+}
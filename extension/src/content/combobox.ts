@@ -0,0 +1,123 @@
+/**
+ * Combobox - ARIA combobox and listbox lookups
+ * Finds a custom dropdown's popup, its options, and the value it displays
+ */
+
+import { computeAccessibleName } from './accname';
+import { querySelectorAllDeep } from './shadow';
+import { sleep } from './cancel';
+
+const POLL_INTERVAL = 50;
+
+/**
+ * Whether an element is a custom (non-native) select: a combobox, a listbox,
+ * or a button that opens a listbox
+ */
+export function isCustomSelect(element: Element): boolean {
+    const role = element.getAttribute('role');
+    return role === 'combobox' || role === 'listbox' || element.getAttribute('aria-haspopup') === 'listbox';
+}
+
+/**
+ * The text input of a combobox (the element itself, or an input inside an ARIA 1.1 wrapper)
+ */
+export function getComboboxInput(element: Element): HTMLInputElement | null {
+    if (element instanceof HTMLInputElement) return element;
+    return element.querySelector('input:not([type="hidden"])');
+}
+
+function isShown(element: Element): boolean {
+    const bounds = element.getBoundingClientRect();
+    return bounds.width > 0 && bounds.height > 0;
+}
+
+/**
+ * Find the listbox a control owns: itself, its aria-controls/aria-owns target,
+ * or else the last visible listbox on the page (popups are usually portalled to the end of body)
+ */
+export function findListbox(element: Element): Element | null {
+    if (element.getAttribute('role') === 'listbox') return element;
+
+    const root = element.getRootNode() as Document | ShadowRoot;
+    const refs = `${element.getAttribute('aria-controls') || ''} ${element.getAttribute('aria-owns') || ''}`;
+    for (const id of refs.split(/\s+/).filter(Boolean)) {
+        const target = root.getElementById(id) || document.getElementById(id);
+        if (!target || !isShown(target)) continue;
+        if (target.getAttribute('role') === 'listbox') return target;
+        const inner = target.querySelector('[role="listbox"]');
+        if (inner) return inner;
+    }
+
+    const input = getComboboxInput(element);
+    if (input && input !== element) {
+        const fromInput = input.getAttribute('role') === 'combobox' ? findListbox(input) : null;
+        if (fromInput) return fromInput;
+    }
+
+    const listboxes = querySelectorAllDeep('[role="listbox"]').filter(isShown);
+    return listboxes[listboxes.length - 1] || null;
+}
+
+/**
+ * Get the visible, enabled options of a listbox
+ */
+export function getOptions(listbox: Element): Element[] {
+    return querySelectorAllDeep('[role="option"]', listbox)
+        .filter(option => isShown(option) && option.getAttribute('aria-disabled') !== 'true');
+}
+
+export function getOptionLabel(option: Element): string {
+    return computeAccessibleName(option, 'option');
+}
+
+/**
+ * Find the option matching a value: exact label, then data-value/value attribute,
+ * then a label containing the value (all case-insensitive)
+ */
+export function matchOption(options: Element[], value: string): Element | null {
+    const query = value.trim().toLowerCase();
+    const labels = options.map(option => getOptionLabel(option).toLowerCase());
+
+    const exact = labels.indexOf(query);
+    if (exact !== -1) return options[exact];
+
+    const byValue = options.find(option =>
+        (option.getAttribute('data-value') || option.getAttribute('value') || '').toLowerCase() === query
+    );
+    if (byValue) return byValue;
+
+    const partial = labels.findIndex(label => label.includes(query));
+    return partial !== -1 ? options[partial] : null;
+}
+
+/**
+ * Poll for an option matching the value to appear in the control's listbox.
+ * Resolves with the match (or null on timeout) and the options seen last.
+ */
+export async function waitForOption(
+    element: Element,
+    value: string,
+    timeout: number,
+    signal?: AbortSignal
+): Promise<{ option: Element | null; options: Element[] }> {
+    const deadline = Date.now() + timeout;
+    let options: Element[] = [];
+
+    while (true) {
+        const listbox = findListbox(element);
+        options = listbox ? getOptions(listbox) : [];
+        const option = matchOption(options, value);
+        if (option || Date.now() >= deadline) return { option, options };
+
+        await sleep(POLL_INTERVAL, signal);
+    }
+}
+
+/**
+ * The value a custom select currently displays: its input's value, or its text
+ */
+export function getDisplayedValue(element: Element): string {
+    const input = getComboboxInput(element);
+    if (input?.value) return input.value;
+    return (element.textContent || '').replace(/\s+/g, ' ').trim();
+}
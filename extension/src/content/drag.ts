@@ -0,0 +1,155 @@
+/**
+ * Drag - Drag and drop simulation
+ * Pointer/mouse drags along an eased path, HTML5 drag events, and range inputs
+ */
+
+import { interpolatePath } from './easing';
+import type { Curve, Point } from './easing';
+import { setNativeValue } from './input';
+import { deepElementFromPoint, closestComposed } from './shadow';
+import { sleep } from './cancel';
+
+export interface DragOptions {
+    steps: number;
+    duration: number;
+    curve: Curve;
+    signal?: AbortSignal;
+}
+
+function centerOf(element: Element): Point {
+    const bounds = element.getBoundingClientRect();
+    return { x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 2 };
+}
+
+function pointerInit(point: Point, buttons: number): PointerEventInit {
+    return {
+        pointerId: 1,
+        pointerType: 'mouse',
+        isPrimary: true,
+        button: 0,
+        buttons,
+        clientX: point.x,
+        clientY: point.y,
+        screenX: point.x + window.screenX,
+        screenY: point.y + window.screenY,
+        view: window,
+        bubbles: true,
+        cancelable: true,
+        composed: true,
+    };
+}
+
+/**
+ * Dispatch the pointer event and its compatibility mouse event
+ */
+function dispatchPointer(target: Element, type: 'down' | 'move' | 'up', point: Point, buttons: number): void {
+    const init = pointerInit(point, buttons);
+    target.dispatchEvent(new PointerEvent(`pointer${type}`, init));
+    target.dispatchEvent(new MouseEvent(`mouse${type}`, init));
+}
+
+function dispatchDrag(target: Element, type: string, point: Point, dataTransfer: DataTransfer): boolean {
+    return target.dispatchEvent(new DragEvent(type, {
+        ...pointerInit(point, 1),
+        dataTransfer,
+    }));
+}
+
+/**
+ * The element an HTML5 drag would start from: a draggable ancestor, or a link/image
+ */
+function findDraggable(source: Element): Element | null {
+    const draggable = closestComposed(source, '[draggable]');
+    if (draggable) return draggable.getAttribute('draggable') === 'false' ? null : draggable;
+    return closestComposed(source, 'a[href], img');
+}
+
+/**
+ * Set a range input from a point along its track
+ */
+function dragRange(input: HTMLInputElement, to: Point): void {
+    const bounds = input.getBoundingClientRect();
+    const min = parseFloat(input.min) || 0;
+    const max = input.max === '' ? 100 : parseFloat(input.max);
+    const step = parseFloat(input.step) || 1;
+
+    const fraction = Math.min(1, Math.max(0, (to.x - bounds.left) / bounds.width));
+    const value = Math.round((min + fraction * (max - min)) / step) * step;
+    setNativeValue(input, String(Math.min(max, Math.max(min, value))));
+    input.dispatchEvent(new Event('input', { bubbles: true }));
+    input.dispatchEvent(new Event('change', { bubbles: true }));
+}
+
+/**
+ * Drag an element to a point (in this frame's viewport). Starts an HTML5 drag when
+ * the source is draggable and the page doesn't cancel dragstart; otherwise the
+ * whole gesture is pointer/mouse events, as used by sortable and slider libraries.
+ */
+export async function dragTo(source: Element, to: Point, options: DragOptions): Promise<void> {
+    if (source instanceof HTMLInputElement && source.type === 'range') {
+        dragRange(source, to);
+        return;
+    }
+
+    const from = centerOf(source);
+    const path = interpolatePath(from, to, options.steps, options.curve);
+    const stepDelay = options.duration / options.steps;
+
+    dispatchPointer(source, 'down', from, 1);
+
+    const draggable = findDraggable(source);
+    const dataTransfer = new DataTransfer();
+    let html5 = false;
+    let over: Element | null = null;
+    let dropAllowed = false;
+    let at = from;
+
+    try {
+        await sleep(stepDelay, options.signal);
+        html5 = draggable !== null && dispatchDrag(draggable, 'dragstart', from, dataTransfer);
+
+        for (const point of path.slice(1)) {
+            const under = deepElementFromPoint(point.x, point.y) || document.body;
+
+            if (html5 && draggable) {
+                // During an HTML5 drag the browser fires drag events instead of mouse moves
+                dispatchDrag(draggable, 'drag', point, dataTransfer);
+                if (under !== over) {
+                    if (over) dispatchDrag(over, 'dragleave', point, dataTransfer);
+                    dispatchDrag(under, 'dragenter', point, dataTransfer);
+                    over = under;
+                }
+                // A cancelled dragover marks a valid drop target
+                dropAllowed = !dispatchDrag(under, 'dragover', point, dataTransfer);
+            } else {
+                dispatchPointer(under, 'move', point, 1);
+            }
+            at = point;
+
+            await sleep(stepDelay, options.signal);
+        }
+    } catch (error) {
+        // Cancelled mid-drag: let go where the pointer is, without dropping
+        if (html5 && draggable) {
+            if (over) dispatchDrag(over, 'dragleave', at, dataTransfer);
+            dispatchDrag(draggable, 'dragend', at, dataTransfer);
+        } else {
+            dispatchPointer(deepElementFromPoint(at.x, at.y) || document.body, 'up', at, 0);
+        }
+        throw error;
+    }
+
+    const end = path[path.length - 1];
+    const dropTarget = deepElementFromPoint(end.x, end.y) || document.body;
+
+    if (html5 && draggable) {
+        if (dropAllowed) {
+            dispatchDrag(dropTarget, 'drop', end, dataTransfer);
+        } else if (over) {
+            dispatchDrag(over, 'dragleave', end, dataTransfer);
+        }
+        dispatchDrag(draggable, 'dragend', end, dataTransfer);
+    } else {
+        dispatchPointer(dropTarget, 'up', end, 0);
+    }
+}
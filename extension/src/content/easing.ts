@@ -0,0 +1,87 @@
+/**
+ * Easing - Pointer path interpolation
+ * Easing curves, curved paths and jitter shared by mouse moves, hovers and drags
+ */
+
+import type { PointerCurve } from '../shared/protocol';
+
+export type Curve = PointerCurve | undefined;
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+// Bezier control points sit this far off the straight line, as a share of its length
+const BEZIER_BEND = { min: 0.1, max: 0.3 };
+
+/**
+ * Map linear progress (0-1) onto the curve
+ */
+export function ease(progress: number, curve: Curve): number {
+    if (curve === 'ease') {
+        return progress < 0.5
+            ? 2 * progress * progress
+            : 1 - Math.pow(-2 * progress + 2, 2) / 2;
+    }
+    if (curve === 'bezier') {
+        return progress * progress * (3 - 2 * progress);
+    }
+    if (curve === 'minimum_jerk') {
+        // Flash & Hogan: zero velocity and acceleration at both ends
+        return progress * progress * progress * (10 - 15 * progress + 6 * progress * progress);
+    }
+    return progress;
+}
+
+/**
+ * Random control points bending a path to one side, like a wrist arc
+ */
+function bendControls(from: Point, to: Point): [Point, Point] {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const side = Math.random() < 0.5 ? -1 : 1;
+    const bend = () => side * (BEZIER_BEND.min + Math.random() * (BEZIER_BEND.max - BEZIER_BEND.min));
+
+    // Perpendicular offsets scale with distance, so (-dy, dx) needs no normalizing
+    const first = bend();
+    const second = bend();
+    return [
+        { x: from.x + dx / 3 - dy * first, y: from.y + dy / 3 + dx * first },
+        { x: from.x + (2 * dx) / 3 - dy * second, y: from.y + (2 * dy) / 3 + dx * second },
+    ];
+}
+
+function cubicBezier(p0: Point, p1: Point, p2: Point, p3: Point, t: number): Point {
+    const u = 1 - t;
+    return {
+        x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+        y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+    };
+}
+
+/**
+ * Points from start to end (both included) spaced along the curve. jitter (px)
+ * adds sideways wobble that fades out towards both ends, so the path still lands.
+ */
+export function interpolatePath(from: Point, to: Point, steps: number, curve: Curve, jitter = 0): Point[] {
+    const controls = curve === 'bezier' ? bendControls(from, to) : null;
+    const length = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+    const normal = { x: -(to.y - from.y) / length, y: (to.x - from.x) / length };
+
+    const points: Point[] = [];
+    for (let i = 0; i <= steps; i++) {
+        const t = ease(i / steps, curve);
+        const point = controls
+            ? cubicBezier(from, controls[0], controls[1], to, t)
+            : { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+
+        if (jitter > 0 && i > 0 && i < steps) {
+            const wobble = (Math.random() * 2 - 1) * jitter * Math.sin(Math.PI * (i / steps));
+            point.x += normal.x * wobble;
+            point.y += normal.y * wobble;
+        }
+        points.push(point);
+    }
+    return points;
+}
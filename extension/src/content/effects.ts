@@ -0,0 +1,126 @@
+/**
+ * Effects - What an action did to the page
+ * Snapshots the target and page before acting and diffs them afterwards for the verify ack
+ */
+
+import type { ActionEffects, Rect } from '../shared/protocol';
+import { extractActionMap, getElementId } from './actionmap';
+import { toTopLevelRect } from './frames';
+import { querySelectorAllDeep } from './shadow';
+import { getFocusedElement } from './keys';
+import { getEditableText } from './input';
+
+const MODAL_SELECTOR = '[role="dialog"], [role="alertdialog"], dialog[open], [aria-modal="true"]';
+const MENU_SELECTOR = '[role="menu"], [role="listbox"]';
+
+// Rect moves within this distance (px) don't count as a change (subpixel layout, rounding)
+const RECT_TOLERANCE = 1;
+
+export interface PageState {
+    url: string;
+    rect: Rect | null; // Target rect in top-level viewport coordinates
+    value: string | undefined;
+    focused: Element;
+    modals: Set<Element>;
+    menus: Set<Element>;
+    candidateIds: Set<string>;
+}
+
+function isShown(element: Element): boolean {
+    const bounds = element.getBoundingClientRect();
+    return bounds.width > 0 && bounds.height > 0;
+}
+
+function findShown(selector: string): Set<Element> {
+    return new Set(querySelectorAllDeep(selector).filter(isShown));
+}
+
+/**
+ * An element's rect in top-level viewport coordinates, or null once it left the DOM
+ */
+export function getTopLevelRect(element: Element | null): Rect | null {
+    if (!element || !element.isConnected) return null;
+    const bounds = element.getBoundingClientRect();
+    return toTopLevelRect({
+        x: Math.round(bounds.left),
+        y: Math.round(bounds.top),
+        w: Math.round(bounds.width),
+        h: Math.round(bounds.height),
+    });
+}
+
+/**
+ * The state an action can change on its target: field value, checked state or editor text
+ */
+function readValue(element: Element): string | undefined {
+    if (element instanceof HTMLInputElement && (element.type === 'checkbox' || element.type === 'radio')) {
+        return String(element.checked);
+    }
+    if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement || element instanceof HTMLSelectElement) {
+        return element.value;
+    }
+    if (element instanceof HTMLElement && element.isContentEditable) {
+        return getEditableText(element);
+    }
+    return element.getAttribute('aria-checked') ?? element.getAttribute('aria-pressed') ?? undefined;
+}
+
+/**
+ * Snapshot the target and the page before an action
+ */
+export function capturePageState(element: Element): PageState {
+    return {
+        url: location.href,
+        rect: getTopLevelRect(element),
+        value: readValue(element),
+        focused: getFocusedElement(),
+        modals: findShown(MODAL_SELECTOR),
+        menus: findShown(MENU_SELECTOR),
+        candidateIds: new Set(extractActionMap().map(c => c.id)),
+    };
+}
+
+/**
+ * Whether two rects differ by more than RECT_TOLERANCE on any edge
+ */
+export function rectsDiffer(a: Rect, b: Rect): boolean {
+    return Math.abs(a.x - b.x) > RECT_TOLERANCE ||
+        Math.abs(a.y - b.y) > RECT_TOLERANCE ||
+        Math.abs(a.w - b.w) > RECT_TOLERANCE ||
+        Math.abs(a.h - b.h) > RECT_TOLERANCE;
+}
+
+/**
+ * Compare the page against a snapshot taken before the action.
+ * element is the target as it is now (null when it is gone).
+ */
+export function detectEffects(before: PageState, element: Element | null): ActionEffects {
+    const url = location.href;
+    const focused = getFocusedElement();
+    const isPage = focused === document.body || focused === document.documentElement;
+    const value = element ? readValue(element) : undefined;
+
+    const candidateIds = new Set(extractActionMap().map(c => c.id));
+    let added = 0;
+    for (const id of candidateIds) {
+        if (!before.candidateIds.has(id)) added++;
+    }
+    let removed = 0;
+    for (const id of before.candidateIds) {
+        if (!candidateIds.has(id)) removed++;
+    }
+
+    const effects: ActionEffects = {
+        urlChanged: url !== before.url,
+        modalOpened: [...findShown(MODAL_SELECTOR)].some(modal => !before.modals.has(modal)),
+        menuOpened: [...findShown(MENU_SELECTOR)].some(menu => !before.menus.has(menu)),
+        focusChanged: focused !== before.focused,
+        focusedId: isPage ? null : getElementId(focused),
+        candidatesAdded: added,
+        candidatesRemoved: removed,
+        valueChanged: element !== null && value !== before.value,
+    };
+    if (effects.urlChanged) effects.url = url;
+    if (effects.valueChanged) effects.value = value;
+    return effects;
+}
@@ -9,17 +9,78 @@ import type {
     CommandAckOk,
     CommandAckFail,
     CommandAckVerify,
+    CommandAckCancelled,
     HoverCommand,
     ClickCommand,
     TypeCommand,
+    KeyCommand,
     ScrollCommand,
     FocusCommand,
     SelectCommand,
     MoveMouseCommand,
+    DragCommand,
+    UploadCommand,
+    WaitForCommand,
+    NavigateMenuCommand,
+    CapturePatchCommand,
+    CapturePatchResult,
+    BatchCommand,
+    BatchStep,
+    BatchStepResult,
+    StepExpectation,
     QueryCommand,
+    ScrollToItemCommand,
+    RecoveryAttempt,
     Rect,
+    HitPoint,
 } from '../shared/protocol';
 import { getElementById, extractActionMap, findCandidate, getElementId } from './actionmap';
+import { toTopLevelRect, toTopLevelPoint, fromTopLevelPoint, getTopViewport } from './frames';
+import { containsComposed, getComposedParent } from './shadow';
+import { scrollToListItem } from './virtuallist';
+import { typeIntoField, typeIntoEditable, getEditableText, placeCaret } from './input';
+import type { TextField } from './input';
+import { pressChord, getFocusedElement } from './keys';
+import type { Point } from './easing';
+import { movePointer, recordPointer, getPointerPosition, getTravelTime } from './pointer';
+import { dragTo } from './drag';
+import { setInputFiles, dropFiles } from './upload';
+import { waitForCondition, describeWait } from './wait';
+import { navigateMenu } from './menu';
+import { sampleOcclusion } from './occlusion';
+import { trustedClick, trustedHover, trustedWheel, trustedType, trustedPress } from './trusted';
+import { requestWorker } from './worker';
+import { acquireTarget, revealElement, hitTest } from './recovery';
+import { capturePageState, detectEffects, getTopLevelRect, rectsDiffer } from './effects';
+import type { PageState } from './effects';
+import { CancelledError, TIMEOUT_REASON, startCommand, finishCommand, sleep, throwIfCancelled, whenCancelled } from './cancel';
+import {
+    isCustomSelect,
+    findListbox,
+    getComboboxInput,
+    getOptionLabel,
+    waitForOption,
+    getDisplayedValue,
+} from './combobox';
+
+// How long a custom select's options may take to appear (ms)
+const OPTION_TIMEOUT = 2000;
+
+// How long each submenu may take to open (ms)
+const SUBMENU_TIMEOUT = 1500;
+
+// Capture waits out the service worker's capture rate limit (ms)
+const CAPTURE_TIMEOUT = 5000;
+
+// Margin around a candidate's bounds in a patch (px)
+const DEFAULT_PATCH_PADDING = 4;
+
+// Time for the page to react to a targeted action before verifying (ms)
+const EFFECT_SETTLE = 50;
+
+// How long a batch step's expectation may take to hold (ms)
+const EXPECT_TIMEOUT = 1000;
+const EXPECT_POLL_INTERVAL = 50;
 
 /**
  * Create success acknowledgment
@@ -37,43 +98,48 @@ function ackOk(commandId: string, result?: unknown): CommandAckOk {
 /**
  * Create failure acknowledgment
  */
-function ackFail(commandId: string, reason: string): CommandAckFail {
+function ackFail(commandId: string, reason: string, result?: unknown): CommandAckFail {
     return {
         type: 'ack',
         commandId,
         status: 'fail',
         reason,
         timestamp: Date.now(),
+        result,
     };
 }
 
 /**
- * Create verification acknowledgment
+ * Create cancellation acknowledgment
  */
-function ackVerify(
+function ackCancelled(commandId: string, reason: string): CommandAckCancelled {
+    return {
+        type: 'ack',
+        commandId,
+        status: 'cancelled',
+        reason,
+        timestamp: Date.now(),
+    };
+}
+
+/**
+ * Create verification acknowledgment: let the page react, then compare the target
+ * and the page with the snapshot taken before acting. result carries command-specific fields.
+ */
+async function ackVerify(
     commandId: string,
     id: string,
-    element: Element | null
-): CommandAckVerify {
-    const stillVisible = element !== null;
-    let hitTestOk = false;
-    let rectChanged = false;
-    let newRect: Rect | undefined;
-
-    if (element) {
-        const bounds = element.getBoundingClientRect();
-        const cx = bounds.left + bounds.width / 2;
-        const cy = bounds.top + bounds.height / 2;
-        const topEl = document.elementFromPoint(cx, cy);
-        hitTestOk = topEl === element || element.contains(topEl!) || topEl?.contains(element) || false;
-
-        newRect = {
-            x: Math.round(bounds.left),
-            y: Math.round(bounds.top),
-            w: Math.round(bounds.width),
-            h: Math.round(bounds.height),
-        };
-    }
+    element: Element,
+    before: PageState,
+    signal?: AbortSignal,
+    result?: unknown
+): Promise<CommandAckVerify> {
+    await new Promise(resolve => requestAnimationFrame(resolve));
+    await sleep(EFFECT_SETTLE, signal);
+
+    // Re-rendered targets come back under the same id
+    const current = element.isConnected ? element : getElementById(id);
+    const newRect = getTopLevelRect(current) ?? undefined;
 
     return {
         type: 'ack',
@@ -82,11 +148,14 @@ function ackVerify(
         timestamp: Date.now(),
         verification: {
             id,
-            stillVisible,
-            hitTestOk,
-            rectChanged,
+            stillVisible: current !== null,
+            hitTestOk: current !== null && hitTest(current),
+            rectChanged: before.rect !== null && newRect !== undefined && rectsDiffer(before.rect, newRect),
+            oldRect: before.rect ?? undefined,
             newRect,
+            effects: detectEffects(before, current),
         },
+        result,
     };
 }
 
@@ -101,6 +170,21 @@ function findElement(id: string): Element {
     return element;
 }
 
+/**
+ * Where pointer input should land on an element: its best unoccluded sample point
+ */
+function getHitPoint(element: Element): HitPoint {
+    const bounds = element.getBoundingClientRect();
+    return sampleOcclusion(element, { x: bounds.left, y: bounds.top, w: bounds.width, h: bounds.height }).hit;
+}
+
+/**
+ * The hit point in top-level viewport coordinates (CDP input targets the tab, not the frame)
+ */
+function getTrustedPoint(element: Element): HitPoint {
+    return toTopLevelPoint(getHitPoint(element));
+}
+
 /**
  * Simulate mouse event at element center
  */
@@ -116,6 +200,7 @@ function simulateMouseEvent(
     const event = new MouseEvent(eventType, {
         bubbles: true,
         cancelable: true,
+        composed: true, // Escape shadow roots like native events do
         view: window,
         clientX: cx,
         clientY: cy,
@@ -130,21 +215,34 @@ function simulateMouseEvent(
 /**
  * Execute hover command
  */
-async function executeHover(cmd: HoverCommand): Promise<CommandAck> {
+async function executeHover(cmd: HoverCommand, signal?: AbortSignal, attempts: RecoveryAttempt[] = []): Promise<CommandAck> {
     try {
-        const element = findElement(cmd.id);
+        const { element, id } = await acquireTarget(cmd.id, cmd.recovery, true, attempts, signal);
+        const before = capturePageState(element);
 
-        // Simulate mouse enter and move
-        simulateMouseEvent(element, 'mouseenter');
-        simulateMouseEvent(element, 'mouseover');
-        simulateMouseEvent(element, 'mousemove');
+        const hit = getHitPoint(element);
+        const to = { x: hit.cx, y: hit.cy };
+
+        if (cmd.inputMode === 'trusted') {
+            await trustedHover(toTopLevelPoint(hit));
+            recordPointer(to);
+        } else {
+            // Travel from the last pointer position so menus see a continuous path
+            await movePointer(to, {
+                steps: cmd.steps || 12,
+                duration: getTravelTime(to),
+                curve: cmd.curve || 'minimum_jerk',
+                jitter: cmd.jitter ?? 0,
+                signal,
+            });
+        }
 
         // Wait for any hover effects
         if (cmd.duration) {
-            await new Promise(resolve => setTimeout(resolve, cmd.duration));
+            await sleep(cmd.duration, signal);
         }
 
-        return ackVerify(cmd.commandId, cmd.id, element);
+        return await ackVerify(cmd.commandId, id, element, before, signal);
     } catch (error) {
         return ackFail(cmd.commandId, (error as Error).message);
     }
@@ -153,9 +251,10 @@ async function executeHover(cmd: HoverCommand): Promise<CommandAck> {
 /**
  * Execute click command
  */
-async function executeClick(cmd: ClickCommand): Promise<CommandAck> {
+async function executeClick(cmd: ClickCommand, signal?: AbortSignal, attempts: RecoveryAttempt[] = []): Promise<CommandAck> {
     try {
-        const element = findElement(cmd.id);
+        const { element, id } = await acquireTarget(cmd.id, cmd.recovery, true, attempts, signal);
+        const before = capturePageState(element);
 
         // Determine click options
         const button = cmd.button === 'right' ? 2 : cmd.button === 'middle' ? 1 : 0;
@@ -169,6 +268,17 @@ async function executeClick(cmd: ClickCommand): Promise<CommandAck> {
 
         const clickCount = cmd.clickCount || 1;
 
+        if (cmd.inputMode === 'trusted') {
+            // The browser runs the whole sequence, focus and default actions included
+            const hit = getHitPoint(element);
+            await trustedClick(toTopLevelPoint(hit), cmd.button || 'left', clickCount, cmd.modifiers);
+            recordPointer({ x: hit.cx, y: hit.cy });
+            return await ackVerify(cmd.commandId, id, element, before, signal);
+        }
+
+        const bounds = element.getBoundingClientRect();
+        recordPointer({ x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 2 });
+
         for (let i = 0; i < clickCount; i++) {
             // Full click sequence
             simulateMouseEvent(element, 'mousedown', { ...modifiers, detail: i + 1 });
@@ -188,102 +298,90 @@ async function executeClick(cmd: ClickCommand): Promise<CommandAck> {
             element.click();
         }
 
-        return ackVerify(cmd.commandId, cmd.id, element);
+        return await ackVerify(cmd.commandId, id, element, before, signal);
     } catch (error) {
         return ackFail(cmd.commandId, (error as Error).message);
     }
 }
 
 /**
- * Execute type command
+ * Execute type command. Fails with the actual value when the field doesn't end
+ * up holding the expected text (masked inputs, maxlength, rejected keystrokes).
  */
-async function executeType(cmd: TypeCommand): Promise<CommandAck> {
+async function executeType(cmd: TypeCommand, signal?: AbortSignal, attempts: RecoveryAttempt[] = []): Promise<CommandAck> {
     try {
-        const element = findElement(cmd.id);
+        const { element, id } = await acquireTarget(cmd.id, cmd.recovery, false, attempts, signal);
+        const editable = element instanceof HTMLElement && element.isContentEditable;
 
         if (!(element instanceof HTMLInputElement) &&
             !(element instanceof HTMLTextAreaElement) &&
-            !element.hasAttribute('contenteditable')) {
+            !editable) {
             return ackFail(cmd.commandId, 'Element is not typeable');
         }
 
-        // Focus the element
-        if (element instanceof HTMLElement) {
-            element.focus();
-        }
+        const before = capturePageState(element);
 
-        // Handle contenteditable
-        if (element.hasAttribute('contenteditable')) {
-            if (cmd.clearFirst || cmd.mode === 'replace') {
-                element.textContent = '';
-            }
+        const mode = cmd.clearFirst ? 'replace' : cmd.mode || 'append';
+        let expected: string;
+        let actual: string;
 
-            // Type characters
-            for (const char of cmd.text) {
-                element.textContent += char;
-                element.dispatchEvent(new InputEvent('input', {
-                    bubbles: true,
-                    cancelable: true,
-                    inputType: 'insertText',
-                    data: char,
-                }));
-
-                if (cmd.delay) {
-                    await new Promise(resolve => setTimeout(resolve, cmd.delay));
-                }
-            }
+        if (cmd.inputMode === 'trusted') {
+            (element as HTMLElement).focus();
+            const original = editable ? getEditableText(element as HTMLElement) : (element as TextField).value;
+            placeCaret(element as HTMLElement, mode);
+            await trustedType(cmd.text, cmd.delay, signal);
 
-            return ackOk(cmd.commandId);
+            const combined = mode === 'replace' ? cmd.text : mode === 'prepend' ? cmd.text + original : original + cmd.text;
+            expected = editable ? combined.replace(/\s+/g, ' ').trim() : combined;
+            actual = editable ? getEditableText(element as HTMLElement) : (element as TextField).value;
+        } else if (editable) {
+            expected = await typeIntoEditable(element as HTMLElement, cmd.text, mode, cmd.delay, signal);
+            actual = getEditableText(element as HTMLElement);
+        } else {
+            const field = element as TextField;
+            expected = await typeIntoField(field, cmd.text, mode, cmd.delay, signal);
+            actual = field.value;
         }
 
-        // Handle input/textarea
-        const inputEl = element as HTMLInputElement | HTMLTextAreaElement;
-
-        if (cmd.clearFirst || cmd.mode === 'replace') {
-            inputEl.value = '';
-            inputEl.dispatchEvent(new Event('input', { bubbles: true }));
+        if (actual !== expected) {
+            return ackFail(cmd.commandId, `Value mismatch: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
         }
 
-        // Type characters with optional delay
-        for (const char of cmd.text) {
-            // Dispatch keydown
-            inputEl.dispatchEvent(new KeyboardEvent('keydown', {
-                key: char,
-                bubbles: true,
-                cancelable: true,
-            }));
-
-            // Update value based on mode
-            if (cmd.mode === 'prepend') {
-                inputEl.value = char + inputEl.value;
-            } else {
-                inputEl.value += char;
-            }
+        return await ackVerify(cmd.commandId, id, element, before, signal, { value: actual });
+    } catch (error) {
+        return ackFail(cmd.commandId, (error as Error).message);
+    }
+}
 
-            // Dispatch input event
-            inputEl.dispatchEvent(new InputEvent('input', {
-                bubbles: true,
-                cancelable: true,
-                inputType: 'insertText',
-                data: char,
-            }));
-
-            // Dispatch keyup
-            inputEl.dispatchEvent(new KeyboardEvent('keyup', {
-                key: char,
-                bubbles: true,
-                cancelable: true,
-            }));
-
-            if (cmd.delay) {
-                await new Promise(resolve => setTimeout(resolve, cmd.delay));
+/**
+ * Execute key command against a candidate (focused first) or the focused element
+ */
+async function executeKey(cmd: KeyCommand, signal?: AbortSignal, attempts: RecoveryAttempt[] = []): Promise<CommandAck> {
+    try {
+        let target = getFocusedElement();
+        if (cmd.id) {
+            target = (await acquireTarget(cmd.id, cmd.recovery, false, attempts, signal)).element;
+            if (target instanceof HTMLElement && getFocusedElement() !== target) {
+                target.focus();
             }
         }
+        const id = cmd.id || getElementId(target);
+        const before = capturePageState(target);
+
+        let last: Element;
+        if (cmd.inputMode === 'trusted') {
+            // Key events go to whatever has focus; the browser performs default actions
+            await trustedPress(cmd.key, cmd.modifiers, cmd.repeat || 1, cmd.delay, signal);
+            last = getFocusedElement();
+        } else {
+            last = await pressChord(target, cmd.key, cmd.modifiers, cmd.repeat || 1, cmd.delay, signal);
+        }
 
-        // Dispatch change event
-        inputEl.dispatchEvent(new Event('change', { bubbles: true }));
-
-        return ackOk(cmd.commandId, { value: inputEl.value });
+        const isPage = last === document.body || last === document.documentElement;
+        return await ackVerify(cmd.commandId, id, target, before, signal, {
+            targetId: isPage ? null : getElementId(last),
+            value: last instanceof HTMLInputElement || last instanceof HTMLTextAreaElement ? last.value : undefined,
+        });
     } catch (error) {
         return ackFail(cmd.commandId, (error as Error).message);
     }
@@ -292,7 +390,7 @@ async function executeType(cmd: TypeCommand): Promise<CommandAck> {
 /**
  * Execute scroll command
  */
-async function executeScroll(cmd: ScrollCommand): Promise<CommandAck> {
+async function executeScroll(cmd: ScrollCommand, signal?: AbortSignal): Promise<CommandAck> {
     try {
         let target: Element | Window = window;
 
@@ -304,7 +402,13 @@ async function executeScroll(cmd: ScrollCommand): Promise<CommandAck> {
             target = element;
         }
 
-        if (target === window) {
+        if (cmd.inputMode === 'trusted') {
+            // Wheel at the target (or viewport centre) so the browser picks the scroller
+            const point = target === window
+                ? toTopLevelPoint({ cx: Math.round(window.innerWidth / 2), cy: Math.round(window.innerHeight / 2) })
+                : getTrustedPoint(target as Element);
+            await trustedWheel(point, cmd.dx, cmd.dy);
+        } else if (target === window) {
             window.scrollBy({
                 left: cmd.dx,
                 top: cmd.dy,
@@ -319,7 +423,7 @@ async function executeScroll(cmd: ScrollCommand): Promise<CommandAck> {
         }
 
         // Wait for scroll to complete
-        await new Promise(resolve => setTimeout(resolve, 300));
+        await sleep(300, signal);
 
         return ackOk(cmd.commandId, {
             scrollX: window.scrollX,
@@ -330,6 +434,18 @@ async function executeScroll(cmd: ScrollCommand): Promise<CommandAck> {
     }
 }
 
+/**
+ * Execute scroll-to-item command (virtualized lists)
+ */
+async function executeScrollToItem(cmd: ScrollToItemCommand, signal?: AbortSignal): Promise<CommandAck> {
+    try {
+        const item = await scrollToListItem(cmd.query, cmd.listId, cmd.maxScrolls, signal);
+        return ackOk(cmd.commandId, item);
+    } catch (error) {
+        return ackFail(cmd.commandId, (error as Error).message);
+    }
+}
+
 /**
  * Execute focus command
  */
@@ -350,37 +466,165 @@ async function executeFocus(cmd: FocusCommand): Promise<CommandAck> {
 }
 
 /**
- * Execute select command (for dropdowns)
+ * Describe the available options for a failed select
  */
-async function executeSelect(cmd: SelectCommand): Promise<CommandAck> {
-    try {
-        const element = findElement(cmd.id);
+function describeNoMatch(value: string, labels: string[]): string {
+    if (labels.length === 0) return `No options available for "${value}"`;
+    const shown = labels.slice(0, 20).map(label => `"${label}"`).join(', ');
+    return `No option matching "${value}". Available: ${shown}${labels.length > 20 ? ', ...' : ''}`;
+}
 
-        if (!(element instanceof HTMLSelectElement)) {
-            return ackFail(cmd.commandId, 'Element is not a select');
+/**
+ * Select options in a native <select>
+ */
+async function selectNative(
+    cmd: SelectCommand,
+    element: HTMLSelectElement,
+    id: string,
+    before: PageState,
+    signal?: AbortSignal
+): Promise<CommandAck> {
+    const values = Array.isArray(cmd.value) ? cmd.value : [cmd.value];
+
+    const unmatched = values.find(value => !Array.from(element.options).some(option =>
+        option.value === value || option.textContent === value
+    ));
+    if (unmatched !== undefined) {
+        const labels = Array.from(element.options).map(option => option.label || option.text);
+        return ackFail(cmd.commandId, describeNoMatch(unmatched, labels));
+    }
+
+    // Clear previous selections for multiple select
+    if (element.multiple) {
+        for (const option of element.options) {
+            option.selected = false;
         }
+    }
 
-        const values = Array.isArray(cmd.value) ? cmd.value : [cmd.value];
+    // Select matching options
+    for (const option of element.options) {
+        if (values.includes(option.value) || values.includes(option.textContent || '')) {
+            option.selected = true;
+            if (!element.multiple) break;
+        }
+    }
 
-        // Clear previous selections for multiple select
-        if (element.multiple) {
-            for (const option of element.options) {
-                option.selected = false;
-            }
+    // Dispatch change event
+    element.dispatchEvent(new Event('change', { bubbles: true }));
+
+    return ackVerify(cmd.commandId, id, element, before, signal, { value: element.value });
+}
+
+/**
+ * Open a custom select's popup unless it is already open (or is a listbox itself)
+ */
+async function openPopup(element: Element): Promise<void> {
+    if (element.getAttribute('role') === 'listbox') return;
+    if (element.getAttribute('aria-expanded') === 'true' && findListbox(element)) return;
+
+    simulateMouseEvent(element, 'mousedown');
+    simulateMouseEvent(element, 'mouseup');
+    simulateMouseEvent(element, 'click');
+    if (element instanceof HTMLElement) {
+        element.focus();
+    }
+    await new Promise(resolve => requestAnimationFrame(resolve));
+
+    // Some comboboxes only open from the keyboard
+    if (element.getAttribute('aria-expanded') !== 'true') {
+        const target = getComboboxInput(element) || element;
+        target.dispatchEvent(new KeyboardEvent('keydown', {
+            key: 'ArrowDown',
+            code: 'ArrowDown',
+            altKey: true,
+            bubbles: true,
+            cancelable: true,
+            composed: true,
+        }));
+    }
+}
+
+/**
+ * Type into a combobox's input to filter its options
+ */
+async function filterOptions(element: Element, text: string, signal?: AbortSignal): Promise<void> {
+    const input = getComboboxInput(element);
+    if (input) {
+        await typeIntoField(input, text, 'replace', undefined, signal);
+    }
+}
+
+function closePopup(element: Element): void {
+    (getComboboxInput(element) || element).dispatchEvent(new KeyboardEvent('keydown', {
+        key: 'Escape',
+        code: 'Escape',
+        bubbles: true,
+        cancelable: true,
+        composed: true,
+    }));
+}
+
+/**
+ * Select options in an ARIA combobox/listbox: open it, optionally type to filter,
+ * wait for the option, click it and check the control now shows it
+ */
+async function selectCustom(
+    cmd: SelectCommand,
+    element: Element,
+    id: string,
+    before: PageState,
+    signal?: AbortSignal
+): Promise<CommandAck> {
+    const values = Array.isArray(cmd.value) ? cmd.value : [cmd.value];
+    const selected: string[] = [];
+
+    for (const value of values) {
+        await openPopup(element);
+        if (cmd.filter) {
+            await filterOptions(element, value, signal);
         }
 
-        // Select matching options
-        for (const option of element.options) {
-            if (values.includes(option.value) || values.includes(option.textContent || '')) {
-                option.selected = true;
-                if (!element.multiple) break;
-            }
+        const { option, options } = await waitForOption(element, value, OPTION_TIMEOUT, signal);
+        if (!option) {
+            closePopup(element);
+            return ackFail(cmd.commandId, describeNoMatch(value, options.map(getOptionLabel)));
         }
 
-        // Dispatch change event
-        element.dispatchEvent(new Event('change', { bubbles: true }));
+        const label = getOptionLabel(option);
+        option.scrollIntoView({ block: 'nearest', behavior: 'instant' });
+        simulateMouseEvent(option, 'mousedown');
+        simulateMouseEvent(option, 'mouseup');
+        simulateMouseEvent(option, 'click');
+        await new Promise(resolve => requestAnimationFrame(resolve));
+
+        // Options usually unmount on close; otherwise they report aria-selected
+        const displayed = getDisplayedValue(element);
+        const optionSelected = option.isConnected && option.getAttribute('aria-selected') === 'true';
+        if (!optionSelected && !displayed.toLowerCase().includes(label.toLowerCase())) {
+            return ackFail(cmd.commandId, `Clicked option "${label}" but the control shows "${displayed}"`);
+        }
+        selected.push(label);
+    }
+
+    return ackVerify(cmd.commandId, id, element, before, signal, { value: getDisplayedValue(element), selected });
+}
 
-        return ackOk(cmd.commandId, { value: element.value });
+/**
+ * Execute select command (native selects and ARIA comboboxes/listboxes)
+ */
+async function executeSelect(cmd: SelectCommand, signal?: AbortSignal, attempts: RecoveryAttempt[] = []): Promise<CommandAck> {
+    try {
+        const { element, id } = await acquireTarget(cmd.id, cmd.recovery, false, attempts, signal);
+        const before = capturePageState(element);
+
+        if (element instanceof HTMLSelectElement) {
+            return await selectNative(cmd, element, id, before, signal);
+        }
+        if (!isCustomSelect(element)) {
+            return ackFail(cmd.commandId, 'Element is not a select, combobox or listbox');
+        }
+
+        return await selectCustom(cmd, element, id, before, signal);
     } catch (error) {
         return ackFail(cmd.commandId, (error as Error).message);
     }
@@ -389,54 +633,395 @@ async function executeSelect(cmd: SelectCommand): Promise<CommandAck> {
 /**
  * Execute mouse move command
  */
-async function executeMoveMouse(cmd: MoveMouseCommand): Promise<CommandAck> {
+async function executeMoveMouse(cmd: MoveMouseCommand, signal?: AbortSignal): Promise<CommandAck> {
+    try {
+        const from = getPointerPosition();
+        const under = await movePointer({ x: cmd.x, y: cmd.y }, {
+            steps: cmd.steps || 10,
+            duration: cmd.duration || 200,
+            curve: cmd.curve || 'linear',
+            jitter: cmd.jitter || 0,
+            signal,
+        });
+
+        return ackOk(cmd.commandId, {
+            from: { x: Math.round(from.x), y: Math.round(from.y) },
+            targetId: under ? getElementId(under) : null,
+        });
+    } catch (error) {
+        return ackFail(cmd.commandId, (error as Error).message);
+    }
+}
+
+/**
+ * Where an element sits: its rect, container and position among siblings
+ */
+function getPlacement(element: Element) {
+    const parent = getComposedParent(element);
+    return {
+        rect: element.getBoundingClientRect(),
+        parent,
+        index: parent ? Array.from(parent.children).indexOf(element) : -1,
+        value: element instanceof HTMLInputElement ? element.value : undefined,
+    };
+}
+
+/**
+ * Execute drag command: drag a candidate onto another candidate or a point,
+ * then check that the source moved, changed container or changed value
+ */
+async function executeDrag(cmd: DragCommand, signal?: AbortSignal, attempts: RecoveryAttempt[] = []): Promise<CommandAck> {
     try {
-        const steps = cmd.steps || 10;
-        const duration = cmd.duration || 200;
-        const stepDelay = duration / steps;
-
-        // Get current position (approximate - we don't have real cursor position)
-        const startX = window.innerWidth / 2;
-        const startY = window.innerHeight / 2;
-        const targetX = cmd.x;
-        const targetY = cmd.y;
-
-        for (let i = 0; i <= steps; i++) {
-            const progress = i / steps;
-            let t = progress;
-
-            // Apply easing
-            if (cmd.curve === 'ease') {
-                t = progress < 0.5
-                    ? 2 * progress * progress
-                    : 1 - Math.pow(-2 * progress + 2, 2) / 2;
-            } else if (cmd.curve === 'bezier') {
-                t = progress * progress * (3 - 2 * progress);
+        const { element: source, id } = await acquireTarget(cmd.id, cmd.recovery, true, attempts, signal);
+
+        let to: Point;
+        if (cmd.targetId) {
+            const bounds = findElement(cmd.targetId).getBoundingClientRect();
+            to = { x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 2 };
+        } else if (cmd.x !== undefined && cmd.y !== undefined) {
+            const local = fromTopLevelPoint({ cx: cmd.x, cy: cmd.y });
+            to = { x: local.cx, y: local.cy };
+        } else {
+            return ackFail(cmd.commandId, 'Drag needs a targetId or x/y');
+        }
+
+        const placement = getPlacement(source);
+        const before = capturePageState(source);
+        await dragTo(source, to, {
+            steps: cmd.steps || 20,
+            duration: cmd.duration || 400,
+            curve: cmd.curve || 'ease',
+            signal,
+        });
+        recordPointer(to);
+
+        // Let the page re-render the drop before comparing
+        await new Promise(resolve => requestAnimationFrame(resolve));
+        await sleep(100, signal);
+
+        // Sortable lists often re-mount the dropped item; look it up again by id
+        const moved = source.isConnected ? source : getElementById(id);
+        if (!moved) {
+            return await ackVerify(cmd.commandId, id, source, before, signal, { moved: true, containerChanged: true, remounted: false });
+        }
+
+        const after = getPlacement(moved);
+        const rectChanged = Math.abs(after.rect.left - placement.rect.left) > 2 ||
+            Math.abs(after.rect.top - placement.rect.top) > 2 ||
+            Math.abs(after.rect.width - placement.rect.width) > 2;
+        const containerChanged = after.parent !== placement.parent;
+        const indexChanged = after.index !== placement.index;
+        const valueChanged = after.value !== placement.value;
+
+        if (!rectChanged && !containerChanged && !indexChanged && !valueChanged) {
+            return ackFail(cmd.commandId, 'Drag had no effect: source did not move');
+        }
+
+        return await ackVerify(cmd.commandId, id, moved, before, signal, {
+            moved: rectChanged,
+            containerChanged,
+            indexChanged,
+            value: after.value,
+            rect: toTopLevelRect({
+                x: Math.round(after.rect.left),
+                y: Math.round(after.rect.top),
+                w: Math.round(after.rect.width),
+                h: Math.round(after.rect.height),
+            }),
+        });
+    } catch (error) {
+        return ackFail(cmd.commandId, (error as Error).message);
+    }
+}
+
+/**
+ * The file input behind a candidate: the input itself, a label's control,
+ * or a hidden input inside an upload button
+ */
+function findFileInput(element: Element): HTMLInputElement | null {
+    const isFileInput = (el: Element | null): el is HTMLInputElement =>
+        el instanceof HTMLInputElement && el.type === 'file';
+
+    if (isFileInput(element)) return element;
+    if (element instanceof HTMLLabelElement && isFileInput(element.control)) return element.control;
+    const inner = element.querySelector('input[type="file"]');
+    return isFileInput(inner) ? inner : null;
+}
+
+/**
+ * Execute upload command: set files on a file input, or drop them on a drop zone
+ */
+async function executeUpload(cmd: UploadCommand): Promise<CommandAck> {
+    try {
+        if (cmd.files.length === 0) {
+            return ackFail(cmd.commandId, 'No files to upload');
+        }
+
+        const element = findElement(cmd.id);
+        const input = findFileInput(element);
+
+        if (input) {
+            if (input.disabled) {
+                return ackFail(cmd.commandId, 'File input is disabled');
             }
+            setInputFiles(input, cmd.files);
 
-            const x = startX + (targetX - startX) * t;
-            const y = startY + (targetY - startY) * t;
+            const names = Array.from(input.files || []).map(file => file.name);
+            if (names.length !== cmd.files.length) {
+                return ackFail(cmd.commandId, `File input holds ${names.length} of ${cmd.files.length} files`);
+            }
+            return ackOk(cmd.commandId, { mode: 'input', files: names });
+        }
 
-            const event = new MouseEvent('mousemove', {
-                bubbles: true,
-                cancelable: true,
-                view: window,
-                clientX: x,
-                clientY: y,
-            });
-            document.elementFromPoint(x, y)?.dispatchEvent(event);
+        await revealElement(cmd.id, element);
+        if (!dropFiles(element, cmd.files)) {
+            return ackFail(cmd.commandId, 'Target is not a file input and does not accept drops');
+        }
+        return ackOk(cmd.commandId, { mode: 'drop', files: cmd.files.map(file => file.name) });
+    } catch (error) {
+        return ackFail(cmd.commandId, (error as Error).message);
+    }
+}
+
+/**
+ * Execute wait_for command: resolve once the condition holds, with the matching candidate
+ */
+async function executeWaitFor(cmd: WaitForCommand, signal?: AbortSignal): Promise<CommandAck> {
+    try {
+        const needsTarget = cmd.condition === 'appear' || cmd.condition === 'disappear' || cmd.condition === 'enabled';
+        if (needsTarget && !cmd.id && !cmd.query) {
+            return ackFail(cmd.commandId, `wait_for ${cmd.condition} needs an id or query`);
+        }
+        if ((cmd.condition === 'text' && !cmd.text) || (cmd.condition === 'url' && !cmd.url)) {
+            return ackFail(cmd.commandId, `wait_for ${cmd.condition} needs a ${cmd.condition}`);
+        }
 
-            if (i < steps) {
-                await new Promise(resolve => setTimeout(resolve, stepDelay));
+        const result = await waitForCondition(cmd, signal);
+        if (!result.met) {
+            return ackFail(cmd.commandId, `Timed out after ${result.elapsed}ms waiting for ${describeWait(cmd)}`);
+        }
+
+        return ackOk(cmd.commandId, {
+            condition: cmd.condition,
+            elapsed: result.elapsed,
+            candidate: result.candidate,
+        });
+    } catch (error) {
+        return ackFail(cmd.commandId, (error as Error).message);
+    }
+}
+
+/**
+ * Execute navigate_menu command: hover down a path of menu labels and click the last one
+ */
+async function executeNavigateMenu(cmd: NavigateMenuCommand, signal?: AbortSignal): Promise<CommandAck> {
+    try {
+        if (cmd.path.length === 0) {
+            return ackFail(cmd.commandId, 'Menu path is empty');
+        }
+
+        const steps = await navigateMenu(cmd.path, cmd.timeout || SUBMENU_TIMEOUT, signal);
+        return ackOk(cmd.commandId, { steps });
+    } catch (error) {
+        return ackFail(cmd.commandId, (error as Error).message);
+    }
+}
+
+/**
+ * Execute capture_patch command: screenshot a candidate (revealed first) or a
+ * top-level viewport rect through the service worker
+ */
+async function executeCapturePatch(cmd: CapturePatchCommand): Promise<CommandAck> {
+    try {
+        let rect: Rect;
+        if (cmd.id) {
+            const element = findElement(cmd.id);
+            await revealElement(cmd.id, element);
+
+            const bounds = element.getBoundingClientRect();
+            const padding = cmd.padding ?? DEFAULT_PATCH_PADDING;
+            rect = toTopLevelRect({
+                x: bounds.left - padding,
+                y: bounds.top - padding,
+                w: bounds.width + padding * 2,
+                h: bounds.height + padding * 2,
+            });
+        } else {
+            if (cmd.x === undefined || cmd.y === undefined || cmd.w === undefined || cmd.h === undefined) {
+                return ackFail(cmd.commandId, 'capture_patch needs an id or a rect (x, y, w, h)');
             }
+            rect = { x: cmd.x, y: cmd.y, w: cmd.w, h: cmd.h };
+        }
+        if (rect.w <= 0 || rect.h <= 0) {
+            return ackFail(cmd.commandId, 'Nothing to capture: rect is empty');
         }
 
-        return ackOk(cmd.commandId);
+        const format = cmd.format || 'png';
+        const patch = await requestWorker<CapturePatchResult>({
+            type: 'capture_patch_request',
+            rect,
+            viewport: getTopViewport(),
+            format,
+            quality: cmd.quality,
+        }, CAPTURE_TIMEOUT);
+
+        return ackOk(cmd.commandId, {
+            format,
+            data: patch.data,
+            width: patch.width,
+            height: patch.height,
+            scale: patch.scale,
+            rect,
+        });
     } catch (error) {
         return ackFail(cmd.commandId, (error as Error).message);
     }
 }
 
+/**
+ * Check a step expectation once; returns what doesn't hold
+ */
+function checkExpectation(expect: StepExpectation, targetId: string | undefined): string[] {
+    const failures: string[] = [];
+    const id = expect.id || targetId;
+    const needsElement = expect.visible !== undefined || expect.value !== undefined || expect.focused !== undefined;
+    if (needsElement && !id) {
+        return ['expectation needs an id'];
+    }
+
+    const element = id ? getElementById(id) : null;
+    const present = element !== null && element.isConnected;
+
+    if (expect.visible === true && !(present && hitTest(element))) {
+        failures.push(present ? `${id} is not hittable` : `${id} is gone`);
+    }
+    if (expect.visible === false && present && hitTest(element)) {
+        failures.push(`${id} is still visible`);
+    }
+    if (expect.value !== undefined) {
+        const actual = !present ? undefined
+            : element instanceof HTMLElement && element.isContentEditable ? getEditableText(element)
+                : (element as Partial<TextField>).value;
+        if (actual !== expect.value) {
+            failures.push(`${id} value is ${JSON.stringify(actual)}, expected ${JSON.stringify(expect.value)}`);
+        }
+    }
+    if (expect.focused !== undefined) {
+        const focused = present && containsComposed(element, getFocusedElement());
+        if (focused !== expect.focused) {
+            failures.push(`${id} is ${focused ? '' : 'not '}focused`);
+        }
+    }
+    if (expect.text !== undefined && !(document.body?.innerText || '').includes(expect.text)) {
+        failures.push(`page text does not contain ${JSON.stringify(expect.text)}`);
+    }
+    if (expect.url !== undefined && !location.href.includes(expect.url)) {
+        failures.push(`URL ${location.href} does not contain ${JSON.stringify(expect.url)}`);
+    }
+    return failures;
+}
+
+/**
+ * Wait for a step expectation to hold (pages often update a frame or a render later)
+ */
+async function waitForExpectation(expect: StepExpectation, targetId: string | undefined, signal?: AbortSignal): Promise<string[]> {
+    const deadline = Date.now() + (expect.timeout ?? EXPECT_TIMEOUT);
+    while (true) {
+        const failures = checkExpectation(expect, targetId);
+        if (failures.length === 0 || Date.now() >= deadline) return failures;
+        await sleep(EXPECT_POLL_INTERVAL, signal);
+    }
+}
+
+/**
+ * Run one batch step and check its expectation. The step can be cancelled (by its
+ * commandId) or time out (by its timeoutMs) on its own, and stops with the batch.
+ */
+async function runBatchStep(batch: BatchCommand, step: BatchStep, index: number, signal?: AbortSignal): Promise<BatchStepResult> {
+    const command = {
+        ...step.command,
+        commandId: step.command.commandId || `${batch.commandId}.${index}`,
+    } as Command;
+
+    if (step.delay) {
+        await sleep(step.delay, signal);
+    }
+
+    const start = Date.now();
+    const stepSignal = startCommand(command.commandId, command.timeoutMs, signal);
+    try {
+        const ack = await executeCommand(command, stepSignal);
+        const result: BatchStepResult = {
+            index,
+            type: command.type,
+            commandId: command.commandId,
+            status: ack.status,
+            elapsed: 0,
+        };
+        if (ack.status === 'fail') {
+            result.reason = ack.reason;
+            result.result = ack.result;
+        } else if (ack.status === 'cancelled') {
+            result.reason = ack.reason;
+        } else if (ack.status === 'ok') {
+            result.result = ack.result;
+        } else {
+            result.verification = ack.verification;
+            result.result = ack.result;
+        }
+        if (ack.status !== 'cancelled' && ack.recovery) {
+            result.recovery = ack.recovery;
+        }
+
+        if ((ack.status === 'ok' || ack.status === 'verify') && step.expect) {
+            const failures = await waitForExpectation(step.expect, 'id' in command ? command.id : undefined, stepSignal);
+            if (failures.length > 0) {
+                result.status = 'fail';
+                result.reason = `Expectation failed: ${failures.join('; ')}`;
+            }
+        }
+
+        result.elapsed = Date.now() - start;
+        return result;
+    } finally {
+        finishCommand(command.commandId);
+    }
+}
+
+/**
+ * Execute batch command: run the steps in order in this frame, stopping at the first
+ * failed (or timed out) step unless onFailure is continue. The ack carries every step's result.
+ */
+async function executeBatch(cmd: BatchCommand, signal?: AbortSignal): Promise<CommandAck> {
+    const steps: BatchStepResult[] = [];
+    let failed = 0;
+
+    for (let i = 0; i < cmd.steps.length; i++) {
+        throwIfCancelled(signal);
+        if (failed > 0 && cmd.onFailure !== 'continue') {
+            const command = cmd.steps[i].command;
+            steps.push({
+                index: i,
+                type: command.type,
+                commandId: command.commandId || `${cmd.commandId}.${i}`,
+                status: 'skipped',
+                elapsed: 0,
+            });
+            continue;
+        }
+
+        const result = await runBatchStep(cmd, cmd.steps[i], i, signal);
+        if (result.status === 'fail' || result.status === 'cancelled') failed++;
+        steps.push(result);
+    }
+
+    if (failed > 0) {
+        const first = steps.find(step => step.status === 'fail' || step.status === 'cancelled')!;
+        return ackFail(cmd.commandId, `Step ${first.index + 1} (${first.type}) failed: ${first.reason}`, { steps, failed });
+    }
+    return ackOk(cmd.commandId, { steps, failed });
+}
+
 /**
  * Execute query command
  */
@@ -483,30 +1068,81 @@ async function executeQuery(cmd: QueryCommand): Promise<CommandAck> {
 }
 
 /**
- * Execute a command
+ * Run a command's executor. Executors that act on a target push their recovery
+ * rounds onto attempts.
  */
-export async function executeCommand(command: Command): Promise<CommandAck> {
+async function runCommand(command: Command, signal: AbortSignal | undefined, attempts: RecoveryAttempt[]): Promise<CommandAck> {
     switch (command.type) {
         case 'hover':
-            return executeHover(command);
+            return executeHover(command, signal, attempts);
         case 'click':
-            return executeClick(command);
+            return executeClick(command, signal, attempts);
         case 'type':
-            return executeType(command);
+            return executeType(command, signal, attempts);
+        case 'key':
+            return executeKey(command, signal, attempts);
         case 'scroll':
-            return executeScroll(command);
+            return executeScroll(command, signal);
+        case 'scroll_to_item':
+            return executeScrollToItem(command, signal);
         case 'focus':
             return executeFocus(command);
         case 'select':
-            return executeSelect(command);
+            return executeSelect(command, signal, attempts);
         case 'move_mouse':
-            return executeMoveMouse(command);
+            return executeMoveMouse(command, signal);
+        case 'drag':
+            return executeDrag(command, signal, attempts);
+        case 'upload':
+            return executeUpload(command);
+        case 'wait_for':
+            return executeWaitFor(command, signal);
+        case 'navigate_menu':
+            return executeNavigateMenu(command, signal);
         case 'query':
             return executeQuery(command);
         case 'capture_patch':
-            // Not implemented in content script - requires background script
-            return ackFail(command.commandId, 'capture_patch not implemented');
+            return executeCapturePatch(command);
+        case 'batch':
+            return executeBatch(command, signal);
         default:
             return ackFail((command as Command).commandId, `Unknown command type`);
     }
 }
+
+/**
+ * List the recovery rounds in the ack, if the target needed any
+ */
+function withRecovery(ack: CommandAck, attempts: RecoveryAttempt[]): CommandAck {
+    if (attempts.length > 0 && ack.status !== 'cancelled') {
+        ack.recovery = attempts;
+    }
+    return ack;
+}
+
+/**
+ * Execute a command. With a signal, the command stops at its next wait when the
+ * signal aborts and is acked as cancelled right away (as failed with reason "timeout"
+ * when it ran past its timeoutMs). Never throws: errors are acked as failures.
+ */
+export async function executeCommand(command: Command, signal?: AbortSignal): Promise<CommandAck> {
+    const attempts: RecoveryAttempt[] = [];
+
+    try {
+        if (!signal) return withRecovery(await runCommand(command, undefined, attempts), attempts);
+
+        throwIfCancelled(signal);
+        const ack = await Promise.race([runCommand(command, signal, attempts), whenCancelled(signal)]);
+        // A wait that was cut short surfaces as a failure; report it as the cancellation
+        throwIfCancelled(signal);
+        return withRecovery(ack, attempts);
+    } catch (error) {
+        if (error instanceof CancelledError) {
+            return error.message === TIMEOUT_REASON
+                ? ackFail(command.commandId, TIMEOUT_REASON)
+                : ackCancelled(command.commandId, error.message);
+        }
+        // Executors ack their own failures; anything that escapes one still gets an ack
+        return withRecovery(ackFail(command.commandId, (error as Error).message), attempts);
+    }
+}
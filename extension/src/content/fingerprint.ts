@@ -0,0 +1,85 @@
+/**
+ * Fingerprint - Element identity that survives re-renders
+ * Combines role, accessible name, form context, landmark path and coarse position
+ */
+
+import type { Rect } from '../shared/protocol';
+import { closestComposed } from './shadow';
+import { getLandmarkAncestors } from './landmarks';
+
+// Position buckets across the document (columns x rows)
+const POSITION_COLUMNS = 8;
+const POSITION_ROWS = 16;
+
+/**
+ * FNV-1a hash, rendered in base36
+ */
+function hashString(input: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(36);
+}
+
+function normalizeText(text: string): string {
+    return text.replace(/\s+/g, ' ').trim().toLowerCase().substring(0, 80);
+}
+
+/**
+ * Describe a container by tag/role and its label, e.g. "nav[main menu]"
+ */
+function describeContainer(element: Element): string {
+    const kind = element.getAttribute('role') || element.tagName.toLowerCase();
+    const label = element.getAttribute('aria-label') || element.getAttribute('name') || element.id || '';
+    return label ? `${kind}[${normalizeText(label)}]` : kind;
+}
+
+/**
+ * Get the form an element belongs to, described stably
+ */
+function getFormContext(element: Element): string {
+    const form = (element as HTMLInputElement).form || closestComposed(element, 'form');
+    if (!form) return '';
+    const action = form.getAttribute('action') || '';
+    return `${describeContainer(form)}${action ? `@${action}` : ''}`;
+}
+
+/**
+ * Describe the chain of landmark containers (outermost first)
+ */
+function getLandmarkPath(element: Element): string {
+    return getLandmarkAncestors(element).map(describeContainer).join('>');
+}
+
+/**
+ * Bucket the element's centre in document space, so scrolling doesn't change it
+ */
+function getPositionBucket(rect: Rect): string {
+    const docWidth = Math.max(document.documentElement.scrollWidth, window.innerWidth, 1);
+    const docHeight = Math.max(document.documentElement.scrollHeight, window.innerHeight, 1);
+    const cx = (rect.x + rect.w / 2 + window.scrollX) / docWidth;
+    const cy = (rect.y + rect.h / 2 + window.scrollY) / docHeight;
+
+    const col = Math.min(POSITION_COLUMNS - 1, Math.max(0, Math.floor(cx * POSITION_COLUMNS)));
+    const row = Math.min(POSITION_ROWS - 1, Math.max(0, Math.floor(cy * POSITION_ROWS)));
+    return `${col}.${row}`;
+}
+
+/**
+ * Compute an element fingerprint of the form "<semantic hash>:<col>.<row>".
+ * The semantic part identifies "the same control"; the position part disambiguates lookalikes.
+ * rect is in the element's own frame viewport coordinates. positionKey replaces the
+ * position part (rows of recycled lists use "item<index>").
+ */
+export function computeFingerprint(element: Element, role: string, name: string, rect: Rect, positionKey?: string): string {
+    const semantic = [
+        role,
+        normalizeText(name),
+        getFormContext(element),
+        getLandmarkPath(element),
+    ].join('|');
+
+    return `${hashString(semantic)}:${positionKey ?? getPositionBucket(rect)}`;
+}
@@ -0,0 +1,183 @@
+/**
+ * Forms - Whole-form schema extraction
+ * Describes each form's fields, constraints, current values and submit control
+ */
+
+import type { FormSchema, FormField, FormFieldOption } from '../shared/protocol';
+import { getElementId } from './actionmap';
+import { computeAccessibleName } from './accname';
+import { querySelectorAllDeep, closestComposed } from './shadow';
+
+const FIELD_SELECTORS = 'input, select, textarea';
+
+// Input types that are controls, not data fields
+const NON_FIELD_TYPES = new Set(['hidden', 'submit', 'reset', 'button', 'image']);
+
+type FieldElement = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+function isField(element: Element): element is FieldElement {
+    if (element instanceof HTMLInputElement) return !NON_FIELD_TYPES.has(element.type);
+    return element instanceof HTMLSelectElement || element instanceof HTMLTextAreaElement;
+}
+
+/**
+ * Get the error message shown for a field: aria-errormessage when marked invalid,
+ * otherwise the browser's constraint validation message
+ */
+function getValidationMessage(element: FieldElement): string {
+    if (element.getAttribute('aria-invalid') === 'true') {
+        const errorId = element.getAttribute('aria-errormessage');
+        const root = element.getRootNode() as Document | ShadowRoot;
+        const error = errorId ? root.getElementById(errorId) : null;
+        const text = error?.textContent?.replace(/\s+/g, ' ').trim();
+        if (text) return text;
+    }
+    return element.validationMessage;
+}
+
+function isValid(element: FieldElement): boolean {
+    return element.validity.valid && element.getAttribute('aria-invalid') !== 'true';
+}
+
+/**
+ * Describe a single field (radios are grouped separately)
+ */
+function describeField(element: FieldElement): FormField {
+    const field: FormField = {
+        id: getElementId(element),
+        label: computeAccessibleName(element, ''),
+        name: element.name,
+        type: element instanceof HTMLInputElement ? element.type
+            : element instanceof HTMLSelectElement ? (element.multiple ? 'select-multiple' : 'select')
+                : 'textarea',
+        required: element.required || element.getAttribute('aria-required') === 'true',
+        disabled: element.disabled,
+        value: element.value,
+        valid: isValid(element),
+        validationMessage: getValidationMessage(element),
+    };
+
+    if (element instanceof HTMLInputElement) {
+        if (element.pattern) field.pattern = element.pattern;
+        if (element.min) field.min = element.min;
+        if (element.max) field.max = element.max;
+        if (element.step) field.step = element.step;
+        if (element.type === 'checkbox') field.checked = element.checked;
+        if (element.placeholder) field.placeholder = element.placeholder;
+    }
+    if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+        if (element.minLength >= 0) field.minLength = element.minLength;
+        if (element.maxLength >= 0) field.maxLength = element.maxLength;
+        if (element instanceof HTMLTextAreaElement && element.placeholder) field.placeholder = element.placeholder;
+    }
+    if (element instanceof HTMLSelectElement) {
+        field.options = Array.from(element.options).map((option): FormFieldOption => ({
+            value: option.value,
+            label: option.label || option.text,
+            selected: option.selected,
+        }));
+    }
+
+    return field;
+}
+
+/**
+ * Describe a radio group as one field whose options are the individual radios
+ */
+function describeRadioGroup(radios: HTMLInputElement[]): FormField {
+    const first = radios[0];
+    const group = closestComposed(first, 'fieldset, [role="radiogroup"]');
+    const groupLabel = group && radios.every(radio => group.contains(radio))
+        ? computeAccessibleName(group, group.getAttribute('role') || 'group', false)
+        : '';
+    const checked = radios.find(radio => radio.checked);
+
+    return {
+        id: getElementId(group && groupLabel ? group : first),
+        label: groupLabel || first.name,
+        name: first.name,
+        type: 'radio',
+        required: radios.some(radio => radio.required),
+        disabled: radios.every(radio => radio.disabled),
+        value: checked?.value ?? '',
+        valid: radios.every(isValid),
+        validationMessage: radios.map(getValidationMessage).find(Boolean) || '',
+        options: radios.map((radio): FormFieldOption => ({
+            value: radio.value,
+            label: computeAccessibleName(radio, 'radio'),
+            selected: radio.checked,
+            id: getElementId(radio),
+        })),
+    };
+}
+
+/**
+ * Get the form's fields in tree order, including ones inside open shadow roots
+ * and ones associated from outside via the form attribute
+ */
+function getFormFields(form: Element): FieldElement[] {
+    const fields = new Set<Element>(form instanceof HTMLFormElement ? Array.from(form.elements) : []);
+    for (const element of querySelectorAllDeep(FIELD_SELECTORS, form)) {
+        fields.add(element);
+    }
+    return Array.from(fields).filter(isField);
+}
+
+/**
+ * Find the control that submits the form (its default button)
+ */
+function findSubmitControl(form: Element): Element | null {
+    const controls = form instanceof HTMLFormElement
+        ? Array.from(form.elements)
+        : querySelectorAllDeep('button, input', form);
+
+    return controls.find(control =>
+        (control instanceof HTMLButtonElement && control.type === 'submit') ||
+        (control instanceof HTMLInputElement && (control.type === 'submit' || control.type === 'image'))
+    ) || null;
+}
+
+/**
+ * Build the schema of one form
+ */
+function describeForm(form: Element): FormSchema {
+    // Radios sharing a name become one entry, positioned at the first radio
+    const entries: (FieldElement | HTMLInputElement[])[] = [];
+    const radioGroups = new Map<string, HTMLInputElement[]>();
+
+    for (const element of getFormFields(form)) {
+        if (element instanceof HTMLInputElement && element.type === 'radio' && element.name) {
+            const group = radioGroups.get(element.name);
+            if (group) {
+                group.push(element);
+            } else {
+                const radios = [element];
+                radioGroups.set(element.name, radios);
+                entries.push(radios);
+            }
+        } else {
+            entries.push(element);
+        }
+    }
+
+    const fields = entries.map(entry => Array.isArray(entry) ? describeRadioGroup(entry) : describeField(entry));
+    const submit = findSubmitControl(form);
+    return {
+        id: getElementId(form),
+        name: computeAccessibleName(form, 'form', false),
+        // Attributes, not properties: a field named "action" shadows form.action
+        action: form.getAttribute('action') || '',
+        method: (form.getAttribute('method') || 'get').toLowerCase(),
+        fields,
+        submitId: submit ? getElementId(submit) : null,
+    };
+}
+
+/**
+ * Extract schemas for every form on the page (including role="form" containers)
+ */
+export function extractForms(): FormSchema[] {
+    return querySelectorAllDeep('form, [role="form"]')
+        .filter(form => getFormFields(form).length > 0)
+        .map(describeForm);
+}
@@ -0,0 +1,228 @@
+/**
+ * Frames - Cross-frame coordinate bridge
+ * Tracks this frame's identity and its offset within the top-level viewport
+ */
+
+import type { Rect, HitPoint } from '../shared/protocol';
+import { querySelectorAllDeep } from './shadow';
+
+// Namespace for window.postMessage traffic between our content scripts
+const FRAME_MESSAGE_SOURCE = '__actionmap_frame__';
+
+interface FrameOffsetRequest {
+    source: typeof FRAME_MESSAGE_SOURCE;
+    kind: 'offset_request';
+}
+
+interface FrameOffsetMessage {
+    source: typeof FRAME_MESSAGE_SOURCE;
+    kind: 'offset';
+    x: number;
+    y: number;
+    viewport: { width: number; height: number };
+}
+
+type FrameMessage = FrameOffsetRequest | FrameOffsetMessage;
+
+// Frame ID as assigned by the browser (0 for main frame)
+let frameId = 0;
+
+// Offset of this frame's viewport origin within the top-level viewport
+let offset = { x: 0, y: 0 };
+let topViewport = { width: window.innerWidth, height: window.innerHeight };
+
+// Child frames that asked us for their offset
+const childWindows = new Set<Window>();
+
+let offsetCallback: (() => void) | null = null;
+let isBridgeSetUp = false;
+
+/**
+ * Whether this script runs in the top-level frame
+ */
+export function isTopFrame(): boolean {
+    return window === window.top;
+}
+
+/**
+ * Set the browser-assigned frame ID (provided by the background script)
+ */
+export function setFrameId(id: number): void {
+    frameId = id;
+}
+
+/**
+ * Get the browser-assigned frame ID
+ */
+export function getFrameId(): number {
+    return frameId;
+}
+
+/**
+ * Get the top-level viewport size
+ */
+export function getTopViewport(): { width: number; height: number } {
+    return isTopFrame()
+        ? { width: window.innerWidth, height: window.innerHeight }
+        : topViewport;
+}
+
+/**
+ * Translate a rect from this frame's viewport into top-level viewport coordinates
+ */
+export function toTopLevelRect(rect: Rect): Rect {
+    return {
+        x: Math.round(rect.x + offset.x),
+        y: Math.round(rect.y + offset.y),
+        w: rect.w,
+        h: rect.h,
+    };
+}
+
+/**
+ * Translate a point from this frame's viewport into top-level viewport coordinates
+ */
+export function toTopLevelPoint(point: HitPoint): HitPoint {
+    return {
+        cx: Math.round(point.cx + offset.x),
+        cy: Math.round(point.cy + offset.y),
+    };
+}
+
+/**
+ * Translate a point from top-level viewport coordinates into this frame's viewport
+ */
+export function fromTopLevelPoint(point: HitPoint): HitPoint {
+    return {
+        cx: point.cx - offset.x,
+        cy: point.cy - offset.y,
+    };
+}
+
+/**
+ * Normalize a top-level rect (0-1) relative to the top-level viewport, clamped to
+ * its visible part (an off-screen rect becomes zero-sized at the nearest edge)
+ */
+export function normalizeRect(rect: Rect): Rect {
+    const { width, height } = getTopViewport();
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    const x = clamp(rect.x / width);
+    const y = clamp(rect.y / height);
+    return {
+        x,
+        y,
+        w: clamp((rect.x + rect.w) / width) - x,
+        h: clamp((rect.y + rect.h) / height) - y,
+    };
+}
+
+function isFrameMessage(data: unknown): data is FrameMessage {
+    return typeof data === 'object' && data !== null &&
+        (data as { source?: unknown }).source === FRAME_MESSAGE_SOURCE;
+}
+
+function isValidOffset(message: FrameOffsetMessage): boolean {
+    return Number.isFinite(message.x) && Number.isFinite(message.y) &&
+        typeof message.viewport === 'object' && message.viewport !== null &&
+        message.viewport.width > 0 && message.viewport.height > 0;
+}
+
+/**
+ * Find the <iframe>/<frame> element hosting a child window
+ */
+function findFrameElement(child: Window): HTMLIFrameElement | HTMLFrameElement | null {
+    for (const el of querySelectorAllDeep('iframe, frame')) {
+        if ((el as HTMLIFrameElement).contentWindow === child) return el as HTMLIFrameElement;
+    }
+    return null;
+}
+
+/**
+ * Compute a child frame's offset (its content box) in top-level coordinates
+ */
+function computeChildOffset(frameEl: HTMLIFrameElement | HTMLFrameElement): { x: number; y: number } {
+    const bounds = frameEl.getBoundingClientRect();
+    const style = window.getComputedStyle(frameEl);
+    return {
+        x: offset.x + bounds.left + frameEl.clientLeft + (parseFloat(style.paddingLeft) || 0),
+        y: offset.y + bounds.top + frameEl.clientTop + (parseFloat(style.paddingTop) || 0),
+    };
+}
+
+/**
+ * Send the current offset to a child frame
+ */
+function postOffsetToChild(child: Window): void {
+    const frameEl = findFrameElement(child);
+    if (!frameEl) {
+        childWindows.delete(child);
+        return;
+    }
+
+    const message: FrameOffsetMessage = {
+        source: FRAME_MESSAGE_SOURCE,
+        kind: 'offset',
+        ...computeChildOffset(frameEl),
+        viewport: getTopViewport(),
+    };
+    child.postMessage(message, '*');
+}
+
+/**
+ * Push fresh offsets to every known child frame
+ */
+function broadcastOffsets(): void {
+    for (const child of childWindows) {
+        postOffsetToChild(child);
+    }
+}
+
+/**
+ * Handle frame bridge messages from parent and child frames
+ */
+function handleFrameMessage(event: MessageEvent): void {
+    if (!isFrameMessage(event.data) || !event.source) return;
+
+    const source = event.source as Window;
+
+    // Only our parent sends offsets and only our child frames ask for them;
+    // messages from other windows (openers, popups, sibling frames) are ignored
+    if (event.data.kind === 'offset_request') {
+        if (!findFrameElement(source)) return;
+        childWindows.add(source);
+        postOffsetToChild(source);
+    } else if (event.data.kind === 'offset' && source === window.parent && !isTopFrame() &&
+        isValidOffset(event.data)) {
+        const changed = event.data.x !== offset.x || event.data.y !== offset.y ||
+            event.data.viewport.width !== topViewport.width ||
+            event.data.viewport.height !== topViewport.height;
+
+        offset = { x: event.data.x, y: event.data.y };
+        topViewport = event.data.viewport;
+
+        if (changed) {
+            // Our own children are now shifted too
+            broadcastOffsets();
+            offsetCallback?.();
+        }
+    }
+}
+
+/**
+ * Set up the postMessage bridge used to resolve frame offsets.
+ * The callback fires whenever this frame's offset in the top-level viewport changes.
+ */
+export function setupFrameBridge(onOffsetChange: () => void): void {
+    offsetCallback = onOffsetChange;
+    if (isBridgeSetUp) return;
+    isBridgeSetUp = true;
+
+    window.addEventListener('message', handleFrameMessage);
+    window.addEventListener('scroll', broadcastOffsets, { passive: true, capture: true });
+    window.addEventListener('resize', broadcastOffsets, { passive: true });
+
+    if (!isTopFrame()) {
+        const request: FrameOffsetRequest = { source: FRAME_MESSAGE_SOURCE, kind: 'offset_request' };
+        window.parent.postMessage(request, '*');
+    }
+}
@@ -7,21 +7,54 @@ import type {
     ActionMapSnapshot,
     ActionMapDelta,
     Command,
+    CommandAck,
     TelemetryMessage,
     HelloMessage,
     EventMessage,
+    ConfigureMessage,
+    PageOutline,
+    FormsMessage,
+    TablesMessage,
+    RegionsMessage,
+    PointerPositionMessage,
+    CancelMessage,
 } from '../shared/protocol';
-import { extractActionMap } from './actionmap';
+import { extractActionMap, setExtractOptions, setListItemKeyProvider } from './actionmap';
 import { startWatching, stopWatching, forceUpdate } from './watchers';
 import { executeCommand } from './executor';
+import { startCommand, finishCommand, cancelCommand } from './cancel';
+import { setWorkerTransport, handleWorkerReply } from './worker';
+import type { WorkerReply } from './worker';
+import { setPointerTransport, handlePointerPosition, startPointerTracking } from './pointer';
+import { noteMenuOpened } from './menu';
+import { setFrameId, getFrameId, setupFrameBridge, isTopFrame } from './frames';
+import { extractOutline } from './outline';
+import { extractForms } from './forms';
+import { extractTables } from './tables';
+import { extractVirtualLists, getListItemKey } from './virtuallist';
 
-// Frame ID (0 for main frame)
-const frameId = window === window.top ? 0 : Math.random() * 1000000 | 0;
+// Debounce for page structure (outline, forms, tables, regions) refreshes after DOM changes (ms)
+const STRUCTURE_DEBOUNCE = 1000;
 
 // Connection state
 let isConnected = false;
 let port: chrome.runtime.Port | null = null;
 
+// Page structure state: last payload sent per message type, to skip unchanged ones
+let structureTimeout: number | null = null;
+const lastStructureKeys = new Map<string, string>();
+
+// Structure sections, and the ones a pending refresh will re-extract
+type StructureSection = 'outline' | 'forms' | 'tables' | 'regions';
+const ALL_SECTIONS: StructureSection[] = ['outline', 'forms', 'tables', 'regions'];
+const pendingSections = new Set<StructureSection>();
+
+// Candidate fields that only change as the page scrolls or reflows
+// (the fingerprint's position bucket moves with the rect)
+const GEOMETRY_FIELDS = new Set([
+    'id', 'rect', 'rectN', 'hit', 'inViewport', 'occluded', 'visibleFraction', 'occludedBy', 'fingerprint',
+]);
+
 /**
  * Send message to background script
  */
@@ -59,7 +92,7 @@ function createSnapshotMessage(candidates: ReturnType<typeof extractActionMap>):
     return {
         type: 'snapshot',
         tabId: 0, // Will be filled by background
-        frameId,
+        frameId: getFrameId(),
         url: window.location.href,
         viewport: {
             width: window.innerWidth,
@@ -70,19 +103,162 @@ function createSnapshotMessage(candidates: ReturnType<typeof extractActionMap>):
     };
 }
 
+/**
+ * Create outline message
+ */
+function createOutlineMessage(): PageOutline {
+    return {
+        type: 'outline',
+        tabId: 0, // Will be filled by background
+        frameId: getFrameId(),
+        url: window.location.href,
+        timestamp: Date.now(),
+        ...extractOutline(),
+    };
+}
+
+/**
+ * Create forms message
+ */
+function createFormsMessage(): FormsMessage {
+    return {
+        type: 'forms',
+        tabId: 0, // Will be filled by background
+        frameId: getFrameId(),
+        timestamp: Date.now(),
+        forms: extractForms(),
+    };
+}
+
+/**
+ * Create tables message
+ */
+function createTablesMessage(): TablesMessage {
+    return {
+        type: 'tables',
+        tabId: 0, // Will be filled by background
+        frameId: getFrameId(),
+        timestamp: Date.now(),
+        tables: extractTables(),
+    };
+}
+
+/**
+ * Create regions message
+ */
+function createRegionsMessage(): RegionsMessage {
+    return {
+        type: 'regions',
+        tabId: 0, // Will be filled by background
+        frameId: getFrameId(),
+        timestamp: Date.now(),
+        regions: extractVirtualLists(),
+    };
+}
+
+/**
+ * Send a structure message unless its payload matches the last one sent
+ */
+function sendIfChanged(
+    message: PageOutline | FormsMessage | TablesMessage | RegionsMessage,
+    key: string,
+    force: boolean
+) {
+    if (!force && lastStructureKeys.get(message.type) === key) return;
+
+    lastStructureKeys.set(message.type, key);
+    sendToBackground(message);
+}
+
+/**
+ * Send the page outline, form schemas, tables and regions (or only the given sections)
+ */
+function sendStructure(force = false, sections: Iterable<StructureSection> = ALL_SECTIONS) {
+    const wanted = new Set(sections);
+
+    if (wanted.has('outline')) {
+        const outline = createOutlineMessage();
+        sendIfChanged(outline, JSON.stringify([outline.url, outline.landmarks, outline.headings, outline.textBlocks]), force);
+    }
+
+    if (wanted.has('forms')) {
+        const forms = createFormsMessage();
+        sendIfChanged(forms, JSON.stringify(forms.forms), force);
+    }
+
+    if (wanted.has('tables')) {
+        const tables = createTablesMessage();
+        sendIfChanged(tables, JSON.stringify(tables.tables), force);
+    }
+
+    if (wanted.has('regions')) {
+        const regions = createRegionsMessage();
+        sendIfChanged(regions, JSON.stringify(regions.regions), force);
+    }
+}
+
+/**
+ * Schedule a refresh of the given structure sections (debounced; sections accumulate)
+ */
+function scheduleStructure(sections: StructureSection[]) {
+    for (const section of sections) {
+        pendingSections.add(section);
+    }
+    if (structureTimeout !== null) {
+        clearTimeout(structureTimeout);
+    }
+    structureTimeout = window.setTimeout(() => {
+        structureTimeout = null;
+        const due = [...pendingSections];
+        pendingSections.clear();
+        sendStructure(false, due);
+    }, STRUCTURE_DEBOUNCE);
+}
+
+/**
+ * Structure sections a delta can affect: scrolling only moves the outline's text in
+ * view and list ranges, value and state changes also touch forms, anything else all
+ */
+function getDeltaSections(delta: ActionMapDelta): StructureSection[] {
+    if (delta.added.length > 0 || delta.removed.length > 0) return ALL_SECTIONS;
+
+    const fields = delta.updated.flatMap(update => Object.keys(update));
+    if (fields.every(field => GEOMETRY_FIELDS.has(field))) return ['outline', 'regions'];
+    if (fields.every(field => GEOMETRY_FIELDS.has(field) || field === 'value' || field === 'state')) {
+        return ['outline', 'forms', 'regions'];
+    }
+    return ALL_SECTIONS;
+}
+
 /**
  * Handle delta from watchers
  */
 function handleDelta(delta: ActionMapDelta) {
-    delta.frameId = frameId;
+    delta.frameId = getFrameId();
     sendToBackground(delta);
+    scheduleStructure(getDeltaSections(delta));
 }
 
 /**
  * Handle incoming command from background
  */
 async function handleCommand(command: Command) {
-    const ack = await executeCommand(command);
+    const signal = startCommand(command.commandId, command.timeoutMs);
+    let ack: CommandAck;
+    try {
+        ack = await executeCommand(command, signal);
+    } catch (error) {
+        // Never leave the backend waiting out its timeout for an ack
+        ack = {
+            type: 'ack',
+            commandId: command.commandId,
+            status: 'fail',
+            reason: (error as Error).message || String(error),
+            timestamp: Date.now(),
+        };
+    } finally {
+        finishCommand(command.commandId);
+    }
     sendToBackground(ack as unknown as TelemetryMessage);
 }
 
@@ -95,12 +271,33 @@ function connect() {
     }
 
     port = chrome.runtime.connect({ name: 'actionmap' });
+    setWorkerTransport(request => port?.postMessage(request));
+    setPointerTransport(message => port?.postMessage(message));
 
-    port.onMessage.addListener((message: Command | { type: string }) => {
-        if (message.type === 'request_snapshot') {
+    port.onMessage.addListener((message: Command | { type: string; frameId?: number }) => {
+        if (message.type === 'frame_info') {
+            // Background tells us which frame we are; ids and telemetry depend on it
+            setFrameId((message as { frameId: number }).frameId);
+            startPerception();
+        } else if (message.type === 'configure') {
+            // Backend changed perception options; re-extract with them
+            setExtractOptions((message as ConfigureMessage).options);
+            forceUpdate();
+        } else if (message.type === 'request_snapshot') {
             // Background requesting fresh snapshot
             const candidates = extractActionMap();
             sendToBackground(createSnapshotMessage(candidates));
+            sendStructure(true);
+        } else if (message.type === 'pointer_position') {
+            // Another frame of the tab moved the pointer
+            handlePointerPosition(message as PointerPositionMessage);
+        } else if (message.type === 'trusted_input_result' || message.type === 'capture_patch_result') {
+            // Service worker answered a request (trusted input, screenshot)
+            handleWorkerReply(message as WorkerReply);
+        } else if (message.type === 'cancel') {
+            // Stop a running command (if this frame runs it); it acks as cancelled
+            const cancel = message as CancelMessage;
+            cancelCommand(cancel.commandId, cancel.reason);
         } else if ('commandId' in message) {
             // Execute command
             handleCommand(message as Command);
@@ -110,6 +307,8 @@ function connect() {
     port.onDisconnect.addListener(() => {
         isConnected = false;
         port = null;
+        setWorkerTransport(null);
+        setPointerTransport(null);
         stopWatching();
 
         // Try to reconnect after delay
@@ -125,9 +324,16 @@ function connect() {
     // Send hello
     sendToBackground(createHelloMessage());
 
-    // Start watching and send initial snapshot
+    // Watching starts once the background has sent our frame_info
+}
+
+/**
+ * Start watching and send initial snapshot
+ */
+function startPerception() {
     const candidates = startWatching(handleDelta);
     sendToBackground(createSnapshotMessage(candidates));
+    sendStructure(true);
 }
 
 /**
@@ -176,6 +382,7 @@ function setupModalDetection() {
                                 timestamp: Date.now(),
                             } as EventMessage);
                         } else if (role === 'menu' || role === 'listbox') {
+                            if (role === 'menu') noteMenuOpened(node);
                             sendToBackground({
                                 type: 'event',
                                 tabId: 0,
@@ -219,18 +426,29 @@ function setupModalDetection() {
  * Initialize content script
  */
 function init() {
-    // Don't run in iframes for now (can enable later for frame support)
-    if (window !== window.top) {
-        return;
-    }
+    console.log(`[ActionMap] Initializing content script (${isTopFrame() ? 'top frame' : 'subframe'})`);
 
-    console.log('[ActionMap] Initializing content script');
+    // Keep candidate rects in top-level coordinates when our frame moves
+    setupFrameBridge(forceUpdate);
+
+    // Identify candidates in recycled list rows by item, not by element
+    setListItemKeyProvider(getListItemKey);
 
     // Set up event listeners
     document.addEventListener('visibilitychange', handleVisibilityChange);
     window.addEventListener('load', () => handleNavigation('load'));
     window.addEventListener('beforeunload', () => handleNavigation('unload'));
 
+    // Field edits don't mutate the DOM; refresh form schemas on input
+    document.addEventListener('input', () => scheduleStructure(['forms']), true);
+    document.addEventListener('change', () => scheduleStructure(['forms']), true);
+
+    // Visible ranges of scrolled lists (and text in view) change without mutations
+    document.addEventListener('scroll', () => scheduleStructure(['outline', 'regions']), { capture: true, passive: true });
+
+    // Mouse moves and hovers start from where the pointer really is
+    startPointerTracking();
+
     // Set up modal detection
     if (document.body) {
         setupModalDetection();
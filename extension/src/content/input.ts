@@ -0,0 +1,217 @@
+/**
+ * Input - Framework-safe text entry
+ * Native value setters, browser-ordered key/input events, and execCommand for rich editors
+ */
+
+import type { TypeCommand } from '../shared/protocol';
+import { sleep } from './cancel';
+
+export type TextField = HTMLInputElement | HTMLTextAreaElement;
+export type TypeMode = NonNullable<TypeCommand['mode']>;
+
+/**
+ * Set a field's value through the prototype setter. React (and other trackers)
+ * shadow the instance's value property; assigning through it is ignored on the
+ * next input event and the controlled value reverts.
+ */
+export function setNativeValue(element: TextField, value: string): void {
+    const prototype = element instanceof HTMLTextAreaElement ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+    const setter = Object.getOwnPropertyDescriptor(prototype, 'value')?.set;
+    if (setter) {
+        setter.call(element, value);
+    } else {
+        element.value = value;
+    }
+}
+
+/**
+ * Dispatch a key event; returns false if the page cancelled it
+ */
+function dispatchKey(target: Element, type: 'keydown' | 'keypress' | 'keyup', key: string): boolean {
+    return target.dispatchEvent(new KeyboardEvent(type, {
+        key,
+        bubbles: true,
+        cancelable: true,
+        composed: true,
+    }));
+}
+
+/**
+ * Dispatch beforeinput; returns false if the page cancelled the edit
+ */
+export function dispatchBeforeInput(target: Element, inputType: string, data: string | null): boolean {
+    return target.dispatchEvent(new InputEvent('beforeinput', {
+        inputType,
+        data,
+        bubbles: true,
+        cancelable: true,
+        composed: true,
+    }));
+}
+
+export function dispatchInput(target: Element, inputType: string, data: string | null): void {
+    target.dispatchEvent(new InputEvent('input', {
+        inputType,
+        data,
+        bubbles: true,
+        composed: true,
+    }));
+}
+
+async function pause(delay?: number, signal?: AbortSignal): Promise<void> {
+    if (delay) {
+        await sleep(delay, signal);
+    }
+}
+
+/**
+ * Move the caret; some input types (email, number) don't support selection
+ */
+export function setCaret(element: TextField, position: number): void {
+    try {
+        element.setSelectionRange(position, position);
+    } catch {
+        // Unsupported for this input type; the value setter leaves the caret at the end
+    }
+}
+
+/**
+ * Type into an input or textarea one character at a time, firing
+ * keydown → keypress → beforeinput → input → keyup per character and change at the end.
+ * Cancelled keydown/beforeinput and maxlength are respected like real typing.
+ * Returns the value the field should end up with.
+ */
+export async function typeIntoField(element: TextField, text: string, mode: TypeMode, delay?: number, signal?: AbortSignal): Promise<string> {
+    element.focus();
+
+    if (mode === 'replace' && element.value !== '' && dispatchBeforeInput(element, 'deleteContentBackward', null)) {
+        setNativeValue(element, '');
+        dispatchInput(element, 'deleteContentBackward', null);
+    }
+
+    const original = element.value;
+    const expected = mode === 'prepend' ? text + original : original + text;
+    let inserted = 0;
+
+    for (const char of text) {
+        if (dispatchKey(element, 'keydown', char)) {
+            dispatchKey(element, 'keypress', char);
+
+            const value = element.value;
+            const full = element.maxLength >= 0 && value.length >= element.maxLength;
+            if (!full && dispatchBeforeInput(element, 'insertText', char)) {
+                // Frameworks may reformat the value between keystrokes; clamp to it
+                const position = mode === 'prepend' ? Math.min(inserted, value.length) : value.length;
+                setNativeValue(element, value.slice(0, position) + char + value.slice(position));
+                inserted += char.length;
+                setCaret(element, position + char.length);
+                dispatchInput(element, 'insertText', char);
+            }
+        }
+        dispatchKey(element, 'keyup', char);
+
+        await pause(delay, signal);
+    }
+
+    element.dispatchEvent(new Event('change', { bubbles: true }));
+    return expected;
+}
+
+/**
+ * Text of a contenteditable as a user would read it (zero-width and
+ * non-breaking spaces normalized, whitespace collapsed)
+ */
+export function getEditableText(element: HTMLElement): string {
+    return (element.innerText || element.textContent || '')
+        .replace(/[\u200B\uFEFF]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Insert text at the caret. execCommand goes through the browser's editing
+ * pipeline, so rich editors (ProseMirror, Draft.js, Slate) see the beforeinput
+ * and input events they handle; otherwise mimic them and insert a text node.
+ */
+export function insertText(element: HTMLElement, text: string): void {
+    if (document.execCommand('insertText', false, text)) return;
+    if (!dispatchBeforeInput(element, 'insertText', text)) return;
+
+    const selection = window.getSelection();
+    if (selection && selection.rangeCount > 0) {
+        const range = selection.getRangeAt(0);
+        range.deleteContents();
+        const node = document.createTextNode(text);
+        range.insertNode(node);
+        range.setStartAfter(node);
+        range.collapse(true);
+        selection.removeAllRanges();
+        selection.addRange(range);
+    } else {
+        element.append(text);
+    }
+    dispatchInput(element, 'insertText', text);
+}
+
+/**
+ * Delete the current selection, through execCommand when possible
+ */
+function deleteSelection(element: HTMLElement): void {
+    if (document.execCommand('delete')) return;
+    if (!dispatchBeforeInput(element, 'deleteContentBackward', null)) return;
+
+    window.getSelection()?.deleteFromDocument();
+    dispatchInput(element, 'deleteContentBackward', null);
+}
+
+/**
+ * Place the caret for a typing mode: select everything to replace it,
+ * otherwise collapse to the start (prepend) or end (append)
+ */
+export function placeCaret(element: TextField | HTMLElement, mode: TypeMode): void {
+    if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+        if (mode === 'replace') {
+            element.select();
+        } else {
+            setCaret(element, mode === 'prepend' ? 0 : element.value.length);
+        }
+        return;
+    }
+
+    const selection = window.getSelection();
+    const range = document.createRange();
+    range.selectNodeContents(element);
+    if (mode !== 'replace') {
+        range.collapse(mode === 'prepend');
+    }
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+}
+
+/**
+ * Type into a contenteditable: place the caret for the mode, then insert each
+ * character between keydown and keyup. Returns the text it should end up with.
+ */
+export async function typeIntoEditable(element: HTMLElement, text: string, mode: TypeMode, delay?: number, signal?: AbortSignal): Promise<string> {
+    element.focus();
+    placeCaret(element, mode);
+
+    if (mode === 'replace' && getEditableText(element) !== '') {
+        deleteSelection(element);
+    }
+
+    const original = getEditableText(element);
+    const expected = (mode === 'prepend' ? text + original : original + text).replace(/\s+/g, ' ').trim();
+
+    for (const char of text) {
+        if (dispatchKey(element, 'keydown', char)) {
+            dispatchKey(element, 'keypress', char);
+            insertText(element, char);
+        }
+        dispatchKey(element, 'keyup', char);
+
+        await pause(delay, signal);
+    }
+
+    return expected;
+}
@@ -0,0 +1,430 @@
+/**
+ * Keys - Keyboard chords and key presses
+ * Key definitions, chord parsing, and the default actions synthetic key events don't trigger
+ */
+
+import type { KeyCommand } from '../shared/protocol';
+import { setNativeValue, dispatchBeforeInput, dispatchInput, setCaret, insertText } from './input';
+import type { TextField } from './input';
+import { querySelectorAllDeep } from './shadow';
+import { sleep } from './cancel';
+
+export type Modifier = NonNullable<KeyCommand['modifiers']>[number];
+
+export interface KeyDefinition {
+    key: string;
+    code: string;
+    keyCode: number;
+}
+
+export const MODIFIER_KEYS: Record<Modifier, KeyDefinition> = {
+    ctrl: { key: 'Control', code: 'ControlLeft', keyCode: 17 },
+    shift: { key: 'Shift', code: 'ShiftLeft', keyCode: 16 },
+    alt: { key: 'Alt', code: 'AltLeft', keyCode: 18 },
+    meta: { key: 'Meta', code: 'MetaLeft', keyCode: 91 },
+};
+
+const NAMED_KEYS: KeyDefinition[] = [
+    { key: 'Enter', code: 'Enter', keyCode: 13 },
+    { key: 'Tab', code: 'Tab', keyCode: 9 },
+    { key: 'Escape', code: 'Escape', keyCode: 27 },
+    { key: 'Backspace', code: 'Backspace', keyCode: 8 },
+    { key: 'Delete', code: 'Delete', keyCode: 46 },
+    { key: ' ', code: 'Space', keyCode: 32 },
+    { key: 'ArrowUp', code: 'ArrowUp', keyCode: 38 },
+    { key: 'ArrowDown', code: 'ArrowDown', keyCode: 40 },
+    { key: 'ArrowLeft', code: 'ArrowLeft', keyCode: 37 },
+    { key: 'ArrowRight', code: 'ArrowRight', keyCode: 39 },
+    { key: 'Home', code: 'Home', keyCode: 36 },
+    { key: 'End', code: 'End', keyCode: 35 },
+    { key: 'PageUp', code: 'PageUp', keyCode: 33 },
+    { key: 'PageDown', code: 'PageDown', keyCode: 34 },
+    { key: 'Insert', code: 'Insert', keyCode: 45 },
+    ...Array.from({ length: 12 }, (_, i) => ({ key: `F${i + 1}`, code: `F${i + 1}`, keyCode: 112 + i })),
+    ...Object.values(MODIFIER_KEYS),
+];
+
+const KEY_ALIASES: Record<string, string> = {
+    esc: 'Escape',
+    return: 'Enter',
+    space: ' ',
+    del: 'Delete',
+    up: 'ArrowUp',
+    down: 'ArrowDown',
+    left: 'ArrowLeft',
+    right: 'ArrowRight',
+    pgup: 'PageUp',
+    pgdn: 'PageDown',
+};
+
+const MODIFIER_ALIASES: Record<string, Modifier> = {
+    ctrl: 'ctrl',
+    control: 'ctrl',
+    shift: 'shift',
+    alt: 'alt',
+    option: 'alt',
+    meta: 'meta',
+    cmd: 'meta',
+    command: 'meta',
+};
+
+// Input types that hold editable text
+const TEXT_INPUT_TYPES = new Set(['text', 'search', 'url', 'tel', 'password', 'email', 'number']);
+
+const FOCUSABLE_SELECTORS = 'a[href], button, input, select, textarea, summary, [tabindex], [contenteditable="true"]';
+
+/**
+ * Look up a key's code and legacy keyCode
+ */
+export function getKeyDefinition(key: string): KeyDefinition {
+    const named = NAMED_KEYS.find(definition => definition.key.toLowerCase() === key.toLowerCase());
+    if (named) return named;
+
+    const upper = key.toUpperCase();
+    if (/^[A-Z]$/.test(upper)) return { key, code: `Key${upper}`, keyCode: upper.charCodeAt(0) };
+    if (/^[0-9]$/.test(key)) return { key, code: `Digit${key}`, keyCode: key.charCodeAt(0) };
+    return { key, code: '', keyCode: 0 };
+}
+
+/**
+ * Parse a chord like "Enter", "Ctrl+K", "Meta+Shift+P" or "Ctrl++"
+ */
+export function parseChord(chord: string): { key: string; modifiers: Modifier[] } {
+    const parts = chord.length > 1 && chord.endsWith('++')
+        ? [...chord.slice(0, -2).split('+'), '+']
+        : chord === '+' ? ['+'] : chord.split('+');
+    const name = parts.pop() || '';
+
+    const modifiers = parts.map(part => {
+        const modifier = MODIFIER_ALIASES[part.trim().toLowerCase()];
+        if (!modifier) throw new Error(`Unknown modifier in "${chord}": ${part}`);
+        return modifier;
+    });
+
+    let key = KEY_ALIASES[name.toLowerCase()] ?? name;
+    if (key.length === 1 && modifiers.includes('shift')) key = key.toUpperCase();
+    return { key, modifiers };
+}
+
+/**
+ * The focused element, following focus into open shadow roots
+ */
+export function getFocusedElement(): Element {
+    let element = document.activeElement;
+    while (element?.shadowRoot?.activeElement) {
+        element = element.shadowRoot.activeElement;
+    }
+    return element || document.body;
+}
+
+function dispatchKeyEvent(target: Element, type: string, definition: KeyDefinition, held: Set<Modifier>): boolean {
+    return target.dispatchEvent(new KeyboardEvent(type, {
+        key: definition.key,
+        code: definition.code,
+        keyCode: definition.keyCode,
+        which: definition.keyCode,
+        ctrlKey: held.has('ctrl'),
+        shiftKey: held.has('shift'),
+        altKey: held.has('alt'),
+        metaKey: held.has('meta'),
+        bubbles: true,
+        cancelable: true,
+        composed: true,
+    }));
+}
+
+function isTextField(element: Element): element is TextField {
+    return element instanceof HTMLTextAreaElement ||
+        (element instanceof HTMLInputElement && TEXT_INPUT_TYPES.has(element.type));
+}
+
+/**
+ * Replace a range of a field's value, with beforeinput/input like a real edit
+ */
+function replaceRange(field: TextField, from: number, to: number, text: string, inputType: string): void {
+    if (!dispatchBeforeInput(field, inputType, text || null)) return;
+
+    const value = field.value;
+    setNativeValue(field, value.slice(0, from) + text + value.slice(to));
+    setCaret(field, from + text.length);
+    dispatchInput(field, inputType, text || null);
+}
+
+/**
+ * Move the caret (or extend the selection with Shift) in a field
+ */
+function moveCaret(field: TextField, key: string, extend: boolean): void {
+    // email and number inputs have no selection API
+    if (field.selectionStart === null || field.selectionEnd === null) return;
+
+    const value = field.value;
+    const start = field.selectionStart;
+    const end = field.selectionEnd;
+    const backward = field.selectionDirection === 'backward';
+    const focus = backward ? start : end;
+    const anchor = backward ? end : start;
+
+    let position: number;
+    switch (key) {
+        case 'Home':
+            position = value.lastIndexOf('\n', focus - 1) + 1;
+            break;
+        case 'End':
+            position = value.indexOf('\n', focus);
+            if (position === -1) position = value.length;
+            break;
+        case 'ArrowLeft':
+            position = start !== end && !extend ? start : Math.max(0, focus - 1);
+            break;
+        default:
+            position = start !== end && !extend ? end : Math.min(value.length, focus + 1);
+    }
+
+    if (extend) {
+        field.setSelectionRange(Math.min(anchor, position), Math.max(anchor, position),
+            position < anchor ? 'backward' : 'forward');
+    } else {
+        field.setSelectionRange(position, position);
+    }
+}
+
+/**
+ * Text-editing default actions in an input or textarea
+ */
+function editField(field: TextField, key: string, shift: boolean): void {
+    const value = field.value;
+    const start = field.selectionStart ?? value.length;
+    const end = field.selectionEnd ?? value.length;
+
+    switch (key) {
+        case 'Backspace':
+        case 'Delete': {
+            const forward = key === 'Delete';
+            const from = start !== end || forward ? start : Math.max(0, start - 1);
+            const to = start !== end || !forward ? end : Math.min(value.length, end + 1);
+            if (from !== to) {
+                replaceRange(field, from, to, '', forward ? 'deleteContentForward' : 'deleteContentBackward');
+            }
+            break;
+        }
+        case 'Home':
+        case 'End':
+        case 'ArrowLeft':
+        case 'ArrowRight':
+            moveCaret(field, key, shift);
+            break;
+        case 'Enter':
+            if (field instanceof HTMLTextAreaElement) {
+                replaceRange(field, start, end, '\n', 'insertLineBreak');
+            } else {
+                // Implicit submission
+                field.form?.requestSubmit();
+            }
+            break;
+        default:
+            if (key.length === 1) {
+                replaceRange(field, start, end, key, 'insertText');
+            }
+    }
+}
+
+/**
+ * Text-editing default actions in a contenteditable, through the browser's editing commands
+ */
+function editEditable(element: HTMLElement, key: string, shift: boolean): void {
+    const selection = window.getSelection();
+    const alter = shift ? 'extend' : 'move';
+
+    switch (key) {
+        case 'Backspace':
+            document.execCommand('delete');
+            break;
+        case 'Delete':
+            document.execCommand('forwardDelete');
+            break;
+        case 'Enter':
+            document.execCommand(shift ? 'insertLineBreak' : 'insertParagraph');
+            break;
+        case 'Home':
+        case 'End':
+            selection?.modify(alter, key === 'Home' ? 'backward' : 'forward', 'lineboundary');
+            break;
+        case 'ArrowLeft':
+        case 'ArrowRight':
+            selection?.modify(alter, key === 'ArrowLeft' ? 'backward' : 'forward', 'character');
+            break;
+        case 'ArrowUp':
+        case 'ArrowDown':
+            selection?.modify(alter, key === 'ArrowUp' ? 'backward' : 'forward', 'line');
+            break;
+        default:
+            if (key.length === 1) {
+                insertText(element, key);
+            }
+    }
+}
+
+/**
+ * Select all text in a field or editable, or the whole page
+ */
+function selectAll(target: Element): void {
+    if (isTextField(target)) {
+        target.select();
+    } else if (target instanceof HTMLElement && target.isContentEditable) {
+        document.execCommand('selectAll');
+    } else {
+        window.getSelection()?.selectAllChildren(document.body);
+    }
+}
+
+/**
+ * Move focus to the next (or previous) focusable element in document order
+ */
+function moveFocus(from: Element, backward: boolean): void {
+    const focusable = querySelectorAllDeep(FOCUSABLE_SELECTORS).filter(element =>
+        element instanceof HTMLElement &&
+        element.tabIndex >= 0 &&
+        !(element as HTMLInputElement).disabled &&
+        element.getBoundingClientRect().width > 0
+    ) as HTMLElement[];
+    if (focusable.length === 0) return;
+
+    const index = focusable.indexOf(from as HTMLElement);
+    const next = index === -1
+        ? (backward ? focusable.length - 1 : 0)
+        : (index + (backward ? -1 : 1) + focusable.length) % focusable.length;
+    focusable[next].focus();
+}
+
+/**
+ * Enter/Space activation of buttons, links and toggles
+ */
+function activate(target: Element, key: string): void {
+    if (!(target instanceof HTMLElement)) return;
+
+    const role = target.getAttribute('role');
+    const type = target instanceof HTMLInputElement ? target.type : '';
+    const isLink = (target instanceof HTMLAnchorElement && target.hasAttribute('href')) || role === 'link';
+    const isButton = target instanceof HTMLButtonElement || target.tagName === 'SUMMARY' ||
+        ['submit', 'button', 'reset', 'image'].includes(type) || role === 'button';
+    const isToggle = type === 'checkbox' || type === 'radio' ||
+        role === 'checkbox' || role === 'switch' || role === 'radio';
+
+    if ((key === 'Enter' && (isLink || isButton)) || (key === ' ' && (isButton || isToggle))) {
+        target.click();
+    }
+}
+
+/**
+ * Scroll the page for navigation keys pressed outside editable content
+ */
+function scrollPage(key: string, shift: boolean): void {
+    const page = window.innerHeight * 0.875;
+    switch (key) {
+        case 'PageDown':
+            window.scrollBy(0, page);
+            break;
+        case 'PageUp':
+            window.scrollBy(0, -page);
+            break;
+        case ' ':
+            window.scrollBy(0, shift ? -page : page);
+            break;
+        case 'ArrowDown':
+            window.scrollBy(0, 40);
+            break;
+        case 'ArrowUp':
+            window.scrollBy(0, -40);
+            break;
+        case 'Home':
+            window.scrollTo(0, 0);
+            break;
+        case 'End':
+            window.scrollTo(0, document.documentElement.scrollHeight);
+            break;
+    }
+}
+
+/**
+ * Perform what the browser would do for an uncancelled key press
+ */
+function performDefaultAction(target: Element, key: string, held: Set<Modifier>): void {
+    const shortcut = held.has('ctrl') || held.has('meta');
+    if (shortcut) {
+        if (key.toLowerCase() === 'a') selectAll(target);
+        // Other shortcuts are for the page to handle
+        return;
+    }
+
+    if (key === 'Tab') {
+        moveFocus(target, held.has('shift'));
+    } else if (isTextField(target)) {
+        editField(target, key, held.has('shift'));
+    } else if (target instanceof HTMLElement && target.isContentEditable) {
+        editEditable(target, key, held.has('shift'));
+    } else if (key === 'Enter' || key === ' ') {
+        activate(target, key);
+        if (key === ' ' && (target === document.body || target === document.documentElement)) {
+            scrollPage(key, held.has('shift'));
+        }
+    } else if (target === document.body || target === document.documentElement) {
+        scrollPage(key, held.has('shift'));
+    }
+}
+
+/**
+ * Press a key chord: modifiers go down in order, the key is pressed `repeat`
+ * times (keydown → keypress for characters → default action → keyup), then the
+ * modifiers are released in reverse. Presses follow focus if a handler moves it.
+ * Returns the element the last press went to.
+ */
+export async function pressChord(
+    target: Element,
+    chord: string,
+    extraModifiers: Modifier[] = [],
+    repeat = 1,
+    delay = 0,
+    signal?: AbortSignal
+): Promise<Element> {
+    const { key, modifiers } = parseChord(chord);
+    const definition = getKeyDefinition(key);
+    const order = Array.from(new Set([...extraModifiers, ...modifiers]));
+    const held = new Set<Modifier>();
+    let current = target;
+
+    for (const modifier of order) {
+        held.add(modifier);
+        dispatchKeyEvent(current, 'keydown', MODIFIER_KEYS[modifier], held);
+    }
+
+    try {
+        for (let i = 0; i < repeat; i++) {
+            const focusedBefore = getFocusedElement();
+            const printable = key.length === 1 && !held.has('ctrl') && !held.has('meta') && !held.has('alt');
+
+            let proceed = dispatchKeyEvent(current, 'keydown', definition, held);
+            if (proceed && printable) {
+                proceed = dispatchKeyEvent(current, 'keypress', definition, held);
+            }
+            if (proceed) {
+                performDefaultAction(current, key, held);
+            }
+            dispatchKeyEvent(current, 'keyup', definition, held);
+
+            const focusedAfter = getFocusedElement();
+            if (focusedAfter !== focusedBefore) current = focusedAfter;
+
+            if (delay && i < repeat - 1) {
+                await sleep(delay, signal);
+            }
+        }
+    } finally {
+        // Release the modifiers even when cancelled between presses
+        for (const modifier of order.reverse()) {
+            held.delete(modifier);
+            dispatchKeyEvent(current, 'keyup', MODIFIER_KEYS[modifier], held);
+        }
+    }
+
+    return current;
+}
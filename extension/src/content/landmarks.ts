@@ -0,0 +1,131 @@
+/**
+ * Landmarks - Page structure lookups
+ * Landmark containers and headings that place an element within the page
+ */
+
+import { closestComposed, getComposedParent, querySelectorAllDeep } from './shadow';
+
+// Landmark containers that make up an element's "where on the page" path
+export const LANDMARK_SELECTORS = [
+    'header',
+    'footer',
+    'nav',
+    'main',
+    'aside',
+    'form',
+    'dialog',
+    'section[aria-label]',
+    'section[aria-labelledby]',
+    '[role="banner"]',
+    '[role="contentinfo"]',
+    '[role="navigation"]',
+    '[role="main"]',
+    '[role="complementary"]',
+    '[role="form"]',
+    '[role="region"]',
+    '[role="search"]',
+    '[role="dialog"]',
+    '[role="alertdialog"]',
+].join(', ');
+
+export const HEADING_SELECTORS = 'h1, h2, h3, h4, h5, h6, [role="heading"]';
+
+// Implicit landmark roles of sectioning elements
+const IMPLICIT_LANDMARK_ROLES: Record<string, string> = {
+    header: 'banner',
+    footer: 'contentinfo',
+    nav: 'navigation',
+    main: 'main',
+    aside: 'complementary',
+    form: 'form',
+    dialog: 'dialog',
+    section: 'region',
+};
+
+/**
+ * Get the landmark role of a landmark container
+ */
+export function getLandmarkRole(element: Element): string {
+    return element.getAttribute('role') || IMPLICIT_LANDMARK_ROLES[element.tagName.toLowerCase()] || 'region';
+}
+
+/**
+ * Get the heading level (1-6) of a heading element
+ */
+export function getHeadingLevel(element: Element): number {
+    const match = /^H([1-6])$/.exec(element.tagName);
+    if (match) return parseInt(match[1], 10);
+    return parseInt(element.getAttribute('aria-level') || '', 10) || 2;
+}
+
+/**
+ * Get the innermost landmark containing an element (excluding the element itself)
+ */
+export function findLandmark(element: Element): Element | null {
+    const parent = getComposedParent(element);
+    return parent ? closestComposed(parent, LANDMARK_SELECTORS) : null;
+}
+
+/**
+ * Get the chain of landmark containers (outermost first)
+ */
+export function getLandmarkAncestors(element: Element): Element[] {
+    const path: Element[] = [];
+    let current = getComposedParent(element);
+    while (current && current !== document.body) {
+        if (current.matches(LANDMARK_SELECTORS)) {
+            path.unshift(current);
+        }
+        current = getComposedParent(current);
+    }
+    return path;
+}
+
+/**
+ * Outermost shadow host of an element (or the element itself in the light DOM),
+ * used to compare document order across shadow trees
+ */
+function getDocumentAnchor(element: Element): Element {
+    let anchor = element;
+    let root = anchor.getRootNode();
+    while (root instanceof ShadowRoot) {
+        anchor = root.host;
+        root = anchor.getRootNode();
+    }
+    return anchor;
+}
+
+function precedes(a: Element, b: Element): boolean {
+    const anchorA = getDocumentAnchor(a);
+    const anchorB = getDocumentAnchor(b);
+    if (anchorA === anchorB) {
+        return a === b ? false : (a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING) !== 0;
+    }
+    return (anchorA.compareDocumentPosition(anchorB) & Node.DOCUMENT_POSITION_FOLLOWING) !== 0;
+}
+
+/**
+ * Build a lookup for the nearest heading preceding an element in document order.
+ * Collects headings once so repeated lookups during extraction are O(log n).
+ */
+export function createHeadingIndex(): (element: Element) => Element | null {
+    const headings = querySelectorAllDeep(HEADING_SELECTORS)
+        .sort((a, b) => (precedes(a, b) ? -1 : precedes(b, a) ? 1 : 0));
+
+    return (element: Element) => {
+        let low = 0;
+        let high = headings.length - 1;
+        let found: Element | null = null;
+        while (low <= high) {
+            const mid = (low + high) >> 1;
+            const heading = headings[mid];
+            if (heading === element || precedes(heading, element)) {
+                found = heading;
+                low = mid + 1;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return found;
+    };
+}
@@ -0,0 +1,204 @@
+/**
+ * Menu - Cascading menu navigation
+ * Hovers through menu levels keeping the pointer inside each submenu's safe triangle
+ */
+
+import { computeAccessibleName } from './accname';
+import { getElementId } from './actionmap';
+import { movePointer, getPointerPosition } from './pointer';
+import type { Point } from './easing';
+import { querySelectorAllDeep, containsComposed } from './shadow';
+import { sleep } from './cancel';
+
+const MENU_ITEM_SELECTOR = '[role="menuitem"], [role="menuitemcheckbox"], [role="menuitemradio"]';
+
+// Top-level entries can also be plain buttons and links that open a menu
+const MENU_ROOT_SELECTOR = `${MENU_ITEM_SELECTOR}, button, a[href], [aria-haspopup]`;
+
+const MENU_SELECTOR = '[role="menu"], [role="menubar"]';
+
+const POLL_INTERVAL = 50;
+
+// How far inside the parent item's edge the pointer waits before crossing (px)
+const EDGE_INSET = 4;
+
+// Menus opened recently (from the modal/menu detection observer), newest last
+const openedMenus: { menu: Element; at: number }[] = [];
+const MAX_OPENED = 20;
+
+export interface MenuStep {
+    label: string;
+    id: string;
+}
+
+/**
+ * Record a menu that was just added to the page
+ */
+export function noteMenuOpened(menu: Element): void {
+    openedMenus.push({ menu, at: Date.now() });
+    if (openedMenus.length > MAX_OPENED) openedMenus.shift();
+}
+
+function isShown(element: Element): boolean {
+    const bounds = element.getBoundingClientRect();
+    return bounds.width > 0 && bounds.height > 0;
+}
+
+function getItemLabel(item: Element): string {
+    return computeAccessibleName(item, item.getAttribute('role') || 'menuitem').trim();
+}
+
+/**
+ * Find the visible item with a label (exact, then partial, case-insensitive) in a scope
+ */
+function findItem(label: string, scope: Document | Element, selector: string): { item: Element | null; labels: string[] } {
+    const query = label.trim().toLowerCase();
+    const items = querySelectorAllDeep(selector, scope).filter(item =>
+        isShown(item) && item.getAttribute('aria-disabled') !== 'true'
+    );
+    const labels = items.map(getItemLabel);
+    const lower = labels.map(l => l.toLowerCase());
+
+    let index = lower.indexOf(query);
+    if (index === -1) index = lower.findIndex(l => l.includes(query));
+    return { item: index !== -1 ? items[index] : null, labels: labels.filter(Boolean) };
+}
+
+/**
+ * The submenu an item opened: its aria-controls/aria-owns target, a menu added
+ * since the hover started, a nested menu inside it, or the newest other visible menu
+ */
+function findSubmenu(item: Element, since: number): Element | null {
+    const root = item.getRootNode() as Document | ShadowRoot;
+    const refs = `${item.getAttribute('aria-controls') || ''} ${item.getAttribute('aria-owns') || ''}`;
+    for (const id of refs.split(/\s+/).filter(Boolean)) {
+        const target = root.getElementById(id) || document.getElementById(id);
+        if (target && isShown(target)) return target;
+    }
+
+    for (let i = openedMenus.length - 1; i >= 0 && openedMenus[i].at >= since; i--) {
+        const { menu } = openedMenus[i];
+        if (menu.isConnected && isShown(menu) && !containsComposed(menu, item)) return menu;
+    }
+
+    const nested = querySelectorAllDeep('[role="menu"]', item).find(isShown);
+    if (nested) return nested;
+
+    if (item.getAttribute('aria-expanded') !== 'true') return null;
+    const menus = querySelectorAllDeep(MENU_SELECTOR).filter(menu => isShown(menu) && !containsComposed(menu, item));
+    return menus[menus.length - 1] || null;
+}
+
+async function waitForSubmenu(item: Element, since: number, timeout: number, signal?: AbortSignal): Promise<Element | null> {
+    const deadline = Date.now() + timeout;
+    while (true) {
+        const submenu = findSubmenu(item, since);
+        if (submenu || Date.now() >= deadline) return submenu;
+        await sleep(POLL_INTERVAL, signal);
+    }
+}
+
+function centerOf(element: Element): Point {
+    const bounds = element.getBoundingClientRect();
+    return { x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 2 };
+}
+
+/**
+ * Move onto an item. From a parent item, first slide inside it to the edge facing the
+ * submenu, then go straight for the target: a straight line from there never leaves
+ * the triangle between the pointer and the submenu's near edge, so menus that keep
+ * the submenu open while the pointer is in that triangle don't close it.
+ */
+async function moveToItem(item: Element, parent: Element | null, submenu: Element | null, signal?: AbortSignal): Promise<void> {
+    const target = centerOf(item);
+
+    if (parent && submenu) {
+        const parentBounds = parent.getBoundingClientRect();
+        const submenuBounds = submenu.getBoundingClientRect();
+        const opensRight = submenuBounds.left >= parentBounds.left + parentBounds.width / 2;
+        const edge = {
+            x: opensRight ? parentBounds.right - EDGE_INSET : parentBounds.left + EDGE_INSET,
+            y: Math.min(parentBounds.bottom - EDGE_INSET, Math.max(parentBounds.top + EDGE_INSET, getPointerPosition().y)),
+        };
+        await movePointer(edge, { steps: 4, duration: 60, curve: 'linear', jitter: 0, signal });
+
+        // No bend or wobble: either could leave the triangle
+        await movePointer(target, { steps: 10, duration: 180, curve: 'minimum_jerk', jitter: 0, signal });
+        return;
+    }
+
+    await movePointer(target, { steps: 12, duration: 250, curve: 'minimum_jerk', jitter: 0, signal });
+}
+
+function clickItem(item: Element): void {
+    const { x, y } = centerOf(item);
+    const init: PointerEventInit = {
+        pointerId: 1,
+        pointerType: 'mouse',
+        isPrimary: true,
+        button: 0,
+        clientX: x,
+        clientY: y,
+        view: window,
+        bubbles: true,
+        cancelable: true,
+        composed: true,
+    };
+    item.dispatchEvent(new PointerEvent('pointerdown', { ...init, buttons: 1 }));
+    item.dispatchEvent(new MouseEvent('mousedown', { ...init, buttons: 1 }));
+    item.dispatchEvent(new PointerEvent('pointerup', init));
+    item.dispatchEvent(new MouseEvent('mouseup', init));
+    if (item instanceof HTMLElement) {
+        item.click();
+    } else {
+        item.dispatchEvent(new MouseEvent('click', init));
+    }
+}
+
+/**
+ * Navigate a path of menu labels ("File", "Export", "PDF"): hover each level until
+ * its submenu opens (clicking if hovering doesn't), then click the last item.
+ * Throws naming the level that failed.
+ */
+export async function navigateMenu(path: string[], timeout: number, signal?: AbortSignal): Promise<MenuStep[]> {
+    const steps: MenuStep[] = [];
+    let scope: Document | Element = document;
+    let parent: Element | null = null;
+
+    for (let level = 0; level < path.length; level++) {
+        const label = path[level];
+        const where = `level ${level + 1} ("${label}")`;
+
+        const { item, labels } = findItem(label, scope, level === 0 ? MENU_ROOT_SELECTOR : MENU_ITEM_SELECTOR);
+        if (!item) {
+            const shown = labels.slice(0, 20).map(l => `"${l}"`).join(', ');
+            throw new Error(`Menu ${where} not found${level > 0 ? `. Available: ${shown || 'none'}` : ''}`);
+        }
+
+        // Hovering may open the submenu before the move finishes
+        let since = Date.now();
+        await moveToItem(item, parent, scope instanceof Element ? scope : null, signal);
+        steps.push({ label: getItemLabel(item), id: getElementId(item) });
+
+        if (level === path.length - 1) {
+            clickItem(item);
+            return steps;
+        }
+
+        let submenu = await waitForSubmenu(item, since, timeout / 2, signal);
+        if (!submenu) {
+            // Menubars and menu buttons open on click rather than hover
+            since = Date.now();
+            clickItem(item);
+            submenu = await waitForSubmenu(item, since, timeout / 2, signal);
+        }
+        if (!submenu) {
+            throw new Error(`Submenu of ${where} did not open`);
+        }
+
+        parent = item;
+        scope = submenu;
+    }
+
+    return steps;
+}
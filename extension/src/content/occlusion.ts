@@ -0,0 +1,127 @@
+/**
+ * Occlusion - Multi-point visibility sampling
+ * Hit-tests a grid of points per element to score visibility and find what covers it
+ */
+
+import type { Rect, HitPoint } from '../shared/protocol';
+import { containsComposed, deepElementFromPoint, getComposedParent, querySelectorAllDeep } from './shadow';
+
+// Sample grid (GRID x GRID cell centres); odd so the centre is always sampled
+const GRID = 3;
+
+// Close controls inside an overlay: buttons whose label or text says close and nothing
+// else, or Bootstrap dismiss buttons. Anything that can mean accept, decline or continue
+// ("got it", "skip", "no thanks", "close account") is left alone.
+const CONTROL_SELECTOR = 'button, [role="button"], a, [data-dismiss], [data-bs-dismiss]';
+const DISMISS_SELECTOR = '[data-dismiss], [data-bs-dismiss]';
+const CLOSE_LABEL = /^(close|dismiss|hide)( (dialog|modal|popup|banner|panel|overlay|notification|message|window|this))?$/i;
+const CLOSE_TEXT = /^(close|dismiss|×|✕|✖|x)$/i;
+
+export interface OcclusionResult {
+    visibleFraction: number; // Share of sample points where the element is on top (0-1)
+    hit: HitPoint; // Best unoccluded point (closest to centre), or the centre if none
+    occluder: Element | null; // Element covering the most occluded samples
+}
+
+/**
+ * Get sample points across a rect, ordered by distance from the centre
+ */
+function getSamplePoints(rect: Rect): HitPoint[] {
+    const samples: { point: HitPoint; distance: number }[] = [];
+    for (let row = 0; row < GRID; row++) {
+        for (let col = 0; col < GRID; col++) {
+            const fx = (col + 0.5) / GRID;
+            const fy = (row + 0.5) / GRID;
+            samples.push({
+                point: { cx: Math.round(rect.x + rect.w * fx), cy: Math.round(rect.y + rect.h * fy) },
+                distance: Math.hypot(fx - 0.5, fy - 0.5),
+            });
+        }
+    }
+    return samples.sort((a, b) => a.distance - b.distance).map(s => s.point);
+}
+
+function isInViewport(point: HitPoint): boolean {
+    return point.cx >= 0 && point.cy >= 0 && point.cx < window.innerWidth && point.cy < window.innerHeight;
+}
+
+/**
+ * Widen a hit-tested element to the overlay it belongs to
+ * (the fixed/sticky/dialog container a model would dismiss)
+ */
+function findOverlayRoot(topElement: Element, target: Element): Element {
+    let current: Element | null = topElement;
+    while (current && current !== document.body && current !== document.documentElement) {
+        if (containsComposed(current, target)) break;
+
+        const role = current.getAttribute('role');
+        if (role === 'dialog' || role === 'alertdialog' || current.tagName === 'DIALOG') return current;
+
+        const position = window.getComputedStyle(current).position;
+        if (position === 'fixed' || position === 'sticky') return current;
+
+        current = getComposedParent(current);
+    }
+    return topElement;
+}
+
+/**
+ * Whether a control does nothing but close what it sits in
+ */
+function isCloseControl(element: Element): boolean {
+    const bounds = element.getBoundingClientRect();
+    if (bounds.width === 0 || bounds.height === 0) return false;
+    if (element.matches(DISMISS_SELECTOR)) return true;
+
+    const label = (element.getAttribute('aria-label') || element.getAttribute('title') || '').trim();
+    if (label) return CLOSE_LABEL.test(label);
+    return CLOSE_TEXT.test((element.textContent || '').replace(/\s+/g, ' ').trim());
+}
+
+/**
+ * Find the control inside an overlay that does nothing but close it
+ */
+export function findCloseControl(overlay: Element): Element | null {
+    return querySelectorAllDeep(CONTROL_SELECTOR, overlay).find(isCloseControl) ?? null;
+}
+
+/**
+ * Sample an element's visibility. rect is in this frame's viewport coordinates.
+ */
+export function sampleOcclusion(element: Element, rect: Rect): OcclusionResult {
+    const points = getSamplePoints(rect);
+    const occluders = new Map<Element, number>();
+    let visible: HitPoint | null = null;
+    let visibleCount = 0;
+
+    for (const point of points) {
+        if (!isInViewport(point)) continue;
+
+        const topElement = deepElementFromPoint(point.cx, point.cy);
+        if (!topElement) continue;
+
+        if (containsComposed(element, topElement) || containsComposed(topElement, element)) {
+            visibleCount++;
+            // Points are ordered by distance from the centre; keep the closest visible one
+            if (!visible) visible = point;
+        } else {
+            const occluder = findOverlayRoot(topElement, element);
+            occluders.set(occluder, (occluders.get(occluder) || 0) + 1);
+        }
+    }
+
+    let occluder: Element | null = null;
+    let maxCount = 0;
+    for (const [candidate, count] of occluders) {
+        if (count > maxCount) {
+            occluder = candidate;
+            maxCount = count;
+        }
+    }
+
+    return {
+        visibleFraction: visibleCount / points.length,
+        hit: visible || points[0],
+        occluder,
+    };
+}
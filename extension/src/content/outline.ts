@@ -0,0 +1,135 @@
+/**
+ * Outline - Non-interactive page structure
+ * Extracts landmarks, the heading hierarchy and visible text blocks
+ */
+
+import type { Rect, OutlineLandmark, OutlineHeading, OutlineTextBlock } from '../shared/protocol';
+import { getElementId } from './actionmap';
+import { computeAccessibleName } from './accname';
+import { toTopLevelRect } from './frames';
+import {
+    LANDMARK_SELECTORS,
+    HEADING_SELECTORS,
+    getLandmarkRole,
+    getHeadingLevel,
+    findLandmark,
+    createHeadingIndex,
+} from './landmarks';
+import { querySelectorAllDeep, getComposedParent, closestComposed } from './shadow';
+
+// Block-level elements that carry readable text
+const TEXT_BLOCK_SELECTORS = [
+    'p',
+    'li',
+    'blockquote',
+    'dt',
+    'dd',
+    'figcaption',
+    'pre',
+    'td',
+    'th',
+    '[role="alert"]',
+    '[role="status"]',
+].join(', ');
+
+const MAX_TEXT_BLOCKS = 200;
+const MAX_TEXT_LENGTH = 200;
+
+export interface Outline {
+    landmarks: OutlineLandmark[];
+    headings: OutlineHeading[];
+    textBlocks: OutlineTextBlock[];
+}
+
+/**
+ * Get an element's rect in top-level viewport coordinates, or null if it isn't rendered
+ */
+function getRenderedRect(element: Element): Rect | null {
+    const bounds = element.getBoundingClientRect();
+    if (bounds.width === 0 || bounds.height === 0) return null;
+
+    const style = window.getComputedStyle(element);
+    if (style.display === 'none' || style.visibility === 'hidden') return null;
+
+    return toTopLevelRect({
+        x: Math.round(bounds.left),
+        y: Math.round(bounds.top),
+        w: Math.round(bounds.width),
+        h: Math.round(bounds.height),
+    });
+}
+
+function intersectsViewport(element: Element): boolean {
+    const bounds = element.getBoundingClientRect();
+    return bounds.bottom > 0 && bounds.right > 0 &&
+        bounds.top < window.innerHeight && bounds.left < window.innerWidth;
+}
+
+function getIdOrNull(element: Element | null): string | null {
+    return element ? getElementId(element) : null;
+}
+
+/**
+ * Extract the page outline. Landmarks and headings cover the whole document;
+ * text blocks are limited to those intersecting the viewport.
+ */
+export function extractOutline(): Outline {
+    const landmarks: OutlineLandmark[] = [];
+    for (const element of querySelectorAllDeep(LANDMARK_SELECTORS)) {
+        const rect = getRenderedRect(element);
+        if (!rect) continue;
+
+        const role = getLandmarkRole(element);
+        landmarks.push({
+            id: getElementId(element),
+            role,
+            name: computeAccessibleName(element, role, false),
+            rect,
+            parentId: getIdOrNull(findLandmark(element)),
+        });
+    }
+
+    const headings: OutlineHeading[] = [];
+    for (const element of querySelectorAllDeep(HEADING_SELECTORS)) {
+        const rect = getRenderedRect(element);
+        if (!rect) continue;
+
+        headings.push({
+            id: getElementId(element),
+            level: getHeadingLevel(element),
+            text: computeAccessibleName(element, 'heading'),
+            rect,
+            landmarkId: getIdOrNull(findLandmark(element)),
+        });
+    }
+
+    const findHeading = createHeadingIndex();
+    const included = new Set<Element>();
+    const textBlocks: OutlineTextBlock[] = [];
+    for (const element of querySelectorAllDeep(TEXT_BLOCK_SELECTORS)) {
+        if (textBlocks.length >= MAX_TEXT_BLOCKS) break;
+        if (!intersectsViewport(element)) continue;
+
+        // Nested blocks (a <p> inside an <li>) are covered by their outer block
+        const parent = getComposedParent(element);
+        const outer = parent ? closestComposed(parent, TEXT_BLOCK_SELECTORS) : null;
+        if (outer && included.has(outer)) continue;
+
+        const text = (element.textContent || '').replace(/\s+/g, ' ').trim();
+        if (text.length < 2) continue;
+
+        const rect = getRenderedRect(element);
+        if (!rect) continue;
+
+        included.add(element);
+        textBlocks.push({
+            id: getElementId(element),
+            text: text.length > MAX_TEXT_LENGTH ? text.substring(0, MAX_TEXT_LENGTH) + '...' : text,
+            rect,
+            headingId: getIdOrNull(findHeading(element)),
+            landmarkId: getIdOrNull(findLandmark(element)),
+        });
+    }
+
+    return { landmarks, headings, textBlocks };
+}
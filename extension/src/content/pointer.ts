@@ -0,0 +1,181 @@
+/**
+ * Pointer - Pointer position tracking and continuous pointer movement
+ * Remembers where the (real or synthetic) pointer is across the tab's frames and moves it along paths
+ */
+
+import type { PointerCurve, PointerPositionMessage } from '../shared/protocol';
+import { interpolatePath } from './easing';
+import type { Point } from './easing';
+import { toTopLevelPoint, fromTopLevelPoint } from './frames';
+import { deepElementFromPoint, getComposedParent } from './shadow';
+import { sleep } from './cancel';
+
+// Minimum gap between reports of real pointer moves to the service worker (ms)
+const REPORT_INTERVAL = 100;
+
+// Travel time for a move: a base plus a share per pixel, capped (ms)
+const TRAVEL_BASE = 100;
+const TRAVEL_PER_PX = 0.4;
+const TRAVEL_MAX = 600;
+
+export interface MoveOptions {
+    steps: number;
+    duration: number;
+    curve: PointerCurve;
+    jitter: number;
+    signal?: AbortSignal;
+}
+
+// Last pointer position in top-level viewport coordinates, from any frame of the tab
+let position: Point | null = null;
+
+// Element under the synthetic pointer in this frame, for over/out and enter/leave
+let hovered: Element | null = null;
+
+let send: ((message: PointerPositionMessage) => void) | null = null;
+let lastReportAt = 0;
+let isTracking = false;
+
+/**
+ * Set how positions reach the service worker (the content script's port)
+ */
+export function setPointerTransport(sender: ((message: PointerPositionMessage) => void) | null): void {
+    send = sender;
+}
+
+/**
+ * Take a position reported by another frame of the tab
+ */
+export function handlePointerPosition(message: PointerPositionMessage): void {
+    position = { x: message.x, y: message.y };
+}
+
+/**
+ * Record a pointer position in this frame's viewport and share it with the tab's other frames
+ */
+export function recordPointer(point: Point, throttle = false): void {
+    const top = toTopLevelPoint({ cx: point.x, cy: point.y });
+    position = { x: top.cx, y: top.cy };
+
+    const now = Date.now();
+    if (throttle && now - lastReportAt < REPORT_INTERVAL) return;
+    lastReportAt = now;
+    send?.({ type: 'pointer_position', x: position.x, y: position.y });
+}
+
+/**
+ * Last known pointer position in this frame's viewport (the viewport centre if unknown)
+ */
+export function getPointerPosition(): Point {
+    if (!position) return { x: window.innerWidth / 2, y: window.innerHeight / 2 };
+    const local = fromTopLevelPoint({ cx: position.x, cy: position.y });
+    return { x: local.cx, y: local.cy };
+}
+
+/**
+ * How long a hand would take to move the pointer from its last position to a point
+ */
+export function getTravelTime(to: Point): number {
+    const from = getPointerPosition();
+    return Math.min(TRAVEL_MAX, TRAVEL_BASE + Math.hypot(to.x - from.x, to.y - from.y) * TRAVEL_PER_PX);
+}
+
+function handleRealPointer(event: PointerEvent): void {
+    if (event.isTrusted) {
+        recordPointer({ x: event.clientX, y: event.clientY }, true);
+    }
+}
+
+/**
+ * Follow the real pointer while it is over this frame
+ */
+export function startPointerTracking(): void {
+    if (isTracking) return;
+    isTracking = true;
+    window.addEventListener('pointermove', handleRealPointer, { capture: true, passive: true });
+    window.addEventListener('pointerdown', handleRealPointer, { capture: true, passive: true });
+}
+
+function mouseInit(point: Point, relatedTarget: Element | null, bubbles = true): PointerEventInit {
+    return {
+        pointerId: 1,
+        pointerType: 'mouse',
+        isPrimary: true,
+        clientX: point.x,
+        clientY: point.y,
+        screenX: point.x + window.screenX,
+        screenY: point.y + window.screenY,
+        relatedTarget,
+        view: window,
+        bubbles,
+        cancelable: bubbles,
+        composed: true,
+    };
+}
+
+function getAncestors(element: Element | null): Element[] {
+    const chain: Element[] = [];
+    for (let current = element; current; current = getComposedParent(current)) {
+        chain.push(current);
+    }
+    return chain;
+}
+
+/**
+ * Fire the boundary events for the pointer moving from one element to another:
+ * out/leave on what it left, over/enter on what it entered (innermost leave first,
+ * outermost enter first, like the browser)
+ */
+function crossBoundary(from: Element | null, to: Element | null, point: Point): void {
+    const fromChain = getAncestors(from);
+    const toChain = getAncestors(to);
+
+    if (from && from.isConnected) {
+        from.dispatchEvent(new PointerEvent('pointerout', mouseInit(point, to)));
+        from.dispatchEvent(new MouseEvent('mouseout', mouseInit(point, to)));
+        for (const left of fromChain.filter(el => !toChain.includes(el))) {
+            left.dispatchEvent(new PointerEvent('pointerleave', mouseInit(point, to, false)));
+            left.dispatchEvent(new MouseEvent('mouseleave', mouseInit(point, to, false)));
+        }
+    }
+
+    if (to) {
+        to.dispatchEvent(new PointerEvent('pointerover', mouseInit(point, from)));
+        to.dispatchEvent(new MouseEvent('mouseover', mouseInit(point, from)));
+        for (const entered of toChain.filter(el => !fromChain.includes(el)).reverse()) {
+            entered.dispatchEvent(new PointerEvent('pointerenter', mouseInit(point, from, false)));
+            entered.dispatchEvent(new MouseEvent('mouseenter', mouseInit(point, from, false)));
+        }
+    }
+}
+
+/**
+ * Move the synthetic pointer from its last position to a point in this frame's
+ * viewport, firing pointermove/mousemove and boundary events at every step.
+ * Resolves with the element under the pointer at the end.
+ */
+export async function movePointer(to: Point, options: MoveOptions): Promise<Element | null> {
+    const path = interpolatePath(getPointerPosition(), to, options.steps, options.curve, options.jitter);
+    const stepDelay = options.duration / options.steps;
+
+    for (let i = 0; i < path.length; i++) {
+        const point = path[i];
+        const under = deepElementFromPoint(point.x, point.y);
+
+        if (under !== hovered) {
+            crossBoundary(hovered, under, point);
+            hovered = under;
+        }
+        if (under) {
+            under.dispatchEvent(new PointerEvent('pointermove', mouseInit(point, null)));
+            under.dispatchEvent(new MouseEvent('mousemove', mouseInit(point, null)));
+        }
+        recordPointer(point, i < path.length - 1);
+
+        if (i < path.length - 1) {
+            await sleep(stepDelay, options.signal);
+        }
+    }
+
+    return hovered;
+}
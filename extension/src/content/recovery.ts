@@ -0,0 +1,314 @@
+/**
+ * Recovery - Getting a command's target into an actionable state
+ * Diagnoses a missing, off-screen, moving or covered target and applies a remedy before retrying
+ */
+
+import type { Remedy, RecoveryOptions, RecoveryAttempt } from '../shared/protocol';
+import { getElementById, extractActionMap } from './actionmap';
+import { getRegisteredFingerprint, getRegisteredIdentity } from './registry';
+import { sampleOcclusion, findCloseControl } from './occlusion';
+import { deepElementFromPoint, containsComposed } from './shadow';
+import { pressChord, getFocusedElement } from './keys';
+import { sleep, throwIfCancelled } from './cancel';
+
+// Remedy rounds before giving up, unless the command sets recovery.retries
+const DEFAULT_RETRIES = 2;
+
+const ALL_REMEDIES: Remedy[] = ['reresolve', 'scroll', 'dismiss_overlay', 'wait_stable'];
+
+// A rect counts as stable once unchanged for STABLE_MS (ms)
+const STABLE_MS = 100;
+const STABLE_TIMEOUT = 1500;
+const STABLE_POLL_INTERVAL = 20;
+
+// Time for an overlay's close animation after dismissing it (ms)
+const DISMISS_SETTLE = 150;
+
+type Problem = RecoveryAttempt['problem'];
+
+// Remedies per problem, in the order they are tried
+const REMEDIES: Record<Problem, Remedy[]> = {
+    not_found: ['reresolve'],
+    offscreen: ['scroll'],
+    moving: ['wait_stable'],
+    occluded: ['scroll', 'dismiss_overlay', 'wait_stable'],
+};
+
+// Remedies worth repeating: the page may have rendered or settled since the last try
+const REPEATABLE = new Set<Remedy>(['reresolve', 'wait_stable']);
+
+interface Diagnosis {
+    problem: Problem;
+    detail: string;
+    occluder?: Element | null;
+}
+
+export interface Target {
+    element: Element;
+    id: string; // The command's id, or the id the target was re-resolved to
+}
+
+function nextFrame(): Promise<void> {
+    return new Promise(resolve => requestAnimationFrame(() => resolve()));
+}
+
+function isCenterInViewport(element: Element): boolean {
+    const bounds = element.getBoundingClientRect();
+    const cx = bounds.left + bounds.width / 2;
+    const cy = bounds.top + bounds.height / 2;
+    return cx >= 0 && cy >= 0 && cx <= window.innerWidth && cy <= window.innerHeight;
+}
+
+function rectKey(element: Element): string {
+    const bounds = element.getBoundingClientRect();
+    return [bounds.left, bounds.top, bounds.width, bounds.height].map(Math.round).join(',');
+}
+
+/**
+ * Check that the element (or a descendant) is what's on top at its center
+ */
+export function hitTest(element: Element): boolean {
+    const bounds = element.getBoundingClientRect();
+    const cx = bounds.left + bounds.width / 2;
+    const cy = bounds.top + bounds.height / 2;
+    const topEl = deepElementFromPoint(cx, cy);
+    return topEl !== null && (containsComposed(element, topEl) || containsComposed(topEl, element));
+}
+
+/**
+ * Scroll an off-screen element into view and re-verify its hit point (for pointer input).
+ * Elements whose center is already in the viewport are left alone.
+ */
+export async function revealElement(id: string, element: Element, pointer = true): Promise<void> {
+    if (isCenterInViewport(element)) return;
+
+    element.scrollIntoView({ block: 'center', inline: 'center', behavior: 'instant' });
+
+    // Give sticky headers and lazy content a frame to settle before hit-testing
+    await nextFrame();
+
+    if (pointer && !hitTest(element)) {
+        throw new Error(`Element not hittable after scrolling into view: ${id}`);
+    }
+}
+
+/**
+ * Describe an element for attempt details: its label, or its tag
+ */
+function describeElement(element: Element): string {
+    const label = element.getAttribute('aria-label') || (element.textContent || '').replace(/\s+/g, ' ').trim();
+    return label ? `"${label.slice(0, 40)}"` : `<${element.tagName.toLowerCase()}>`;
+}
+
+/**
+ * Find what keeps the target from being acted on, if anything. Movement and cover
+ * only matter to pointer input; keyboard and value input reach covered elements.
+ */
+async function diagnose(id: string, element: Element | null, pointer: boolean): Promise<Diagnosis | null> {
+    if (!element || !element.isConnected) {
+        return { problem: 'not_found', detail: `Element not found: ${id}` };
+    }
+    if (!isCenterInViewport(element)) {
+        return { problem: 'offscreen', detail: `Element is outside the viewport: ${id}` };
+    }
+    if (!pointer) return null;
+
+    // Animations and late layout shift the hit point between hit-test and input
+    const before = rectKey(element);
+    await nextFrame();
+    if (rectKey(element) !== before) {
+        return { problem: 'moving', detail: `Element is moving: ${id}` };
+    }
+
+    const bounds = element.getBoundingClientRect();
+    if (bounds.width === 0 || bounds.height === 0) return null;
+
+    const { visibleFraction, occluder } = sampleOcclusion(element, {
+        x: bounds.left,
+        y: bounds.top,
+        w: bounds.width,
+        h: bounds.height,
+    });
+    if (visibleFraction === 0) {
+        const by = occluder ? ` by ${describeElement(occluder)}` : '';
+        return { problem: 'occluded', detail: `Element is covered${by}: ${id}`, occluder };
+    }
+    return null;
+}
+
+/**
+ * The next remedy for a problem: the first allowed one not tried yet, or a repeatable one
+ */
+function pickRemedy(problem: Problem, allowed: Set<Remedy>, tried: Set<string>): Remedy | null {
+    for (const remedy of REMEDIES[problem]) {
+        if (!allowed.has(remedy)) continue;
+        if (!tried.has(`${problem}:${remedy}`) || REPEATABLE.has(remedy)) return remedy;
+    }
+    return null;
+}
+
+/**
+ * Position of a fingerprint: "<col>.<row>", or "item<index>" in a recycled list
+ */
+function parsePosition(fingerprint: string): number[] {
+    const position = fingerprint.split(':')[1] || '';
+    return position.startsWith('item') ? [0, Number(position.slice(4))] : position.split('.').map(Number);
+}
+
+/**
+ * Distance between the positions of two fingerprints (Infinity when they don't compare)
+ */
+function positionDistance(a: string, b: string): number {
+    const [ac, ar] = parsePosition(a);
+    const [bc, br] = parsePosition(b);
+    const distance = Math.abs(ac - bc) + Math.abs(ar - br);
+    return Number.isNaN(distance) ? Infinity : distance;
+}
+
+/**
+ * Find a target again after it was re-rendered: by exact fingerprint, then by the
+ * same semantic fingerprint at the nearest position, then by role and name.
+ * Another id is only taken under the role and name the backend's policy checked.
+ */
+function reresolve(id: string): Target | null {
+    const element = getElementById(id);
+    if (element) return { element, id };
+
+    const identity = getRegisteredIdentity(id);
+    if (!identity) return null;
+
+    const candidates = extractActionMap().filter(c => c.role === identity.role && c.name === identity.name);
+    const fingerprint = getRegisteredFingerprint(id);
+    if (fingerprint) {
+        const semantic = fingerprint.split(':')[0];
+        const match = candidates
+            .filter(c => c.fingerprint.split(':')[0] === semantic)
+            .sort((a, b) => positionDistance(a.fingerprint, fingerprint) - positionDistance(b.fingerprint, fingerprint))[0];
+        const found = match && getElementById(match.id);
+        if (found) return { element: found, id: match.id };
+    }
+
+    // Form or landmark changes move the semantic hash; an unambiguous role+name match is still safe
+    if (identity.name && candidates.length === 1) {
+        const found = getElementById(candidates[0].id);
+        if (found) return { element: found, id: candidates[0].id };
+    }
+    return null;
+}
+
+/**
+ * Whether an element is a dialog or a fixed/sticky layer, as opposed to page content
+ */
+function isOverlay(element: Element): boolean {
+    const role = element.getAttribute('role');
+    if (role === 'dialog' || role === 'alertdialog' || element.tagName === 'DIALOG') return true;
+    const position = window.getComputedStyle(element).position;
+    return position === 'fixed' || position === 'sticky';
+}
+
+/**
+ * Close an overlay: click its close control, or press Escape when it has none.
+ * Only dialogs and fixed/sticky layers get a click; the policy never saw the control,
+ * so it must do nothing but close.
+ */
+async function dismissOverlay(occluder: Element | null | undefined, signal?: AbortSignal): Promise<string> {
+    let action = 'pressed Escape';
+    const control = occluder && isOverlay(occluder)
+        ? findCloseControl(occluder)
+        : null;
+
+    if (control instanceof HTMLElement) {
+        control.click();
+        action = `clicked ${describeElement(control)}`;
+    } else {
+        await pressChord(getFocusedElement(), 'Escape', [], 1, undefined, signal);
+    }
+
+    await nextFrame();
+    await sleep(DISMISS_SETTLE, signal);
+    return action;
+}
+
+/**
+ * Wait until the element's rect holds still for STABLE_MS; false on timeout
+ */
+async function waitForStable(element: Element, signal?: AbortSignal): Promise<boolean> {
+    const deadline = Date.now() + STABLE_TIMEOUT;
+    let last = rectKey(element);
+    let since = Date.now();
+
+    while (Date.now() < deadline) {
+        await sleep(STABLE_POLL_INTERVAL, signal);
+        const key = rectKey(element);
+        if (key !== last) {
+            last = key;
+            since = Date.now();
+        } else if (Date.now() - since >= STABLE_MS) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Resolve a command's target and get it ready for input. Each round diagnoses the
+ * target and applies a remedy, up to options.retries rounds; every round is pushed
+ * onto attempts. Throws with the last problem when the target can't be recovered.
+ * pointer: the input lands at a point (click, hover, drag), so cover and movement matter.
+ */
+export async function acquireTarget(
+    id: string,
+    options: RecoveryOptions | undefined,
+    pointer: boolean,
+    attempts: RecoveryAttempt[],
+    signal?: AbortSignal
+): Promise<Target> {
+    const retries = Math.max(0, options?.retries ?? DEFAULT_RETRIES);
+    if (retries === 0) {
+        const element = getElementById(id);
+        if (!element) throw new Error(`Element not found: ${id}`);
+        await revealElement(id, element, pointer);
+        return { element, id };
+    }
+
+    const allowed = new Set(options?.remedies ?? ALL_REMEDIES);
+    const tried = new Set<string>();
+    let target = { element: getElementById(id), id };
+    let rounds = 0;
+
+    for (let attempt = 1; ; attempt++) {
+        throwIfCancelled(signal);
+        const diagnosis = await diagnose(target.id, target.element, pointer);
+        if (!diagnosis) return target as Target;
+
+        // The first scroll into view happens without recovery too; it is listed but
+        // doesn't use up a retry and can't be turned off
+        const reveal = diagnosis.problem === 'offscreen' && !tried.has('offscreen:scroll');
+        const remedy = reveal ? 'scroll' : rounds >= retries ? null : pickRemedy(diagnosis.problem, allowed, tried);
+        const entry: RecoveryAttempt = { attempt, problem: diagnosis.problem, detail: diagnosis.detail, remedy };
+        attempts.push(entry);
+        if (!remedy) {
+            throw new Error(diagnosis.detail);
+        }
+        tried.add(`${diagnosis.problem}:${remedy}`);
+        if (!reveal) rounds++;
+
+        if (remedy === 'reresolve') {
+            const found = reresolve(id);
+            if (found) {
+                target = found;
+                if (found.id !== id) entry.resolvedId = found.id;
+            }
+            entry.action = found ? `resolved to ${found.id}` : 'no match';
+        } else if (remedy === 'scroll') {
+            target.element!.scrollIntoView({ block: 'center', inline: 'center', behavior: 'instant' });
+            await nextFrame();
+            entry.action = 'scrolled to centre';
+        } else if (remedy === 'dismiss_overlay') {
+            entry.action = await dismissOverlay(diagnosis.occluder, signal);
+        } else {
+            const stable = await waitForStable(target.element!, signal);
+            entry.action = stable ? 'stable' : `still moving after ${STABLE_TIMEOUT}ms`;
+        }
+    }
+}
@@ -0,0 +1,101 @@
+/**
+ * Registry - Reverse element index for command execution
+ * Maps ids to weak element references so lookups don't re-scan the DOM
+ */
+
+// id -> element; weak so the registry never keeps removed nodes alive
+const registry = new Map<string, WeakRef<Element>>();
+
+// id -> last fingerprint, kept after the element is gone so it can be re-resolved
+const fingerprints = new Map<string, string>();
+
+export interface ElementIdentity {
+    role: string;
+    name: string;
+}
+
+// id -> last role and accessible name, kept like fingerprints for re-resolution by name
+const identities = new Map<string, ElementIdentity>();
+
+/**
+ * Register (or refresh) the element behind an id
+ */
+export function registerElement(id: string, element: Element, fingerprint?: string, identity?: ElementIdentity): void {
+    if (registry.get(id)?.deref() !== element) {
+        registry.set(id, new WeakRef(element));
+    }
+    if (fingerprint) {
+        fingerprints.set(id, fingerprint);
+    }
+    if (identity) {
+        identities.set(id, identity);
+    }
+}
+
+/**
+ * Detach an id from its element (e.g. a recycled list row now showing another item).
+ * The fingerprint and identity are kept so the id can be re-resolved.
+ */
+export function unregisterElement(id: string): void {
+    registry.delete(id);
+}
+
+/**
+ * Look up a live element by id. Returns null if it was collected or detached.
+ */
+export function lookupElement(id: string): Element | null {
+    const element = registry.get(id)?.deref();
+    if (!element) {
+        registry.delete(id);
+        return null;
+    }
+    return element.isConnected ? element : null;
+}
+
+/**
+ * Get the last known fingerprint for an id
+ */
+export function getRegisteredFingerprint(id: string): string | undefined {
+    return fingerprints.get(id);
+}
+
+/**
+ * Get the last known role and accessible name for an id
+ */
+export function getRegisteredIdentity(id: string): ElementIdentity | undefined {
+    return identities.get(id);
+}
+
+/**
+ * Drop entries whose element was garbage collected or detached from the document.
+ * Fingerprints of dropped ids are kept (bounded) for re-resolution.
+ * Returns the number of pruned entries.
+ */
+export function pruneRegistry(maxFingerprints = 2000): number {
+    let pruned = 0;
+    for (const [id, ref] of registry) {
+        const element = ref.deref();
+        if (!element || !element.isConnected) {
+            registry.delete(id);
+            pruned++;
+        }
+    }
+
+    // Evict the oldest fingerprints of ids that are no longer registered
+    for (const id of fingerprints.keys()) {
+        if (fingerprints.size <= maxFingerprints) break;
+        if (!registry.has(id)) {
+            fingerprints.delete(id);
+            identities.delete(id);
+        }
+    }
+
+    return pruned;
+}
+
+/**
+ * Number of registered ids (for diagnostics)
+ */
+export function getRegistrySize(): number {
+    return registry.size;
+}
@@ -0,0 +1,142 @@
+/**
+ * Shadow DOM - Traversal helpers for open shadow roots
+ * Lets extraction, lookup and observation see inside web components
+ */
+
+type QueryRoot = Document | ShadowRoot | Element;
+
+/**
+ * Collect every open shadow root below a root, including nested ones
+ */
+export function collectShadowRoots(root: QueryRoot = document): ShadowRoot[] {
+    const roots: ShadowRoot[] = [];
+    const pending: QueryRoot[] = [root];
+
+    while (pending.length > 0) {
+        const current = pending.pop()!;
+        if (current instanceof Element && current.shadowRoot) {
+            roots.push(current.shadowRoot);
+            pending.push(current.shadowRoot);
+        }
+        for (const el of current.querySelectorAll('*')) {
+            if (el.shadowRoot) {
+                roots.push(el.shadowRoot);
+                pending.push(el.shadowRoot);
+            }
+        }
+    }
+
+    return roots;
+}
+
+/**
+ * querySelectorAll that also descends into open shadow roots
+ */
+export function querySelectorAllDeep(selector: string, root: QueryRoot = document): Element[] {
+    const results: Element[] = [];
+    if (root instanceof Element && root.matches(selector)) {
+        results.push(root);
+    }
+    results.push(...root.querySelectorAll(selector));
+
+    for (const shadowRoot of collectShadowRoots(root)) {
+        results.push(...shadowRoot.querySelectorAll(selector));
+    }
+    return results;
+}
+
+/**
+ * Check whether a root or anything in its open shadow trees matches a selector
+ */
+export function hasDeepMatch(selector: string, root: Element): boolean {
+    if (root.matches(selector) || root.querySelector(selector)) return true;
+    return collectShadowRoots(root).some(shadowRoot => shadowRoot.querySelector(selector) !== null);
+}
+
+/**
+ * Get the parent element, stepping from a shadow root to its host
+ */
+export function getComposedParent(element: Element): Element | null {
+    if (element.parentElement) return element.parentElement;
+    const root = element.getRootNode();
+    return root instanceof ShadowRoot ? root.host : null;
+}
+
+/**
+ * closest() that crosses shadow boundaries
+ */
+export function closestComposed(element: Element, selector: string): Element | null {
+    let current: Element | null = element;
+    while (current) {
+        const match = current.closest(selector);
+        if (match) return match;
+        const root = current.getRootNode();
+        current = root instanceof ShadowRoot ? root.host : null;
+    }
+    return null;
+}
+
+/**
+ * contains() that crosses shadow boundaries
+ */
+export function containsComposed(ancestor: Element, node: Element): boolean {
+    let current: Element | null = node;
+    while (current) {
+        if (ancestor.contains(current)) return true;
+        const root = current.getRootNode();
+        current = root instanceof ShadowRoot ? root.host : null;
+    }
+    return false;
+}
+
+/**
+ * elementFromPoint that resolves through open shadow roots to the innermost element
+ */
+export function deepElementFromPoint(x: number, y: number): Element | null {
+    let element = document.elementFromPoint(x, y);
+    while (element?.shadowRoot) {
+        const inner = element.shadowRoot.elementFromPoint(x, y);
+        if (!inner || inner === element) break;
+        element = inner;
+    }
+    return element;
+}
+
+/**
+ * Build a selector that identifies an element within its own root (document or shadow root)
+ */
+function getSelectorWithinRoot(element: Element): string {
+    const root = element.getRootNode() as Document | ShadowRoot;
+
+    if (element.id && root.querySelectorAll(`#${CSS.escape(element.id)}`).length === 1) {
+        return `#${CSS.escape(element.id)}`;
+    }
+
+    const segments: string[] = [];
+    let current: Element | null = element;
+    while (current) {
+        const tag = current.tagName.toLowerCase();
+        let index = 1;
+        for (let sibling = current.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+            if (sibling.tagName === current.tagName) index++;
+        }
+        segments.unshift(`${CSS.escape(tag)}:nth-of-type(${index})`);
+        current = current.parentElement;
+    }
+    return segments.join(' > ');
+}
+
+/**
+ * Get the chain of shadow hosts (outermost first) that contain an element.
+ * Returns an empty array for elements in the light DOM.
+ */
+export function getShadowHostPath(element: Element): string[] {
+    const path: string[] = [];
+    let root = element.getRootNode();
+
+    while (root instanceof ShadowRoot) {
+        path.unshift(getSelectorWithinRoot(root.host));
+        root = root.host.getRootNode();
+    }
+    return path;
+}
@@ -0,0 +1,172 @@
+/**
+ * Tables - Structured table and grid extraction
+ * Headers, rows and cells with their text and the candidates they contain
+ */
+
+import type { TableSchema, TableRow, TableCell } from '../shared/protocol';
+import { getElementId, getRole, INTERACTIVE_SELECTORS } from './actionmap';
+import { computeAccessibleName } from './accname';
+import { querySelectorAllDeep, closestComposed } from './shadow';
+
+const TABLE_SELECTORS = 'table, [role="table"], [role="grid"], [role="treegrid"]';
+const ROW_SELECTOR = '[role="row"]';
+const HEADER_CELL_SELECTOR = '[role="columnheader"]';
+const CELL_SELECTOR = '[role="cell"], [role="gridcell"], [role="rowheader"], [role="columnheader"]';
+
+const MAX_TABLES = 20;
+const MAX_ROWS = 200;
+const MAX_CELL_TEXT = 100;
+
+function getCellText(cell: Element): string {
+    const text = (cell.textContent || '').replace(/\s+/g, ' ').trim();
+    return text.length > MAX_CELL_TEXT ? text.substring(0, MAX_CELL_TEXT) + '...' : text;
+}
+
+function isRendered(element: Element): boolean {
+    const bounds = element.getBoundingClientRect();
+    return bounds.width > 0 && bounds.height > 0;
+}
+
+/**
+ * Whether a row belongs to this table rather than a nested one
+ */
+function ownedBy(row: Element, table: Element): boolean {
+    return closestComposed(row, TABLE_SELECTORS) === table;
+}
+
+/**
+ * Body row index from aria-rowindex (1-based, counts header rows), for virtualized grids
+ */
+function getRowIndex(row: Element, headerCount: number, fallback: number): number {
+    const ariaIndex = parseInt(row.getAttribute('aria-rowindex') || '', 10);
+    return Number.isNaN(ariaIndex) ? fallback : Math.max(0, ariaIndex - 1 - headerCount);
+}
+
+/**
+ * Layout tables (no header cells and a single column) carry no data
+ */
+function isLayoutTable(table: HTMLTableElement): boolean {
+    if (table.querySelector('th, thead')) return false;
+    return Array.from(table.rows).every(row => row.cells.length <= 1);
+}
+
+function describeCell(cell: Element, column: number): TableCell {
+    const controls = querySelectorAllDeep(INTERACTIVE_SELECTORS, cell).filter(isRendered);
+    return {
+        column,
+        text: getCellText(cell),
+        candidateIds: controls.map(getElementId),
+        candidateNames: controls.map(control => computeAccessibleName(control, getRole(control))),
+    };
+}
+
+/**
+ * Describe cells, expanding column spans so indexes line up with headers
+ */
+function describeCells(cells: Element[]): TableCell[] {
+    const described: TableCell[] = [];
+    let column = 0;
+    for (const cell of cells) {
+        described.push(describeCell(cell, column));
+        column += (cell as HTMLTableCellElement).colSpan || 1;
+    }
+    return described;
+}
+
+/**
+ * Expand header cells into one label per column
+ */
+function expandHeaders(cells: Element[]): string[] {
+    const headers: string[] = [];
+    for (const cell of cells) {
+        const text = getCellText(cell);
+        const span = (cell as HTMLTableCellElement).colSpan || 1;
+        for (let i = 0; i < span; i++) headers.push(text);
+    }
+    return headers;
+}
+
+/**
+ * Extract a native <table>
+ */
+function describeNativeTable(table: HTMLTableElement): Omit<TableSchema, 'id' | 'name' | 'kind'> {
+    const allRows = Array.from(table.rows).filter(row => ownedBy(row, table));
+    let headerRows = allRows.filter(row => row.parentElement === table.tHead);
+
+    // Without a <thead>, a leading row of <th> cells is the header
+    if (headerRows.length === 0 && allRows[0] &&
+        allRows[0].cells.length > 0 && Array.from(allRows[0].cells).every(cell => cell.tagName === 'TH')) {
+        headerRows = [allRows[0]];
+    }
+
+    const headerRow = headerRows[headerRows.length - 1];
+    const bodyRows = allRows.filter(row => !headerRows.includes(row));
+
+    return {
+        headers: headerRow ? expandHeaders(Array.from(headerRow.cells)) : [],
+        rows: bodyRows.slice(0, MAX_ROWS).map((row, index): TableRow => ({
+            id: getElementId(row),
+            index,
+            cells: describeCells(Array.from(row.cells)),
+        })),
+        rowCount: bodyRows.length,
+    };
+}
+
+/**
+ * Extract an ARIA table/grid/treegrid
+ */
+function describeAriaTable(table: Element): Omit<TableSchema, 'id' | 'name' | 'kind'> {
+    const allRows = querySelectorAllDeep(ROW_SELECTOR, table).filter(row => ownedBy(row, table));
+    const getCells = (row: Element) => querySelectorAllDeep(CELL_SELECTOR, row)
+        .filter(cell => closestComposed(cell, ROW_SELECTOR) === row);
+
+    const headerRows = allRows.filter(row => {
+        const cells = getCells(row);
+        return cells.length > 0 && cells.every(cell => cell.matches(HEADER_CELL_SELECTOR));
+    });
+    const headerRow = headerRows[headerRows.length - 1];
+    const bodyRows = allRows.filter(row => !headerRows.includes(row));
+    const ariaRowCount = parseInt(table.getAttribute('aria-rowcount') || '', 10);
+
+    return {
+        headers: headerRow ? expandHeaders(getCells(headerRow)) : [],
+        rows: bodyRows.slice(0, MAX_ROWS).map((row, index): TableRow => ({
+            id: getElementId(row),
+            index: getRowIndex(row, headerRows.length, index),
+            cells: describeCells(getCells(row)),
+        })),
+        // aria-rowcount covers rows not in the DOM; -1 means unknown
+        rowCount: ariaRowCount >= 0 ? ariaRowCount - headerRows.length : bodyRows.length,
+    };
+}
+
+/**
+ * Extract every data table and grid on the page
+ */
+export function extractTables(): TableSchema[] {
+    const tables: TableSchema[] = [];
+
+    for (const table of querySelectorAllDeep(TABLE_SELECTORS)) {
+        if (tables.length >= MAX_TABLES) break;
+        if (!isRendered(table)) continue;
+
+        // <table role="grid"> keeps its native rows; only role-less tables can be layout tables
+        const role = table.getAttribute('role');
+        if (role === 'presentation' || role === 'none') continue;
+        if (table instanceof HTMLTableElement && !role && isLayoutTable(table)) continue;
+
+        const kind = role === 'grid' || role === 'treegrid' ? role : 'table';
+        const body = table instanceof HTMLTableElement ? describeNativeTable(table) : describeAriaTable(table);
+        if (body.rows.length === 0) continue;
+
+        tables.push({
+            id: getElementId(table),
+            name: computeAccessibleName(table, kind, false),
+            kind,
+            ...body,
+        });
+    }
+
+    return tables;
+}
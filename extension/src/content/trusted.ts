@@ -0,0 +1,137 @@
+/**
+ * Trusted - Input dispatched by the service worker through chrome.debugger
+ * Builds CDP Input events at top-level viewport points and waits for the worker to run them
+ */
+
+import type { HitPoint, TrustedInputEvent } from '../shared/protocol';
+import { parseChord, getKeyDefinition, MODIFIER_KEYS } from './keys';
+import type { Modifier, KeyDefinition } from './keys';
+import { requestWorker } from './worker';
+import { sleep } from './cancel';
+
+// Attaching the debugger can take a moment on first use (ms)
+const REQUEST_TIMEOUT = 5000;
+
+// CDP modifier bit flags
+const MODIFIER_BITS: Record<Modifier, number> = { alt: 1, ctrl: 2, meta: 4, shift: 8 };
+
+// CDP mouse button bit flags for the buttons field
+const BUTTON_BITS = { left: 1, right: 2, middle: 4 };
+
+export type MouseButton = keyof typeof BUTTON_BITS;
+
+/**
+ * Ask the service worker to dispatch events; resolves once they have all run
+ */
+async function dispatchTrusted(events: TrustedInputEvent[]): Promise<void> {
+    await requestWorker({ type: 'trusted_input', events }, REQUEST_TIMEOUT);
+}
+
+function modifierMask(modifiers: Modifier[]): number {
+    return modifiers.reduce((mask, modifier) => mask | MODIFIER_BITS[modifier], 0);
+}
+
+async function pause(delay?: number, signal?: AbortSignal): Promise<void> {
+    if (delay) {
+        await sleep(delay, signal);
+    }
+}
+
+function mouseEvent(type: string, point: HitPoint, params: Record<string, unknown> = {}): TrustedInputEvent {
+    return {
+        method: 'Input.dispatchMouseEvent',
+        params: { type, x: point.cx, y: point.cy, ...params },
+    };
+}
+
+function keyEvent(type: 'keyDown' | 'rawKeyDown' | 'keyUp', definition: KeyDefinition, modifiers: number, text?: string): TrustedInputEvent {
+    return {
+        method: 'Input.dispatchKeyEvent',
+        params: {
+            type,
+            key: definition.key,
+            code: definition.code,
+            windowsVirtualKeyCode: definition.keyCode,
+            modifiers,
+            ...(text !== undefined ? { text, unmodifiedText: text } : {}),
+        },
+    };
+}
+
+/**
+ * Text a key produces when pressed with these modifiers (none for shortcuts and named keys)
+ */
+function getKeyText(key: string, modifiers: Modifier[]): string | undefined {
+    if (modifiers.includes('ctrl') || modifiers.includes('meta')) return undefined;
+    if (key === 'Enter') return '\r';
+    return [...key].length === 1 ? key : undefined;
+}
+
+/**
+ * Events for one key press with modifiers held around it
+ */
+function keyPress(key: string, modifiers: Modifier[]): TrustedInputEvent[] {
+    const events: TrustedInputEvent[] = [];
+    let mask = 0;
+    for (const modifier of modifiers) {
+        mask |= MODIFIER_BITS[modifier];
+        events.push(keyEvent('rawKeyDown', MODIFIER_KEYS[modifier], mask));
+    }
+
+    const definition = getKeyDefinition(key);
+    const text = getKeyText(key, modifiers);
+    events.push(keyEvent(text !== undefined ? 'keyDown' : 'rawKeyDown', definition, mask, text));
+    events.push(keyEvent('keyUp', definition, mask));
+
+    for (const modifier of [...modifiers].reverse()) {
+        mask &= ~MODIFIER_BITS[modifier];
+        events.push(keyEvent('keyUp', MODIFIER_KEYS[modifier], mask));
+    }
+    return events;
+}
+
+/**
+ * Move to a point and click it clickCount times
+ */
+export async function trustedClick(point: HitPoint, button: MouseButton, clickCount: number, modifiers: Modifier[] = []): Promise<void> {
+    const mask = modifierMask(modifiers);
+    const events = [mouseEvent('mouseMoved', point, { modifiers: mask })];
+    for (let i = 1; i <= clickCount; i++) {
+        events.push(mouseEvent('mousePressed', point, { button, buttons: BUTTON_BITS[button], clickCount: i, modifiers: mask }));
+        events.push(mouseEvent('mouseReleased', point, { button, buttons: 0, clickCount: i, modifiers: mask }));
+    }
+    await dispatchTrusted(events);
+}
+
+export async function trustedHover(point: HitPoint): Promise<void> {
+    await dispatchTrusted([mouseEvent('mouseMoved', point)]);
+}
+
+/**
+ * Scroll with a wheel event at a point (the scroller under it receives it)
+ */
+export async function trustedWheel(point: HitPoint, dx: number, dy: number): Promise<void> {
+    await dispatchTrusted([mouseEvent('mouseWheel', point, { deltaX: dx, deltaY: dy })]);
+}
+
+/**
+ * Type text into the focused element one key press per character
+ */
+export async function trustedType(text: string, delay?: number, signal?: AbortSignal): Promise<void> {
+    for (const char of text) {
+        await dispatchTrusted(keyPress(char === '\n' ? 'Enter' : char, []));
+        await pause(delay, signal);
+    }
+}
+
+/**
+ * Press a chord ("Enter", "Ctrl+K") repeat times on the focused element
+ */
+export async function trustedPress(chord: string, extraModifiers: Modifier[] = [], repeat = 1, delay?: number, signal?: AbortSignal): Promise<void> {
+    const { key, modifiers } = parseChord(chord);
+    const held = [...new Set([...modifiers, ...extraModifiers])];
+    for (let i = 0; i < repeat; i++) {
+        await dispatchTrusted(keyPress(key, held));
+        if (i < repeat - 1) await pause(delay, signal);
+    }
+}
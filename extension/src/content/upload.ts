@@ -0,0 +1,92 @@
+/**
+ * Upload - File inputs and drop zones
+ * Builds File objects from base64 payloads and hands them to the page via DataTransfer
+ */
+
+import type { UploadFile } from '../shared/protocol';
+
+/**
+ * Decode a base64 payload (plain or data: URL) into a File
+ */
+function toFile(file: UploadFile): File {
+    const base64 = file.content.replace(/^data:[^,]*,/, '');
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new File([bytes], file.name, {
+        type: file.mimeType || '',
+        lastModified: Date.now(),
+    });
+}
+
+export function createDataTransfer(files: UploadFile[]): DataTransfer {
+    const dataTransfer = new DataTransfer();
+    for (const file of files) {
+        dataTransfer.items.add(toFile(file));
+    }
+    return dataTransfer;
+}
+
+/**
+ * Whether a file satisfies an accept attribute (".pdf", "image/*", "text/plain")
+ */
+function isAccepted(file: File, accept: string): boolean {
+    const patterns = accept.split(',').map(p => p.trim().toLowerCase()).filter(Boolean);
+    if (patterns.length === 0) return true;
+
+    const name = file.name.toLowerCase();
+    const type = file.type.toLowerCase();
+    return patterns.some(pattern => {
+        if (pattern.startsWith('.')) return name.endsWith(pattern);
+        if (pattern.endsWith('/*')) return type.startsWith(pattern.slice(0, -1));
+        return type === pattern;
+    });
+}
+
+/**
+ * Assign files to a file input and fire input/change as a file picker would.
+ * Throws if the input rejects the selection (multiple or accept).
+ */
+export function setInputFiles(input: HTMLInputElement, files: UploadFile[]): void {
+    if (files.length > 1 && !input.multiple) {
+        throw new Error(`Input accepts a single file, got ${files.length}`);
+    }
+
+    const dataTransfer = createDataTransfer(files);
+    const rejected = Array.from(dataTransfer.files).filter(file => !isAccepted(file, input.accept));
+    if (rejected.length > 0) {
+        throw new Error(`Not accepted by "${input.accept}": ${rejected.map(file => file.name).join(', ')}`);
+    }
+
+    input.files = dataTransfer.files;
+    input.dispatchEvent(new Event('input', { bubbles: true, composed: true }));
+    input.dispatchEvent(new Event('change', { bubbles: true }));
+}
+
+/**
+ * Drop files onto a drop zone: dragenter → dragover → drop at its centre.
+ * Returns false if the zone didn't cancel dragover (it doesn't accept drops).
+ */
+export function dropFiles(target: Element, files: UploadFile[]): boolean {
+    const dataTransfer = createDataTransfer(files);
+    const bounds = target.getBoundingClientRect();
+    const init: DragEventInit = {
+        clientX: bounds.left + bounds.width / 2,
+        clientY: bounds.top + bounds.height / 2,
+        dataTransfer,
+        bubbles: true,
+        cancelable: true,
+        composed: true,
+    };
+
+    target.dispatchEvent(new DragEvent('dragenter', init));
+    const accepted = !target.dispatchEvent(new DragEvent('dragover', init));
+    if (!accepted) {
+        target.dispatchEvent(new DragEvent('dragleave', init));
+        return false;
+    }
+    target.dispatchEvent(new DragEvent('drop', init));
+    return true;
+}
@@ -0,0 +1,337 @@
+/**
+ * Virtual Lists - Detection of virtualized and infinite-scroll lists
+ * Reports estimated size and visible range, and scrolls until a matching item renders
+ */
+
+import type { VirtualListRegion } from '../shared/protocol';
+import { getElementId, getElementById, extractActionMap, INTERACTIVE_SELECTORS } from './actionmap';
+import { toTopLevelRect } from './frames';
+import { querySelectorAllDeep, getComposedParent, closestComposed } from './shadow';
+import { sleep } from './cancel';
+
+// Child-list mutations this soon after a scroll are attributed to the scroll (ms)
+const SCROLL_WINDOW = 1000;
+
+// Time for a list to render rows after a scroll, and for a feed to load more (ms)
+const RENDER_SETTLE = 150;
+const LOAD_WAIT = 1000;
+
+const MIN_ITEMS = 3;
+const MAX_LISTS = 10;
+
+let lastScrollAt = 0;
+
+// Measures of recycled lists during one synchronous extraction (cleared in a microtask)
+let measureCache: Map<Element, ListMeasure> | null = null;
+
+// Containers whose children changed while scrolling
+const scrollChurn = new Map<Element, { added: number; removed: number }>();
+
+interface ListMeasure {
+    items: Element[];
+    top: number; // Container top in viewport coordinates
+    itemHeight: number; // Average rendered item height
+}
+
+/**
+ * Record that something scrolled (capture listener, so inner scrollers count too)
+ */
+export function noteListScroll(): void {
+    lastScrollAt = Date.now();
+}
+
+/**
+ * Record child-list churn that happened during a scroll. Containers that drop
+ * children as others are added are recycling rows; ones that only add are feeds.
+ */
+export function noteListMutations(mutations: MutationRecord[]): void {
+    if (Date.now() - lastScrollAt > SCROLL_WINDOW) return;
+
+    for (const mutation of mutations) {
+        if (mutation.type !== 'childList' || !(mutation.target instanceof Element)) continue;
+        if (mutation.target === document.body || mutation.target === document.documentElement) continue;
+
+        const added = Array.from(mutation.addedNodes).filter(node => node instanceof Element).length;
+        const removed = Array.from(mutation.removedNodes).filter(node => node instanceof Element).length;
+        if (added === 0 && removed === 0) continue;
+
+        const churn = scrollChurn.get(mutation.target) || { added: 0, removed: 0 };
+        churn.added += added;
+        churn.removed += removed;
+        scrollChurn.set(mutation.target, churn);
+    }
+}
+
+/**
+ * Nearest scrollable ancestor (or the element itself); null when the page scrolls
+ */
+function findScroller(element: Element): Element | null {
+    let current: Element | null = element;
+    while (current && current !== document.body && current !== document.documentElement) {
+        const style = window.getComputedStyle(current);
+        if (/(auto|scroll|overlay)/.test(style.overflowY) && current.scrollHeight > current.clientHeight) {
+            return current;
+        }
+        current = getComposedParent(current);
+    }
+    return null;
+}
+
+function measureList(container: Element): ListMeasure {
+    const items = Array.from(container.children).filter(child => child.getBoundingClientRect().height > 0);
+    const totalHeight = items.reduce((sum, item) => sum + item.getBoundingClientRect().height, 0);
+    return {
+        items,
+        top: container.getBoundingClientRect().top,
+        itemHeight: items.length > 0 ? totalHeight / items.length : 0,
+    };
+}
+
+function getCachedMeasure(container: Element): ListMeasure {
+    if (!measureCache) {
+        measureCache = new Map();
+        queueMicrotask(() => { measureCache = null; });
+    }
+    let measure = measureCache.get(container);
+    if (!measure) {
+        measure = measureList(container);
+        measureCache.set(container, measure);
+    }
+    return measure;
+}
+
+/**
+ * Whether items look like rows of one list (mostly the same tag), not a mixed container
+ */
+function isUniform(items: Element[]): boolean {
+    const counts = new Map<string, number>();
+    for (const item of items) {
+        counts.set(item.tagName, (counts.get(item.tagName) || 0) + 1);
+    }
+    return Math.max(...counts.values()) >= items.length * 0.8;
+}
+
+/**
+ * Item index from aria-posinset/aria-rowindex, else estimated from its offset in the container
+ */
+function getItemIndex(item: Element, measure: ListMeasure): number {
+    const position = parseInt(item.getAttribute('aria-posinset') || item.getAttribute('aria-rowindex') || '', 10);
+    if (!Number.isNaN(position)) return position - 1;
+    if (measure.itemHeight === 0) return 0;
+    return Math.max(0, Math.round((item.getBoundingClientRect().top - measure.top) / measure.itemHeight));
+}
+
+/**
+ * Declared list size from aria-setsize or an enclosing aria-rowcount (-1 means unknown)
+ */
+function getDeclaredTotal(container: Element, items: Element[]): number | null {
+    const setSize = parseInt(items[0]?.getAttribute('aria-setsize') || '', 10);
+    if (setSize > 0) return setSize;
+
+    const grid = closestComposed(container, '[aria-rowcount]');
+    const rowCount = parseInt(grid?.getAttribute('aria-rowcount') || '', 10);
+    return rowCount > 0 ? rowCount : null;
+}
+
+/**
+ * Vertical bounds of what the scroller shows, in viewport coordinates
+ */
+function getVisibleBounds(scroller: Element | null): { top: number; bottom: number } {
+    if (!scroller) return { top: 0, bottom: window.innerHeight };
+    const bounds = scroller.getBoundingClientRect();
+    return { top: Math.max(0, bounds.top), bottom: Math.min(window.innerHeight, bounds.bottom) };
+}
+
+/**
+ * The child of container that holds element, or null if element isn't inside it
+ */
+function findRow(container: Element, element: Element): Element | null {
+    let current: Element | null = element;
+    while (current) {
+        const parent = getComposedParent(current);
+        if (parent === container) return current;
+        current = parent;
+    }
+    return null;
+}
+
+/**
+ * Position key for an element inside a row of a recycled list: "item<index>".
+ * Rows are re-created or reused for other items as the list scrolls, so candidates
+ * in them are identified by item instead of by element or on-screen position.
+ */
+export function getListItemKey(element: Element): string | null {
+    for (const [container, churn] of scrollChurn) {
+        if (churn.added === 0 || churn.removed === 0 || !container.isConnected) continue;
+        const row = findRow(container, element);
+        if (row) return `item${getItemIndex(row, getCachedMeasure(container))}`;
+    }
+    return null;
+}
+
+/**
+ * Describe a list container, or return null if nothing marks it as virtualized
+ */
+function describeList(container: Element): VirtualListRegion | null {
+    const measure = measureList(container);
+    if (measure.items.length === 0) return null;
+
+    // Scroll churn only counts for containers of several similar rows
+    const churn = measure.items.length >= MIN_ITEMS && isUniform(measure.items)
+        ? scrollChurn.get(container)
+        : undefined;
+    const recycled = churn !== undefined && churn.added > 0 && churn.removed > 0;
+    const declaredTotal = getDeclaredTotal(container, measure.items);
+    const isFeed = container.getAttribute('role') === 'feed';
+
+    const virtualized = churn !== undefined || isFeed ||
+        (declaredTotal !== null && declaredTotal > measure.items.length);
+    if (!virtualized) return null;
+
+    // Virtualizers size the container (or pad it with spacers) to the full list height
+    const containerHeight = container.getBoundingClientRect().height;
+    const estimatedTotal = declaredTotal ?? Math.max(
+        measure.items.length,
+        measure.itemHeight > 0 ? Math.round(containerHeight / measure.itemHeight) : 0
+    );
+
+    const scroller = findScroller(container);
+    const visible = getVisibleBounds(scroller);
+    const indexes = measure.items
+        .filter(item => {
+            const bounds = item.getBoundingClientRect();
+            return bounds.bottom > visible.top && bounds.top < visible.bottom;
+        })
+        .map(item => getItemIndex(item, measure));
+
+    const bounds = (scroller || container).getBoundingClientRect();
+    return {
+        id: getElementId(container),
+        kind: 'virtualList',
+        scrollerId: scroller ? getElementId(scroller) : null,
+        rect: toTopLevelRect({
+            x: Math.round(bounds.left),
+            y: Math.round(visible.top),
+            w: Math.round(bounds.width),
+            h: Math.round(Math.max(0, visible.bottom - visible.top)),
+        }),
+        recycled,
+        renderedCount: measure.items.length,
+        estimatedTotal,
+        visibleRange: indexes.length > 0
+            ? { start: Math.min(...indexes), end: Math.max(...indexes) }
+            : null,
+    };
+}
+
+/**
+ * Detect virtualized lists: containers with scroll-driven child churn, feeds,
+ * and lists whose declared size exceeds what is rendered
+ */
+export function extractVirtualLists(): VirtualListRegion[] {
+    for (const container of scrollChurn.keys()) {
+        if (!container.isConnected) scrollChurn.delete(container);
+    }
+
+    const containers = new Set<Element>(scrollChurn.keys());
+    for (const feed of querySelectorAllDeep('[role="feed"]')) {
+        containers.add(feed);
+    }
+    for (const item of querySelectorAllDeep('[aria-posinset], [aria-rowindex]')) {
+        if (item.parentElement) containers.add(item.parentElement);
+    }
+
+    const lists: VirtualListRegion[] = [];
+    for (const container of containers) {
+        if (lists.length >= MAX_LISTS) break;
+        const list = describeList(container);
+        if (list) lists.push(list);
+    }
+    return lists;
+}
+
+/**
+ * Resolve a list by id, or the first detected list
+ */
+function findList(listId?: string): Element | null {
+    if (listId) return getElementById(listId);
+    const [first] = extractVirtualLists();
+    return first ? getElementById(first.id) : null;
+}
+
+async function settle(ms: number, signal?: AbortSignal): Promise<void> {
+    await new Promise(resolve => requestAnimationFrame(resolve));
+    await sleep(ms, signal);
+}
+
+function matchesQuery(item: Element, query: string): boolean {
+    const text = `${item.textContent || ''} ${item.getAttribute('aria-label') || ''}`;
+    return text.replace(/\s+/g, ' ').toLowerCase().includes(query);
+}
+
+/**
+ * Scroll a virtual list until an item containing the query text is rendered,
+ * then bring it into view. Scrolls down to the end first, then wraps to the top.
+ */
+export async function scrollToListItem(
+    query: string,
+    listId?: string,
+    maxScrolls = 50,
+    signal?: AbortSignal
+): Promise<{ id: string; index: number; candidateIds: string[]; scrolls: number }> {
+    const container = findList(listId);
+    if (!container) {
+        throw new Error(listId ? `List not found: ${listId}` : 'No virtual list found');
+    }
+
+    const needle = query.toLowerCase();
+    const scroller = findScroller(container);
+    const scrollTarget = scroller || window;
+    const getScrollTop = () => (scroller ? scroller.scrollTop : window.scrollY);
+    const getScrollHeight = () => (scroller || document.documentElement).scrollHeight;
+    let wrapped = false;
+
+    for (let scrolls = 0; scrolls <= maxScrolls; scrolls++) {
+        if (!container.isConnected) {
+            throw new Error('List was removed while scrolling');
+        }
+
+        const measure = measureList(container);
+        const item = measure.items.find(candidate => matchesQuery(candidate, needle));
+        if (item) {
+            item.scrollIntoView({ block: 'center', behavior: 'instant' });
+            await settle(0);
+
+            // Extract first so the row's candidates get their item-keyed ids, not fresh ones
+            extractActionMap();
+            const interactive = querySelectorAllDeep(INTERACTIVE_SELECTORS, item);
+            return {
+                id: getElementId(item),
+                index: getItemIndex(item, measureList(container)),
+                candidateIds: interactive.map(getElementId),
+                scrolls,
+            };
+        }
+
+        if (scrolls === maxScrolls) break;
+
+        const before = getScrollTop();
+        const pageSize = (scroller ? scroller.clientHeight : window.innerHeight) * 0.8;
+        scrollTarget.scrollBy({ top: pageSize, behavior: 'instant' });
+        await settle(RENDER_SETTLE, signal);
+
+        if (getScrollTop() === before) {
+            // At the end: give a feed a chance to load more, then wrap to the top once
+            const height = getScrollHeight();
+            await settle(LOAD_WAIT, signal);
+            if (getScrollHeight() > height) continue;
+            if (wrapped) break;
+
+            wrapped = true;
+            scrollTarget.scrollTo({ top: 0, behavior: 'instant' });
+            await settle(RENDER_SETTLE, signal);
+        }
+    }
+
+    throw new Error(`No item matching "${query}" in list`);
+}
@@ -0,0 +1,152 @@
+/**
+ * Wait - Condition waits against the live DOM and ActionMap
+ * Polls a condition (re-checking on mutations) until it holds or the timeout passes
+ */
+
+import type { ActionCandidate, WaitForCommand } from '../shared/protocol';
+import { extractActionMap, findCandidate, getElementById } from './actionmap';
+import { querySelectorAllDeep } from './shadow';
+import { sleep } from './cancel';
+
+const POLL_INTERVAL = 100;
+
+// Re-check at least this often even without mutations (layout and URL changes) (ms)
+const RECHECK_INTERVAL = 500;
+
+const DEFAULT_TIMEOUT = 10000;
+const DEFAULT_QUIET = 500;
+
+const MODAL_SELECTOR = '[role="dialog"], [role="alertdialog"], dialog[open], [aria-modal="true"]';
+
+export interface WaitResult {
+    met: boolean;
+    elapsed: number;
+    candidate: ActionCandidate | null;
+}
+
+interface Check {
+    met: boolean;
+    candidate?: ActionCandidate | null;
+}
+
+function isShown(element: Element): boolean {
+    const bounds = element.getBoundingClientRect();
+    return bounds.width > 0 && bounds.height > 0;
+}
+
+/**
+ * Find the candidate a wait refers to, by id or by search query
+ */
+function findTarget(cmd: WaitForCommand): ActionCandidate | null {
+    const candidates = extractActionMap();
+    if (cmd.id) return candidates.find(c => c.id === cmd.id) || null;
+    if (cmd.query) return findCandidate(cmd.query, candidates);
+    return null;
+}
+
+/**
+ * Match a URL pattern: /regex/ or a substring
+ */
+function matchesUrl(pattern: string): boolean {
+    const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+    if (regex) return new RegExp(regex[1], regex[2]).test(location.href);
+    return location.href.includes(pattern);
+}
+
+function hasModal(): boolean {
+    return querySelectorAllDeep(MODAL_SELECTOR).some(isShown);
+}
+
+function check(cmd: WaitForCommand, lastMutationAt: number): Check {
+    switch (cmd.condition) {
+        case 'appear': {
+            const candidate = findTarget(cmd);
+            return { met: candidate !== null, candidate };
+        }
+        case 'disappear': {
+            if (cmd.id && !cmd.query) {
+                const element = getElementById(cmd.id);
+                return { met: !element || !element.isConnected || !isShown(element) };
+            }
+            return { met: findTarget(cmd) === null };
+        }
+        case 'enabled': {
+            const candidate = findTarget(cmd);
+            return { met: candidate !== null && !candidate.state.disabled, candidate };
+        }
+        case 'text': {
+            const text = (cmd.text || '').toLowerCase();
+            return { met: (document.body?.innerText || '').toLowerCase().includes(text) };
+        }
+        case 'url':
+            return { met: matchesUrl(cmd.url || '') };
+        case 'modal_open':
+            return { met: hasModal() };
+        case 'modal_closed':
+            return { met: !hasModal() };
+        case 'quiet':
+            return { met: Date.now() - lastMutationAt >= (cmd.quietMs || DEFAULT_QUIET) };
+    }
+}
+
+/**
+ * Describe what a wait was for, for timeout messages
+ */
+export function describeWait(cmd: WaitForCommand): string {
+    const subject = cmd.id || (cmd.query ? `"${cmd.query}"` : '');
+    switch (cmd.condition) {
+        case 'appear':
+        case 'disappear':
+        case 'enabled':
+            return `${subject} to ${cmd.condition === 'enabled' ? 'be enabled' : cmd.condition}`;
+        case 'text':
+            return `text "${cmd.text}"`;
+        case 'url':
+            return `URL matching ${cmd.url}`;
+        case 'modal_open':
+            return 'a modal to open';
+        case 'modal_closed':
+            return 'modals to close';
+        case 'quiet':
+            return `${cmd.quietMs || DEFAULT_QUIET}ms without DOM changes`;
+    }
+}
+
+/**
+ * Wait until the command's condition holds. Checks immediately, then after
+ * DOM mutations (at most every POLL_INTERVAL) and every RECHECK_INTERVAL.
+ */
+export async function waitForCondition(cmd: WaitForCommand, signal?: AbortSignal): Promise<WaitResult> {
+    const start = Date.now();
+    const deadline = start + (cmd.timeout ?? DEFAULT_TIMEOUT);
+
+    let lastMutationAt = start;
+    let dirty = true;
+    const observer = new MutationObserver(() => {
+        lastMutationAt = Date.now();
+        dirty = true;
+    });
+    observer.observe(document, { childList: true, subtree: true, attributes: true, characterData: true });
+
+    try {
+        let lastCheckAt = 0;
+        while (true) {
+            const now = Date.now();
+            // Quiescence is a timer, not a DOM state; check it every poll
+            if (dirty || cmd.condition === 'quiet' || now - lastCheckAt >= RECHECK_INTERVAL) {
+                dirty = false;
+                lastCheckAt = now;
+                const result = check(cmd, lastMutationAt);
+                if (result.met) {
+                    return { met: true, elapsed: now - start, candidate: result.candidate || null };
+                }
+            }
+            if (now >= deadline) {
+                return { met: false, elapsed: now - start, candidate: null };
+            }
+            await sleep(POLL_INTERVAL, signal);
+        }
+    } finally {
+        observer.disconnect();
+    }
+}
@@ -3,8 +3,11 @@
  * Uses MutationObserver, ResizeObserver, and IntersectionObserver to detect changes
  */
 
-import type { ActionCandidate, ActionMapDelta } from '../shared/protocol';
+import type { ActionCandidate, ActionMapDelta, Occluder } from '../shared/protocol';
 import { extractActionMap, getElementId, INTERACTIVE_SELECTORS } from './actionmap';
+import { collectShadowRoots, hasDeepMatch, querySelectorAllDeep } from './shadow';
+import { pruneRegistry } from './registry';
+import { noteListScroll, noteListMutations } from './virtuallist';
 
 type DeltaCallback = (delta: ActionMapDelta) => void;
 
@@ -17,9 +20,34 @@ let isWatching = false;
 let pendingUpdate = false;
 let updateTimeout: number | null = null;
 
+// Shadow roots already attached to the MutationObserver
+let observedShadowRoots = new WeakSet<ShadowRoot>();
+
 // Debounce time for updates (ms)
 const UPDATE_DEBOUNCE = 50;
 
+// Attributes that can change an element's interactive state
+const OBSERVED_ATTRIBUTES = [
+    'disabled',
+    'aria-disabled',
+    'aria-expanded',
+    'aria-checked',
+    'aria-selected',
+    'aria-label',
+    'class',
+    'style',
+    'hidden',
+    'value',
+];
+
+/**
+ * Whether two occluders describe the same overlay (rect jitter doesn't count)
+ */
+function isSameOccluder(a: Occluder | null, b: Occluder | null): boolean {
+    if (!a || !b) return a === b;
+    return a.id === b.id && a.dismissId === b.dismissId && a.role === b.role && a.name === b.name;
+}
+
 /**
  * Compare two candidates and return which fields changed
  */
@@ -30,8 +58,9 @@ function diffCandidate(
     const changes: Partial<ActionCandidate> = {};
     let hasChanges = false;
 
-    // Check rect changes (with tolerance)
+    // Check rect changes (with tolerance); entering/leaving the viewport switches coordinate space
     if (
+        oldCandidate.inViewport !== newCandidate.inViewport ||
         Math.abs(oldCandidate.rect.x - newCandidate.rect.x) > 2 ||
         Math.abs(oldCandidate.rect.y - newCandidate.rect.y) > 2 ||
         Math.abs(oldCandidate.rect.w - newCandidate.rect.w) > 2 ||
@@ -40,6 +69,7 @@ function diffCandidate(
         changes.rect = newCandidate.rect;
         changes.rectN = newCandidate.rectN;
         changes.hit = newCandidate.hit;
+        changes.inViewport = newCandidate.inViewport;
         hasChanges = true;
     }
 
@@ -61,6 +91,25 @@ function diffCandidate(
         hasChanges = true;
     }
 
+    // Check outline placement changes
+    if (oldCandidate.headingId !== newCandidate.headingId || oldCandidate.landmarkId !== newCandidate.landmarkId) {
+        changes.headingId = newCandidate.headingId;
+        changes.landmarkId = newCandidate.landmarkId;
+        hasChanges = true;
+    }
+
+    // Check description changes (e.g. validation messages via aria-describedby)
+    if (oldCandidate.description !== newCandidate.description) {
+        changes.description = newCandidate.description;
+        hasChanges = true;
+    }
+
+    // Check fingerprint changes (name or landmark moves, large layout shifts)
+    if (oldCandidate.fingerprint !== newCandidate.fingerprint) {
+        changes.fingerprint = newCandidate.fingerprint;
+        hasChanges = true;
+    }
+
     // Check value changes
     if (oldCandidate.value !== newCandidate.value) {
         changes.value = newCandidate.value;
@@ -68,8 +117,15 @@ function diffCandidate(
     }
 
     // Check occlusion changes
-    if (oldCandidate.occluded !== newCandidate.occluded) {
+    if (
+        oldCandidate.occluded !== newCandidate.occluded ||
+        !isSameOccluder(oldCandidate.occludedBy, newCandidate.occludedBy) ||
+        Math.abs(oldCandidate.visibleFraction - newCandidate.visibleFraction) > 0.1
+    ) {
         changes.occluded = newCandidate.occluded;
+        changes.visibleFraction = newCandidate.visibleFraction;
+        changes.occludedBy = newCandidate.occludedBy;
+        changes.hit = newCandidate.hit;
         hasChanges = true;
     }
 
@@ -134,6 +190,12 @@ function processPendingUpdate() {
     pendingUpdate = false;
     updateTimeout = null;
 
+    // Newly attached shadow roots need observing before the next mutation
+    observeShadowRoots();
+
+    // Drop registry entries for nodes that were removed since the last pass
+    pruneRegistry();
+
     const currentCandidates = extractActionMap();
     const delta = computeDelta(currentCandidates);
 
@@ -163,6 +225,9 @@ function scheduleUpdate() {
  * Handle mutation events
  */
 function handleMutations(mutations: MutationRecord[]) {
+    // Rows swapped in and out while scrolling mark a virtualized list
+    noteListMutations(mutations);
+
     // Check if any mutation affects interactive elements
     let hasRelevantChanges = false;
 
@@ -171,7 +236,7 @@ function handleMutations(mutations: MutationRecord[]) {
             // Check added/removed nodes
             for (const node of mutation.addedNodes) {
                 if (node instanceof Element) {
-                    if (node.matches(INTERACTIVE_SELECTORS) || node.querySelector(INTERACTIVE_SELECTORS)) {
+                    if (hasDeepMatch(INTERACTIVE_SELECTORS, node)) {
                         hasRelevantChanges = true;
                         break;
                     }
@@ -179,7 +244,7 @@ function handleMutations(mutations: MutationRecord[]) {
             }
             for (const node of mutation.removedNodes) {
                 if (node instanceof Element) {
-                    if (node.matches(INTERACTIVE_SELECTORS) || node.querySelector(INTERACTIVE_SELECTORS)) {
+                    if (hasDeepMatch(INTERACTIVE_SELECTORS, node)) {
                         hasRelevantChanges = true;
                         break;
                     }
@@ -213,6 +278,29 @@ function handleMutations(mutations: MutationRecord[]) {
     }
 }
 
+/**
+ * Options for observing a subtree with the MutationObserver
+ */
+const MUTATION_OPTIONS: MutationObserverInit = {
+    childList: true,
+    subtree: true,
+    attributes: true,
+    attributeFilter: OBSERVED_ATTRIBUTES,
+};
+
+/**
+ * Attach the MutationObserver to open shadow roots it is not yet watching
+ */
+function observeShadowRoots() {
+    if (!mutationObserver) return;
+
+    for (const shadowRoot of collectShadowRoots()) {
+        if (observedShadowRoots.has(shadowRoot)) continue;
+        observedShadowRoots.add(shadowRoot);
+        mutationObserver.observe(shadowRoot, MUTATION_OPTIONS);
+    }
+}
+
 /**
  * Handle resize events
  */
@@ -248,23 +336,11 @@ export function startWatching(callback: DeltaCallback): ActionCandidate[] {
 
     // Set up MutationObserver
     mutationObserver = new MutationObserver(handleMutations);
-    mutationObserver.observe(document.body, {
-        childList: true,
-        subtree: true,
-        attributes: true,
-        attributeFilter: [
-            'disabled',
-            'aria-disabled',
-            'aria-expanded',
-            'aria-checked',
-            'aria-selected',
-            'aria-label',
-            'class',
-            'style',
-            'hidden',
-            'value',
-        ],
-    });
+    mutationObserver.observe(document.body, MUTATION_OPTIONS);
+
+    // Mutations inside shadow roots don't reach the document observer
+    observedShadowRoots = new WeakSet();
+    observeShadowRoots();
 
     // Set up ResizeObserver
     resizeObserver = new ResizeObserver(handleResize);
@@ -276,7 +352,7 @@ export function startWatching(callback: DeltaCallback): ActionCandidate[] {
     });
 
     // Observe all interactive elements
-    for (const el of document.querySelectorAll(INTERACTIVE_SELECTORS)) {
+    for (const el of querySelectorAllDeep(INTERACTIVE_SELECTORS)) {
         intersectionObserver.observe(el);
     }
 
@@ -284,6 +360,13 @@ export function startWatching(callback: DeltaCallback): ActionCandidate[] {
     window.addEventListener('scroll', scheduleUpdate, { passive: true });
     window.addEventListener('resize', scheduleUpdate, { passive: true });
 
+    // Inner scrollers don't fire window scroll; capture them for list detection
+    document.addEventListener('scroll', noteListScroll, { capture: true, passive: true });
+
+    // Focus moves don't mutate the DOM; report them so the backend knows what keys reach
+    document.addEventListener('focusin', scheduleUpdate, true);
+    document.addEventListener('focusout', scheduleUpdate, true);
+
     return candidates;
 }
 
@@ -316,6 +399,9 @@ export function stopWatching() {
 
     window.removeEventListener('scroll', scheduleUpdate);
     window.removeEventListener('resize', scheduleUpdate);
+    document.removeEventListener('scroll', noteListScroll, { capture: true });
+    document.removeEventListener('focusin', scheduleUpdate, true);
+    document.removeEventListener('focusout', scheduleUpdate, true);
 
     previousCandidates.clear();
 }
@@ -0,0 +1,63 @@
+/**
+ * Worker - Requests from the content script to the service worker
+ * Sends requests over the content script's port and matches replies by request id
+ */
+
+import type {
+    TrustedInputRequest,
+    TrustedInputResult,
+    CapturePatchRequest,
+    CapturePatchResult,
+} from '../shared/protocol';
+
+export type WorkerRequest = TrustedInputRequest | CapturePatchRequest;
+export type WorkerReply = TrustedInputResult | CapturePatchResult;
+
+type RequestBody<T> = T extends WorkerRequest ? Omit<T, 'requestId'> : never;
+
+let send: ((request: WorkerRequest) => void) | null = null;
+let requestCounter = 0;
+const pending = new Map<string, { resolve: (reply: WorkerReply) => void; reject: (error: Error) => void }>();
+
+/**
+ * Set how requests reach the service worker (the content script's port)
+ */
+export function setWorkerTransport(sender: ((request: WorkerRequest) => void) | null): void {
+    send = sender;
+}
+
+/**
+ * Settle the request a service worker reply answers
+ */
+export function handleWorkerReply(reply: WorkerReply): void {
+    const request = pending.get(reply.requestId);
+    if (!request) return;
+    pending.delete(reply.requestId);
+
+    if (reply.ok) {
+        request.resolve(reply);
+    } else {
+        request.reject(new Error(reply.error || `${reply.type} failed`));
+    }
+}
+
+/**
+ * Send a request and wait for its reply; rejects on a failed reply or timeout
+ */
+export function requestWorker<R extends WorkerReply>(request: RequestBody<WorkerRequest>, timeout: number): Promise<R> {
+    if (!send) return Promise.reject(new Error('Service worker unavailable: not connected'));
+
+    const requestId = `w_${(requestCounter++).toString(36)}`;
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            pending.delete(requestId);
+            reject(new Error(`${request.type} timed out`));
+        }, timeout);
+
+        pending.set(requestId, {
+            resolve: (reply) => { clearTimeout(timer); resolve(reply as R); },
+            reject: (error) => { clearTimeout(timer); reject(error); },
+        });
+        send!({ ...request, requestId } as WorkerRequest);
+    });
+}
@@ -38,6 +38,15 @@ export interface StyleHint {
     textColor?: string;
 }
 
+// The overlay covering a candidate; id is only set when the overlay is itself a candidate
+export interface Occluder {
+    id: string | null;
+    dismissId: string | null; // Its close control, or else the first candidate inside it
+    role: string;
+    name: string;
+    rect: Rect; // Top-level viewport coordinates
+}
+
 export interface HitPoint {
     cx: number;
     cy: number;
@@ -46,10 +55,11 @@ export interface HitPoint {
 export interface ActionCandidate {
     id: string;
     rect: Rect;
-    rectN: Rect; // Normalized (0-1) relative to viewport
+    rectN: Rect; // Normalized (0-1) relative to top-level viewport, clamped to its visible part
     role: string;
     tag: string;
     name: string;
+    description: string; // aria-describedby / aria-description / title
     aria: string;
     placeholder?: string;
     value?: string;
@@ -58,8 +68,15 @@ export interface ActionCandidate {
     ctx: ActionContext;
     styleHint: StyleHint;
     hit: HitPoint;
-    occluded: boolean;
-    frameId?: number;
+    occluded: boolean; // No sample point hits the element
+    visibleFraction: number; // Share of hit-test sample points where the element is on top (0-1)
+    occludedBy: Occluder | null; // The overlay covering it (cookie banner, sticky header, backdrop)
+    inViewport: boolean; // false: off-screen; rect and hit lie outside the top-level viewport, rectN is zero-sized
+    frameId?: number; // Owning frame (0 for main frame); rects are in top-level viewport coordinates
+    shadowPath?: string[]; // Shadow host selectors (outermost first) when inside open shadow roots
+    fingerprint: string; // "<semantic hash>:<col>.<row>" ("<hash>:item<index>" in recycled lists) - stable across re-renders and navigations
+    headingId: string | null; // Nearest preceding heading (see PageOutline)
+    landmarkId: string | null; // Innermost containing landmark (see PageOutline)
 }
 
 // ============================================================================
@@ -86,6 +103,151 @@ export interface ActionMapDelta {
     updated: Partial<ActionCandidate & { id: string }>[]; // Partial updates with required id
 }
 
+// ============================================================================
+// Page Outline (non-interactive structure)
+// ============================================================================
+
+export interface OutlineLandmark {
+    id: string;
+    role: string; // banner, navigation, main, region, dialog, ...
+    name: string;
+    rect: Rect;
+    parentId: string | null; // Enclosing landmark
+}
+
+export interface OutlineHeading {
+    id: string;
+    level: number; // 1-6
+    text: string;
+    rect: Rect;
+    landmarkId: string | null;
+}
+
+export interface OutlineTextBlock {
+    id: string;
+    text: string; // Visible text, truncated
+    rect: Rect;
+    headingId: string | null;
+    landmarkId: string | null;
+}
+
+export interface PageOutline {
+    type: 'outline';
+    tabId: number;
+    frameId: number;
+    url: string;
+    timestamp: number;
+    landmarks: OutlineLandmark[];
+    headings: OutlineHeading[];
+    textBlocks: OutlineTextBlock[];
+}
+
+// ============================================================================
+// Form Schemas
+// ============================================================================
+
+export interface FormFieldOption {
+    value: string;
+    label: string;
+    selected: boolean;
+    id?: string; // Radio options are separate elements
+}
+
+export interface FormField {
+    id: string;
+    label: string; // Accessible name
+    name: string; // name attribute
+    type: string; // Input type, 'select', 'select-multiple', 'textarea' or 'radio' (a whole group)
+    required: boolean;
+    disabled: boolean;
+    value: string;
+    checked?: boolean; // Checkboxes
+    placeholder?: string;
+    pattern?: string;
+    min?: string;
+    max?: string;
+    step?: string;
+    minLength?: number;
+    maxLength?: number;
+    valid: boolean;
+    validationMessage: string;
+    options?: FormFieldOption[]; // Selects and radio groups
+}
+
+export interface FormSchema {
+    id: string;
+    name: string;
+    action: string;
+    method: string;
+    fields: FormField[];
+    submitId: string | null; // Default submit button
+}
+
+export interface FormsMessage {
+    type: 'forms';
+    tabId: number;
+    frameId: number;
+    timestamp: number;
+    forms: FormSchema[];
+}
+
+// ============================================================================
+// Tables and Grids
+// ============================================================================
+
+export interface TableCell {
+    column: number; // Column index (after expanding colspans), lines up with headers
+    text: string;
+    candidateIds: string[]; // Interactive elements inside the cell (also when not in the current ActionMap)
+    candidateNames: string[]; // Their accessible names, in the same order
+}
+
+export interface TableRow {
+    id: string;
+    index: number; // Body row index (from aria-rowindex in virtualized grids)
+    cells: TableCell[];
+}
+
+export interface TableSchema {
+    id: string;
+    name: string;
+    kind: 'table' | 'grid' | 'treegrid';
+    headers: string[]; // One label per column
+    rows: TableRow[]; // Capped; see rowCount
+    rowCount: number; // Total body rows, including ones not extracted or not in the DOM
+}
+
+export interface TablesMessage {
+    type: 'tables';
+    tabId: number;
+    frameId: number;
+    timestamp: number;
+    tables: TableSchema[];
+}
+
+// ============================================================================
+// Regions (virtualized lists)
+// ============================================================================
+
+export interface VirtualListRegion {
+    id: string; // Item container
+    kind: 'virtualList';
+    scrollerId: string | null; // Scrolling element; null when the page itself scrolls
+    rect: Rect; // Visible part of the list
+    recycled: boolean; // Rows are removed as others render (vs. only appended, like a feed)
+    renderedCount: number; // Items currently in the DOM
+    estimatedTotal: number; // From aria-setsize/aria-rowcount, else list height / average row height
+    visibleRange: { start: number; end: number } | null; // 0-based indexes of items in view
+}
+
+export interface RegionsMessage {
+    type: 'regions';
+    tabId: number;
+    frameId: number;
+    timestamp: number;
+    regions: VirtualListRegion[];
+}
+
 // ============================================================================
 // Browser → Backend Messages (telemetry)
 // ============================================================================
@@ -93,6 +255,7 @@ export interface ActionMapDelta {
 export interface HelloMessage {
     type: 'hello';
     tabId: number;
+    frameId?: number; // Set by background; 0 for main frame
     url: string;
     viewport: { width: number; height: number };
     userAgent: string;
@@ -111,6 +274,7 @@ export interface PointerMessage {
 export interface EventMessage {
     type: 'event';
     tabId: number;
+    frameId?: number; // Set by background; 0 for main frame
     eventType: 'menu_opened' | 'menu_closed' | 'modal_opened' | 'modal_closed' | 'navigation' | 'load' | 'unload';
     anchorId?: string;
     submenuIds?: string[];
@@ -122,6 +286,10 @@ export type TelemetryMessage =
     | HelloMessage
     | ActionMapSnapshot
     | ActionMapDelta
+    | PageOutline
+    | FormsMessage
+    | TablesMessage
+    | RegionsMessage
     | PointerMessage
     | EventMessage;
 
@@ -129,75 +297,253 @@ export type TelemetryMessage =
 // Backend → Browser Messages (commands)
 // ============================================================================
 
+// Pointer path shape and timing. bezier curves the path; minimum_jerk follows the
+// smooth speed profile of human reaching movements
+export type PointerCurve = 'linear' | 'ease' | 'bezier' | 'minimum_jerk';
+
 export interface MoveMouseCommand {
     type: 'move_mouse';
     commandId: string;
+    timeoutMs?: number;
     x: number;
     y: number;
     steps?: number;
-    curve?: 'linear' | 'ease' | 'bezier';
+    curve?: PointerCurve;
+    duration?: number;
+    jitter?: number; // Max sideways wobble along the path (px)
+}
+
+export interface DragCommand {
+    type: 'drag';
+    commandId: string;
+    timeoutMs?: number;
+    id: string;
+    targetId?: string;
+    x?: number;
+    y?: number;
+    steps?: number;
+    curve?: PointerCurve;
     duration?: number;
+    recovery?: RecoveryOptions;
+}
+
+export interface UploadFile {
+    name: string;
+    mimeType?: string;
+    content: string; // base64, or a data: URL
+}
+
+export interface UploadCommand {
+    type: 'upload';
+    commandId: string;
+    timeoutMs?: number;
+    id: string; // file input, its label/button, or a drop zone
+    files: UploadFile[];
+}
+
+export type WaitCondition =
+    | 'appear' // A candidate matching id/query exists
+    | 'disappear' // No candidate matches id/query
+    | 'enabled' // The candidate exists and is not disabled
+    | 'text' // Page text contains text (case-insensitive)
+    | 'url' // URL contains url, or matches it as /regex/
+    | 'modal_open'
+    | 'modal_closed'
+    | 'quiet'; // No DOM mutations for quietMs
+
+export interface WaitForCommand {
+    type: 'wait_for';
+    commandId: string;
+    timeoutMs?: number;
+    condition: WaitCondition;
+    id?: string;
+    query?: string; // Candidate search, as in query
+    text?: string;
+    url?: string;
+    quietMs?: number; // Default 500
+    timeout?: number; // Default 10000
+}
+
+export interface NavigateMenuCommand {
+    type: 'navigate_menu';
+    commandId: string;
+    timeoutMs?: number;
+    path: string[]; // Menu labels from the top level down: ["File", "Export", "PDF"]
+    timeout?: number; // Per submenu (ms), default 1500
+}
+
+// synthetic: DOM events dispatched by the content script (isTrusted false)
+// trusted: CDP Input events through chrome.debugger (isTrusted true)
+export type InputMode = 'synthetic' | 'trusted';
+
+// How the executor gets a target back into an actionable state before retrying:
+// reresolve: find the element again by fingerprint, then by role and name
+// scroll: scroll it to the centre of the viewport
+// dismiss_overlay: click the covering overlay's close control, or press Escape
+// wait_stable: wait until its rect stops changing
+export type Remedy = 'reresolve' | 'scroll' | 'dismiss_overlay' | 'wait_stable';
+
+export interface RecoveryOptions {
+    retries?: number; // Default 2; 0 acts on the target as found
+    remedies?: Remedy[]; // Default all
+}
+
+export interface RecoveryAttempt {
+    attempt: number; // 1-based
+    problem: 'not_found' | 'offscreen' | 'moving' | 'occluded';
+    detail: string;
+    remedy: Remedy | null; // null when no remedy was left to try
+    action?: string; // What the remedy did, e.g. the overlay control it clicked
+    resolvedId?: string; // Id the target was re-resolved to
 }
 
 export interface HoverCommand {
     type: 'hover';
     commandId: string;
+    timeoutMs?: number;
     id: string;
-    duration?: number;
+    duration?: number; // Dwell after arriving (ms)
+    steps?: number; // Path from the last pointer position (synthetic mode)
+    curve?: PointerCurve;
+    jitter?: number;
+    inputMode?: InputMode;
+    recovery?: RecoveryOptions;
 }
 
 export interface ClickCommand {
     type: 'click';
     commandId: string;
+    timeoutMs?: number;
     id: string;
     button?: 'left' | 'right' | 'middle';
     modifiers?: ('ctrl' | 'shift' | 'alt' | 'meta')[];
     clickCount?: number;
+    inputMode?: InputMode;
+    recovery?: RecoveryOptions;
 }
 
 export interface TypeCommand {
     type: 'type';
     commandId: string;
+    timeoutMs?: number;
     id: string;
     text: string;
     mode?: 'replace' | 'append' | 'prepend';
     delay?: number;
     clearFirst?: boolean;
+    inputMode?: InputMode;
+    recovery?: RecoveryOptions;
+}
+
+export interface KeyCommand {
+    type: 'key';
+    commandId: string;
+    timeoutMs?: number;
+    key: string; // Key or chord: "Enter", "Escape", "ArrowDown", "Ctrl+K", "Meta+Shift+P"
+    id?: string; // Target candidate (focused first); defaults to the focused element
+    modifiers?: ('ctrl' | 'shift' | 'alt' | 'meta')[]; // Held in addition to the chord's own
+    repeat?: number; // Press count
+    delay?: number; // Between presses (ms)
+    inputMode?: InputMode;
+    recovery?: RecoveryOptions;
 }
 
 export interface ScrollCommand {
     type: 'scroll';
     commandId: string;
+    timeoutMs?: number;
     dx: number;
     dy: number;
     target?: string; // Element ID or 'viewport'
+    inputMode?: InputMode;
 }
 
 export interface FocusCommand {
     type: 'focus';
     commandId: string;
+    timeoutMs?: number;
     id: string;
 }
 
 export interface SelectCommand {
     type: 'select';
     commandId: string;
+    timeoutMs?: number;
     id: string;
-    value: string | string[];
+    value: string | string[]; // Option value or label; for comboboxes, the option's label
+    filter?: boolean; // Comboboxes: type the value into the input to filter options first
+    recovery?: RecoveryOptions;
 }
 
 export interface CapturePatchCommand {
     type: 'capture_patch';
     commandId: string;
-    x: number;
-    y: number;
-    w: number;
-    h: number;
+    timeoutMs?: number;
+    id?: string; // Candidate to capture (revealed first); or give a rect
+    x?: number; // Rect in top-level viewport coordinates
+    y?: number;
+    w?: number;
+    h?: number;
+    padding?: number; // Around a candidate (px), default 4
+    format?: 'png' | 'jpeg';
+    quality?: number; // JPEG quality (0-100)
+}
+
+export interface ScrollToItemCommand {
+    type: 'scroll_to_item';
+    commandId: string;
+    timeoutMs?: number;
+    query: string; // Text the item must contain (case-insensitive)
+    listId?: string; // Virtual list region id; defaults to the first detected list
+    maxScrolls?: number;
+}
+
+// What must hold after a batch step; checked until it holds or expect.timeout passes
+export interface StepExpectation {
+    id?: string; // Candidate the checks apply to; defaults to the step's target
+    visible?: boolean; // Candidate still present and hittable (true) or gone (false)
+    value?: string; // Field value (or editable text) equals
+    focused?: boolean; // Candidate holds focus
+    text?: string; // Page text contains
+    url?: string; // URL contains
+    timeout?: number; // Default 1000
+}
+
+type BatchStepOf<C> = C extends BatchCommand ? never : Omit<C, 'commandId'> & { commandId?: string };
+
+// A command inside a batch; commandId defaults to "<batch commandId>.<index>"
+export type BatchStepCommand = BatchStepOf<Command>;
+
+export interface BatchStep {
+    command: BatchStepCommand;
+    expect?: StepExpectation;
+    delay?: number; // Pause before the step (ms)
+}
+
+export interface BatchCommand {
+    type: 'batch';
+    commandId: string;
+    timeoutMs?: number;
+    steps: BatchStep[];
+    onFailure?: 'stop' | 'continue'; // Default stop: later steps are skipped
+}
+
+export interface BatchStepResult {
+    index: number;
+    type: string;
+    commandId: string;
+    status: 'ok' | 'fail' | 'verify' | 'cancelled' | 'skipped';
+    reason?: string;
+    result?: unknown;
+    verification?: CommandAckVerify['verification'];
+    recovery?: RecoveryAttempt[];
+    elapsed: number; // ms
 }
 
 export interface QueryCommand {
     type: 'query';
     commandId: string;
+    timeoutMs?: number;
     search: string; // Text search for elements
     filters?: {
         role?: string;
@@ -207,17 +553,99 @@ export interface QueryCommand {
     };
 }
 
+// Every command takes timeoutMs (default 30000; wait_for and batch default to their own waits
+// plus 5000): the content script stops the command then and acks it as failed with reason
+// "timeout"; the backend fills in the default and waits a little longer
 export type Command =
     | MoveMouseCommand
+    | DragCommand
+    | UploadCommand
+    | WaitForCommand
+    | NavigateMenuCommand
     | HoverCommand
     | ClickCommand
     | TypeCommand
+    | KeyCommand
     | ScrollCommand
     | FocusCommand
     | SelectCommand
+    | ScrollToItemCommand
     | CapturePatchCommand
+    | BatchCommand
     | QueryCommand;
 
+export interface PerceptionOptions {
+    includeOffscreen?: boolean; // Also report rendered candidates outside the viewport
+}
+
+export interface ConfigureMessage {
+    type: 'configure';
+    tabId: number;
+    options: PerceptionOptions;
+}
+
+// Stop a running command; the executor acks it as cancelled
+export interface CancelMessage {
+    type: 'cancel';
+    tabId: number;
+    commandId: string;
+    reason?: string;
+}
+
+// Default input mode per domain (subdomains match); merged into the current defaults
+export interface InputDefaultsMessage {
+    type: 'input_defaults';
+    defaults: Record<string, InputMode>;
+}
+
+// Content script -> service worker -> the tab's other frames: last pointer
+// position in top-level viewport coordinates
+export interface PointerPositionMessage {
+    type: 'pointer_position';
+    x: number;
+    y: number;
+}
+
+export interface TrustedInputEvent {
+    method: 'Input.dispatchMouseEvent' | 'Input.dispatchKeyEvent' | 'Input.insertText';
+    params: Record<string, unknown>;
+}
+
+// Content script -> service worker: dispatch input through chrome.debugger
+export interface TrustedInputRequest {
+    type: 'trusted_input';
+    requestId: string;
+    events: TrustedInputEvent[];
+}
+
+export interface TrustedInputResult {
+    type: 'trusted_input_result';
+    requestId: string;
+    ok: boolean;
+    error?: string;
+}
+
+// Content script -> service worker: capture the visible tab and crop it
+export interface CapturePatchRequest {
+    type: 'capture_patch_request';
+    requestId: string;
+    rect: Rect; // Top-level viewport coordinates (CSS px)
+    viewport: { width: number; height: number }; // Top-level viewport size (CSS px)
+    format: 'png' | 'jpeg';
+    quality?: number;
+}
+
+export interface CapturePatchResult {
+    type: 'capture_patch_result';
+    requestId: string;
+    ok: boolean;
+    error?: string;
+    data?: string; // base64 image
+    width?: number; // Device pixels
+    height?: number;
+    scale?: number; // Device pixels per CSS pixel
+}
+
 // ============================================================================
 // Command Acknowledgment (verification)
 // ============================================================================
@@ -228,6 +656,7 @@ export interface CommandAckOk {
     status: 'ok';
     timestamp: number;
     result?: unknown;
+    recovery?: RecoveryAttempt[]; // Problems found with the target and the remedies tried
 }
 
 export interface CommandAckFail {
@@ -236,6 +665,22 @@ export interface CommandAckFail {
     status: 'fail';
     reason: string;
     timestamp: number;
+    result?: unknown; // Partial results, e.g. a batch's steps
+    recovery?: RecoveryAttempt[]; // Problems found with the target and the remedies tried
+}
+
+// What a targeted action did, compared with a snapshot taken just before it
+export interface ActionEffects {
+    urlChanged: boolean;
+    url?: string; // New URL, when changed
+    modalOpened: boolean; // A dialog appeared
+    menuOpened: boolean; // A menu or listbox appeared
+    focusChanged: boolean;
+    focusedId: string | null; // What has focus now (null: the page)
+    candidatesAdded: number;
+    candidatesRemoved: number;
+    valueChanged: boolean; // The target's value, checked or pressed state
+    value?: string; // New value, when changed
 }
 
 export interface CommandAckVerify {
@@ -245,14 +690,27 @@ export interface CommandAckVerify {
     timestamp: number;
     verification: {
         id: string;
-        stillVisible: boolean;
+        stillVisible: boolean; // The target (or its re-rendered replacement) is still in the page
         hitTestOk: boolean;
-        rectChanged: boolean;
+        rectChanged: boolean; // Moved or resized by more than 1px since before the action
+        oldRect?: Rect;
         newRect?: Rect;
+        effects?: ActionEffects;
     };
+    result?: unknown; // Command-specific fields, as in CommandAckOk
+    recovery?: RecoveryAttempt[];
+}
+
+// The command was cancelled on request before it finished (timeouts ack as fail)
+export interface CommandAckCancelled {
+    type: 'ack';
+    commandId: string;
+    status: 'cancelled';
+    reason: string;
+    timestamp: number;
 }
 
-export type CommandAck = CommandAckOk | CommandAckFail | CommandAckVerify;
+export type CommandAck = CommandAckOk | CommandAckFail | CommandAckVerify | CommandAckCancelled;
 
 // ============================================================================
 // Connection & Configuration
@@ -0,0 +1,69 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest';
+import { computeAccessibleName, computeAccessibleDescription } from '../src/content/accname';
+
+function render(html: string, selector = '#target'): Element {
+    document.body.innerHTML = html;
+    return document.querySelector(selector)!;
+}
+
+describe('computeAccessibleName', () => {
+    beforeEach(() => {
+        document.body.innerHTML = '';
+    });
+
+    it('joins multiple aria-labelledby references', () => {
+        const element = render('<span id="a">Delete</span><span id="b">invoice</span><button id="target" aria-labelledby="a b">x</button>');
+        expect(computeAccessibleName(element, 'button')).toBe('Delete invoice');
+    });
+
+    it('prefers aria-label over content and falls back to title', () => {
+        expect(computeAccessibleName(render('<button id="target" aria-label="Close">×</button>'), 'button')).toBe('Close');
+        expect(computeAccessibleName(render('<button id="target" title="Search"></button>'), 'button')).toBe('Search');
+    });
+
+    it('includes the value of a control embedded in a label', () => {
+        const element = render('<label for="target">Quantity <input value="3"> items</label><input id="target" type="checkbox">');
+        expect(computeAccessibleName(element, 'checkbox')).toBe('Quantity 3 items');
+    });
+
+    it('skips hidden content inside a visible labelledby target', () => {
+        const element = render(`
+            <div id="label">Save <span aria-hidden="true">★</span><span hidden>draft</span></div>
+            <button id="target" aria-labelledby="label"></button>
+        `);
+        expect(computeAccessibleName(element, 'button')).toBe('Save');
+    });
+
+    it('reads a labelledby target that is hidden as a whole', () => {
+        const element = render(`
+            <div id="label" hidden>Close <span>dialog</span></div>
+            <button id="target" aria-labelledby="label"></button>
+        `);
+        expect(computeAccessibleName(element, 'button')).toBe('Close dialog');
+    });
+
+    it('cuts long names to 150 characters', () => {
+        const element = render(`<a id="target" href="#">${'word '.repeat(60)}</a>`);
+        const name = computeAccessibleName(element, 'link');
+
+        expect(name.length).toBeLessThanOrEqual(150);
+        expect(name.endsWith('…')).toBe(true);
+    });
+});
+
+describe('computeAccessibleDescription', () => {
+    it('reads aria-describedby, then an unused title', () => {
+        const described = render('<span id="d">Opens in a new tab</span><a id="target" href="#" aria-describedby="d">Docs</a>');
+        expect(computeAccessibleDescription(described, 'Docs')).toBe('Opens in a new tab');
+
+        const titled = render('<a id="target" href="#" title="Help center">Help</a>');
+        expect(computeAccessibleDescription(titled, 'Help')).toBe('Help center');
+        expect(computeAccessibleDescription(titled, 'Help center')).toBe('');
+    });
+
+    it('cuts long descriptions to 150 characters', () => {
+        const element = render(`<span id="d">${'detail '.repeat(40)}</span><button id="target" aria-describedby="d">Go</button>`);
+        expect(computeAccessibleDescription(element, 'Go').length).toBeLessThanOrEqual(150);
+    });
+});
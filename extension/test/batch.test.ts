@@ -0,0 +1,100 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { BatchCommand, BatchStep, BatchStepResult, CommandAck } from '../src/shared/protocol';
+import { executeCommand } from '../src/content/executor';
+import { getElementId } from '../src/content/actionmap';
+import { cancelCommand } from '../src/content/cancel';
+
+function batch(steps: BatchStep[], onFailure?: 'stop' | 'continue'): BatchCommand {
+    return { type: 'batch', commandId: 'b1', tabId: 1, steps, onFailure };
+}
+
+function stepsOf(ack: CommandAck): BatchStepResult[] {
+    if (ack.status !== 'ok' && ack.status !== 'fail') throw new Error(`Unexpected ${ack.status} ack`);
+    return (ack.result as { steps: BatchStepResult[] }).steps;
+}
+
+describe('executeBatch', () => {
+    let first: string;
+    let second: string;
+
+    beforeEach(() => {
+        document.body.innerHTML = '<input name="first" value="a"><input name="second" value="b">';
+        first = getElementId(document.querySelector('[name=first]')!);
+        second = getElementId(document.querySelector('[name=second]')!);
+    });
+
+    it('runs every step and checks expectations against the step target', async () => {
+        const ack = await executeCommand(batch([
+            { command: { type: 'focus', id: first }, expect: { focused: true, value: 'a' } },
+            { command: { type: 'focus', id: second }, expect: { focused: true } },
+        ]));
+
+        expect(ack.status).toBe('ok');
+        expect(stepsOf(ack).map(step => [step.commandId, step.status])).toEqual([['b1.0', 'ok'], ['b1.1', 'ok']]);
+        expect(document.activeElement).toBe(document.querySelector('[name=second]'));
+    });
+
+    it('fails a step whose expectation does not hold', async () => {
+        const ack = await executeCommand(batch([
+            { command: { type: 'focus', id: first }, expect: { value: 'z', timeout: 0 } },
+        ]));
+
+        expect(ack.status).toBe('fail');
+        const [step] = stepsOf(ack);
+        expect(step.status).toBe('fail');
+        expect(step.reason).toBe(`Expectation failed: ${first} value is "a", expected "z"`);
+    });
+
+    it('skips the steps after a failure by default', async () => {
+        const ack = await executeCommand(batch([
+            { command: { type: 'focus', id: 'missing' } },
+            { command: { type: 'focus', id: second } },
+        ]));
+
+        expect(ack.status).toBe('fail');
+        expect(ack.status === 'fail' && ack.reason).toBe('Step 1 (focus) failed: Element not found: missing');
+        expect(stepsOf(ack).map(step => step.status)).toEqual(['fail', 'skipped']);
+        expect(document.activeElement).not.toBe(document.querySelector('[name=second]'));
+    });
+
+    it('runs the remaining steps with onFailure continue', async () => {
+        const ack = await executeCommand(batch([
+            { command: { type: 'focus', id: 'missing' } },
+            { command: { type: 'focus', id: second } },
+        ], 'continue'));
+
+        expect(ack.status).toBe('fail');
+        expect(stepsOf(ack).map(step => step.status)).toEqual(['fail', 'ok']);
+        expect(document.activeElement).toBe(document.querySelector('[name=second]'));
+    });
+
+    it('times out a step by its own timeoutMs', async () => {
+        const ack = await executeCommand(batch([
+            { command: { type: 'wait_for', condition: 'modal_open', timeoutMs: 50 } },
+            { command: { type: 'focus', id: second } },
+        ], 'continue'));
+
+        const steps = stepsOf(ack);
+        expect(ack.status).toBe('fail');
+        expect(steps[0].status).toBe('fail');
+        expect(steps[0].reason).toBe('timeout');
+        expect(steps[1].status).toBe('ok');
+    });
+
+    it('reports a step cancelled by its commandId', async () => {
+        const running = executeCommand(batch([
+            { command: { type: 'wait_for', condition: 'modal_open', commandId: 'wait' } },
+            { command: { type: 'focus', id: second } },
+        ]));
+        await new Promise(resolve => setTimeout(resolve, 20));
+        expect(cancelCommand('wait', 'Stop waiting')).toBe(true);
+
+        const ack = await running;
+        expect(ack.status).toBe('fail');
+        expect(stepsOf(ack).map(step => [step.status, step.reason])).toEqual([
+            ['cancelled', 'Stop waiting'],
+            ['skipped', undefined],
+        ]);
+    });
+});
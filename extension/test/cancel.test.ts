@@ -0,0 +1,90 @@
+// @vitest-environment jsdom
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { Command } from '../src/shared/protocol';
+import { startCommand, finishCommand, cancelCommand, sleep, CancelledError, TIMEOUT_REASON } from '../src/content/cancel';
+import { executeCommand } from '../src/content/executor';
+
+// A wait that only ends when cancelled (jsdom has no dialogs)
+function waitForModal(commandId: string): Command {
+    return { type: 'wait_for', commandId, tabId: 1, condition: 'modal_open', timeout: 60000 };
+}
+
+describe('startCommand', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('aborts on cancelCommand with the given reason', () => {
+        const signal = startCommand('c1');
+        expect(cancelCommand('c1', 'User stop')).toBe(true);
+        expect(signal.aborted).toBe(true);
+        expect(signal.reason).toBe('User stop');
+        finishCommand('c1');
+    });
+
+    it('aborts with the timeout reason after timeoutMs', () => {
+        vi.useFakeTimers();
+        const signal = startCommand('c2', 100);
+        vi.advanceTimersByTime(99);
+        expect(signal.aborted).toBe(false);
+        vi.advanceTimersByTime(1);
+        expect(signal.reason).toBe(TIMEOUT_REASON);
+        finishCommand('c2');
+    });
+
+    it('aborts when the parent signal aborts', () => {
+        const parent = startCommand('batch');
+        const child = startCommand('batch.0', undefined, parent);
+        cancelCommand('batch', 'Batch stopped');
+        expect(child.aborted).toBe(true);
+        expect(child.reason).toBe('Batch stopped');
+        finishCommand('batch.0');
+        finishCommand('batch');
+    });
+
+    it('forgets a finished command and its timer', () => {
+        vi.useFakeTimers();
+        const signal = startCommand('c3', 100);
+        finishCommand('c3');
+        vi.advanceTimersByTime(200);
+        expect(signal.aborted).toBe(false);
+        expect(cancelCommand('c3')).toBe(false);
+    });
+
+    it('stops a sleep as soon as the signal aborts', async () => {
+        const signal = startCommand('c4');
+        const waiting = sleep(60000, signal);
+        cancelCommand('c4', 'User stop');
+        await expect(waiting).rejects.toThrow(CancelledError);
+        finishCommand('c4');
+    });
+});
+
+describe('executeCommand cancellation', () => {
+    it('acks a cancel as cancelled with its reason', async () => {
+        const signal = startCommand('w1');
+        const running = executeCommand(waitForModal('w1'), signal);
+        cancelCommand('w1', 'User stop');
+
+        expect(await running).toMatchObject({ commandId: 'w1', status: 'cancelled', reason: 'User stop' });
+        finishCommand('w1');
+    });
+
+    it('acks a timeout as a failure with reason timeout', async () => {
+        const signal = startCommand('w2', 50);
+        const ack = await executeCommand(waitForModal('w2'), signal);
+
+        expect(ack).toMatchObject({ commandId: 'w2', status: 'fail', reason: 'timeout' });
+        finishCommand('w2');
+    });
+
+    it('acks a command cancelled before it starts without running it', async () => {
+        document.body.innerHTML = '<input>';
+        const signal = startCommand('f1');
+        cancelCommand('f1');
+
+        const ack = await executeCommand({ type: 'focus', commandId: 'f1', tabId: 1, id: 'missing' }, signal);
+        expect(ack).toMatchObject({ status: 'cancelled', reason: 'Cancelled' });
+        finishCommand('f1');
+    });
+});
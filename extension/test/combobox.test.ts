@@ -0,0 +1,56 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest';
+import { matchOption } from '../src/content/combobox';
+
+function options(html: string): Element[] {
+    document.body.innerHTML = `<div role="listbox">${html}</div>`;
+    return Array.from(document.querySelectorAll('[role="option"]'));
+}
+
+describe('matchOption', () => {
+    beforeEach(() => {
+        document.body.innerHTML = '';
+    });
+
+    it('prefers an exact label over a label containing the value', () => {
+        const list = options(`
+            <div role="option">United States Minor Islands</div>
+            <div role="option">United States</div>
+        `);
+
+        expect(matchOption(list, 'united states')).toBe(list[1]);
+    });
+
+    it('matches the data-value or value attribute', () => {
+        const list = options(`
+            <div role="option" data-value="us">United States</div>
+            <div role="option" value="de">Germany</div>
+        `);
+
+        expect(matchOption(list, 'US')).toBe(list[0]);
+        expect(matchOption(list, 'de')).toBe(list[1]);
+    });
+
+    it('falls back to a label containing the value', () => {
+        const list = options(`
+            <div role="option">Apple</div>
+            <div role="option">Banana split</div>
+        `);
+
+        expect(matchOption(list, '  banana ')).toBe(list[1]);
+    });
+
+    it('uses the accessible name of the option', () => {
+        const list = options(`
+            <div role="option" aria-label="Express shipping"><span>🚀</span></div>
+            <div role="option">Standard</div>
+        `);
+
+        expect(matchOption(list, 'Express shipping')).toBe(list[0]);
+    });
+
+    it('returns null without a match', () => {
+        expect(matchOption(options('<div role="option">Apple</div>'), 'cherry')).toBeNull();
+        expect(matchOption([], 'apple')).toBeNull();
+    });
+});
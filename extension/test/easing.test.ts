@@ -0,0 +1,101 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { ease, interpolatePath } from '../src/content/easing';
+import type { Curve } from '../src/content/easing';
+
+const CURVES: Curve[] = [undefined, 'linear', 'ease', 'bezier', 'minimum_jerk'];
+
+describe('ease', () => {
+    it('starts at 0, ends at 1 and never moves backwards', () => {
+        for (const curve of CURVES) {
+            expect(ease(0, curve)).toBe(0);
+            expect(ease(1, curve)).toBeCloseTo(1);
+            for (let i = 1; i <= 100; i++) {
+                expect(ease(i / 100, curve)).toBeGreaterThanOrEqual(ease((i - 1) / 100, curve));
+            }
+        }
+    });
+
+    it('is the identity for linear and no curve', () => {
+        expect(ease(0.3, 'linear')).toBe(0.3);
+        expect(ease(0.3, undefined)).toBe(0.3);
+    });
+
+    it('passes the midpoint halfway through the symmetric curves', () => {
+        for (const curve of ['ease', 'bezier', 'minimum_jerk'] as const) {
+            expect(ease(0.5, curve)).toBeCloseTo(0.5);
+            expect(ease(0.2, curve) + ease(0.8, curve)).toBeCloseTo(1);
+        }
+    });
+
+    it('starts and stops minimum jerk more gently than smoothstep', () => {
+        expect(ease(0.05, 'minimum_jerk')).toBeLessThan(ease(0.05, 'bezier'));
+        expect(ease(0.95, 'minimum_jerk')).toBeGreaterThan(ease(0.95, 'bezier'));
+        expect(ease(0.001, 'minimum_jerk') / 0.001).toBeLessThan(0.001);
+    });
+});
+
+describe('interpolatePath', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('includes both ends and spaces a linear path evenly', () => {
+        const path = interpolatePath({ x: 10, y: 20 }, { x: 110, y: 220 }, 4, 'linear');
+        expect(path).toEqual([
+            { x: 10, y: 20 },
+            { x: 35, y: 70 },
+            { x: 60, y: 120 },
+            { x: 85, y: 170 },
+            { x: 110, y: 220 },
+        ]);
+    });
+
+    it('keeps eased paths on the straight line, bunched towards the ends', () => {
+        const path = interpolatePath({ x: 0, y: 0 }, { x: 100, y: 0 }, 10, 'ease');
+        expect(path.every(point => point.y === 0)).toBe(true);
+        expect(path[1].x - path[0].x).toBeLessThan(path[5].x - path[4].x);
+        expect(path[10]).toEqual({ x: 100, y: 0 });
+    });
+
+    it('bends bezier paths to one side and still lands on the target', () => {
+        // side +1, bend 0.1 + 0.75 * 0.2 = 0.25 of the distance
+        vi.spyOn(Math, 'random').mockReturnValue(0.75);
+
+        const path = interpolatePath({ x: 0, y: 0 }, { x: 300, y: 0 }, 2, 'bezier');
+        expect(path[0]).toEqual({ x: 0, y: 0 });
+        expect(path[1].x).toBeCloseTo(150);
+        expect(path[1].y).toBeCloseTo(56.25);
+        expect(path[2].x).toBeCloseTo(300);
+        expect(path[2].y).toBeCloseTo(0);
+    });
+
+    it('stays within the bend range for any random draw', () => {
+        for (let i = 0; i < 50; i++) {
+            const path = interpolatePath({ x: 0, y: 0 }, { x: 0, y: 200 }, 20, 'bezier');
+            const sideways = Math.max(...path.map(point => Math.abs(point.x)));
+            // 3/4 of the control points' offset at most, at 0.3 of the distance
+            expect(sideways).toBeGreaterThan(0);
+            expect(sideways).toBeLessThanOrEqual(0.75 * 0.3 * 200);
+        }
+    });
+
+    it('wobbles sideways with jitter, fading out towards both ends', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0.75);
+
+        const path = interpolatePath({ x: 0, y: 0 }, { x: 100, y: 0 }, 4, 'linear', 10);
+        expect(path[0]).toEqual({ x: 0, y: 0 });
+        expect(path[4]).toEqual({ x: 100, y: 0 });
+        expect(path[1].y).toBeCloseTo(5 * Math.SQRT1_2);
+        expect(path[2].y).toBeCloseTo(5);
+        expect(path[2].x).toBeCloseTo(50);
+    });
+
+    it('handles a zero-length path', () => {
+        const path = interpolatePath({ x: 5, y: 5 }, { x: 5, y: 5 }, 3, 'bezier', 4);
+        expect(path).toHaveLength(4);
+        for (const point of path) {
+            expect(point.x).toBeCloseTo(5);
+            expect(point.y).toBeCloseTo(5);
+        }
+    });
+});
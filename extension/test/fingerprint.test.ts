@@ -0,0 +1,60 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest';
+import { computeFingerprint } from '../src/content/fingerprint';
+
+const rect = { x: 10, y: 10, w: 80, h: 20 };
+
+function button(html: string): Element {
+    document.body.innerHTML = html;
+    return document.querySelector('button')!;
+}
+
+function semantic(fingerprint: string): string {
+    return fingerprint.split(':')[0];
+}
+
+describe('computeFingerprint', () => {
+    beforeEach(() => {
+        document.body.innerHTML = '';
+    });
+
+    it('gives a re-created element the same fingerprint', () => {
+        const first = computeFingerprint(button('<main><button>Save</button></main>'), 'button', 'Save', rect);
+        const second = computeFingerprint(button('<main><button>Save</button></main>'), 'button', 'Save', rect);
+
+        expect(second).toBe(first);
+        expect(first).toMatch(/^[0-9a-z]+:\d+\.\d+$/);
+    });
+
+    it('ignores case and whitespace in the name', () => {
+        const element = button('<button>Save</button>');
+
+        expect(semantic(computeFingerprint(element, 'button', '  Save   changes ', rect)))
+            .toBe(semantic(computeFingerprint(element, 'button', 'save changes', rect)));
+    });
+
+    it('tells apart role, name, form and landmark', () => {
+        const base = semantic(computeFingerprint(button('<main><button>Save</button></main>'), 'button', 'Save', rect));
+
+        expect(semantic(computeFingerprint(button('<main><button>Save</button></main>'), 'link', 'Save', rect))).not.toBe(base);
+        expect(semantic(computeFingerprint(button('<main><button>Cancel</button></main>'), 'button', 'Cancel', rect))).not.toBe(base);
+        expect(semantic(computeFingerprint(button('<main><form action="/a"><button>Save</button></form></main>'), 'button', 'Save', rect))).not.toBe(base);
+        expect(semantic(computeFingerprint(button('<nav aria-label="Menu"><button>Save</button></nav>'), 'button', 'Save', rect))).not.toBe(base);
+    });
+
+    it('buckets the position so small moves keep the fingerprint', () => {
+        const element = button('<button>Save</button>');
+
+        expect(computeFingerprint(element, 'button', 'Save', { ...rect, x: 12, y: 11 }))
+            .toBe(computeFingerprint(element, 'button', 'Save', rect));
+        expect(computeFingerprint(element, 'button', 'Save', { ...rect, y: 700 }))
+            .not.toBe(computeFingerprint(element, 'button', 'Save', rect));
+    });
+
+    it('uses the given position key instead of the position bucket', () => {
+        const element = button('<button>Open</button>');
+        const fingerprint = computeFingerprint(element, 'button', 'Open', rect, 'item42');
+
+        expect(fingerprint).toBe(`${semantic(computeFingerprint(element, 'button', 'Open', rect))}:item42`);
+    });
+});
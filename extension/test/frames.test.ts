@@ -0,0 +1,127 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { setupFrameBridge, toTopLevelRect, getTopViewport } from '../src/content/frames';
+
+const SOURCE = '__actionmap_frame__';
+
+function post(data: unknown, source: Window): void {
+    window.dispatchEvent(new MessageEvent('message', { data, source }));
+}
+
+function addFrame(x: number, y: number): HTMLIFrameElement {
+    const frame = document.createElement('iframe');
+    document.body.appendChild(frame);
+    frame.getBoundingClientRect = () => ({ left: x, top: y, width: 300, height: 200 }) as DOMRect;
+    return frame;
+}
+
+describe('frame bridge', () => {
+    let offsetChanges = 0;
+
+    beforeAll(() => {
+        setupFrameBridge(() => offsetChanges++);
+    });
+
+    beforeEach(() => {
+        document.body.innerHTML = '';
+        offsetChanges = 0;
+    });
+
+    describe('in the top frame', () => {
+        it('answers an offset request from a child frame with its content box', () => {
+            const frame = addFrame(40, 60);
+            const child = frame.contentWindow!;
+            const postMessage = vi.spyOn(child, 'postMessage').mockImplementation(() => {});
+
+            post({ source: SOURCE, kind: 'offset_request' }, child);
+
+            expect(postMessage).toHaveBeenCalledWith({
+                source: SOURCE,
+                kind: 'offset',
+                x: 40,
+                y: 60,
+                viewport: { width: window.innerWidth, height: window.innerHeight },
+            }, '*');
+        });
+
+        it('ignores offset requests from windows that are not its frames', () => {
+            const frame = addFrame(40, 60);
+            const stranger = frame.contentWindow!;
+            const postMessage = vi.spyOn(stranger, 'postMessage').mockImplementation(() => {});
+            frame.remove();
+
+            post({ source: SOURCE, kind: 'offset_request' }, stranger);
+            expect(postMessage).not.toHaveBeenCalled();
+        });
+
+        it('ignores offsets sent to the top frame', () => {
+            const child = addFrame(0, 0).contentWindow!;
+            post({ source: SOURCE, kind: 'offset', x: 100, y: 100, viewport: { width: 800, height: 600 } }, child);
+
+            expect(toTopLevelRect({ x: 1, y: 2, w: 3, h: 4 })).toEqual({ x: 1, y: 2, w: 3, h: 4 });
+            expect(offsetChanges).toBe(0);
+        });
+    });
+
+    describe('in a subframe', () => {
+        let parent: Window;
+        const top = Object.getOwnPropertyDescriptor(window, 'top')!;
+        const parentDescriptor = Object.getOwnPropertyDescriptor(window, 'parent')!;
+
+        beforeEach(() => {
+            parent = addFrame(0, 0).contentWindow!;
+            Object.defineProperty(window, 'top', { value: parent, configurable: true });
+            Object.defineProperty(window, 'parent', { value: parent, configurable: true });
+
+            post({ source: SOURCE, kind: 'offset', x: 100, y: 50, viewport: { width: 1280, height: 720 } }, parent);
+            offsetChanges = 0;
+        });
+
+        afterEach(() => {
+            Object.defineProperty(window, 'top', top);
+            Object.defineProperty(window, 'parent', parentDescriptor);
+        });
+
+        it('takes its offset and the top viewport from its parent', () => {
+            post({ source: SOURCE, kind: 'offset', x: 120, y: 80, viewport: { width: 1024, height: 768 } }, parent);
+
+            expect(toTopLevelRect({ x: 10, y: 20, w: 30, h: 40 })).toEqual({ x: 130, y: 100, w: 30, h: 40 });
+            expect(getTopViewport()).toEqual({ width: 1024, height: 768 });
+            expect(offsetChanges).toBe(1);
+
+            // The same offset again changes nothing
+            post({ source: SOURCE, kind: 'offset', x: 120, y: 80, viewport: { width: 1024, height: 768 } }, parent);
+            expect(offsetChanges).toBe(1);
+        });
+
+        it('ignores offsets from windows other than its parent', () => {
+            const sibling = addFrame(0, 0).contentWindow!;
+            post({ source: SOURCE, kind: 'offset', x: 5, y: 5, viewport: { width: 640, height: 480 } }, sibling);
+
+            expect(offsetChanges).toBe(0);
+            expect(getTopViewport()).toEqual({ width: 1280, height: 720 });
+        });
+
+        it('ignores malformed offsets', () => {
+            const bad = [
+                { x: NaN, y: 0, viewport: { width: 640, height: 480 } },
+                { x: 0, y: Infinity, viewport: { width: 640, height: 480 } },
+                { x: '5', y: 0, viewport: { width: 640, height: 480 } },
+                { x: 0, y: 0, viewport: { width: 0, height: 480 } },
+                { x: 0, y: 0, viewport: null },
+                { x: 0, y: 0 },
+            ];
+            for (const fields of bad) {
+                post({ source: SOURCE, kind: 'offset', ...fields }, parent);
+            }
+
+            expect(offsetChanges).toBe(0);
+            expect(toTopLevelRect({ x: 10, y: 20, w: 30, h: 40 })).toEqual({ x: 110, y: 70, w: 30, h: 40 });
+        });
+
+        it('ignores messages from other sources', () => {
+            post({ source: 'someone_else', kind: 'offset', x: 5, y: 5, viewport: { width: 640, height: 480 } }, parent);
+            expect(offsetChanges).toBe(0);
+        });
+    });
+});
@@ -0,0 +1,86 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest';
+import { typeIntoField } from '../src/content/input';
+
+function field(html = '<input>'): HTMLInputElement {
+    document.body.innerHTML = html;
+    return document.querySelector('input, textarea') as HTMLInputElement;
+}
+
+function record(element: Element, types: string[]): string[] {
+    const events: string[] = [];
+    for (const type of types) {
+        element.addEventListener(type, event => {
+            const detail = (event as KeyboardEvent).key ?? (event as InputEvent).data ?? '';
+            events.push(detail ? `${type}:${detail}` : type);
+        });
+    }
+    return events;
+}
+
+describe('typeIntoField', () => {
+    beforeEach(() => {
+        document.body.innerHTML = '';
+    });
+
+    it('fires key and input events per character in browser order', async () => {
+        const input = field();
+        const events = record(input, ['keydown', 'keypress', 'beforeinput', 'input', 'keyup', 'change']);
+
+        const expected = await typeIntoField(input, 'ab', 'append');
+
+        expect(expected).toBe('ab');
+        expect(input.value).toBe('ab');
+        expect(events).toEqual([
+            'keydown:a', 'keypress:a', 'beforeinput:a', 'input:a', 'keyup:a',
+            'keydown:b', 'keypress:b', 'beforeinput:b', 'input:b', 'keyup:b',
+            'change',
+        ]);
+    });
+
+    it('appends, prepends or replaces the current value', async () => {
+        const append = field('<input value="foo">');
+        expect(await typeIntoField(append, 'bar', 'append')).toBe('foobar');
+        expect(append.value).toBe('foobar');
+
+        const prepend = field('<input value="foo">');
+        expect(await typeIntoField(prepend, 'bar', 'prepend')).toBe('barfoo');
+        expect(prepend.value).toBe('barfoo');
+
+        const replace = field('<textarea>foo</textarea>');
+        expect(await typeIntoField(replace, 'bar', 'replace')).toBe('bar');
+        expect(replace.value).toBe('bar');
+    });
+
+    it('sets the value through the prototype setter, past instance value trackers', async () => {
+        const input = field();
+        const prototype = Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')!;
+        let trackerWrites = 0;
+        Object.defineProperty(input, 'value', {
+            configurable: true,
+            get() { return prototype.get!.call(this); },
+            set() { trackerWrites++; },
+        });
+
+        await typeIntoField(input, 'hi', 'append');
+
+        expect(trackerWrites).toBe(0);
+        expect(input.value).toBe('hi');
+    });
+
+    it('respects maxlength and cancelled keydown or beforeinput', async () => {
+        const limited = field('<input maxlength="3">');
+        await typeIntoField(limited, 'abcdef', 'append');
+        expect(limited.value).toBe('abc');
+
+        const filtered = field();
+        filtered.addEventListener('keydown', event => {
+            if (/\d/.test(event.key)) event.preventDefault();
+        });
+        filtered.addEventListener('beforeinput', event => {
+            if (event.data === 'x') event.preventDefault();
+        });
+        expect(await typeIntoField(filtered, 'a1xb', 'append')).toBe('a1xb');
+        expect(filtered.value).toBe('ab');
+    });
+});
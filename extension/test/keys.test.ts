@@ -0,0 +1,185 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest';
+import { parseChord, getKeyDefinition, pressChord } from '../src/content/keys';
+
+function field(html: string, start: number, end = start): HTMLInputElement {
+    document.body.innerHTML = html;
+    const element = document.querySelector('input, textarea') as HTMLInputElement;
+    element.focus();
+    element.setSelectionRange(start, end);
+    return element;
+}
+
+function selection(element: HTMLInputElement): [number | null, number | null] {
+    return [element.selectionStart, element.selectionEnd];
+}
+
+describe('parseChord', () => {
+    it('parses a plain key and resolves aliases', () => {
+        expect(parseChord('Enter')).toEqual({ key: 'Enter', modifiers: [] });
+        expect(parseChord('esc')).toEqual({ key: 'Escape', modifiers: [] });
+        expect(parseChord('Space')).toEqual({ key: ' ', modifiers: [] });
+        expect(parseChord('pgdn')).toEqual({ key: 'PageDown', modifiers: [] });
+    });
+
+    it('parses modifiers in order, with their aliases', () => {
+        expect(parseChord('Ctrl+K')).toEqual({ key: 'K', modifiers: ['ctrl'] });
+        expect(parseChord('Cmd+Option+left')).toEqual({ key: 'ArrowLeft', modifiers: ['meta', 'alt'] });
+        expect(parseChord('control+a')).toEqual({ key: 'a', modifiers: ['ctrl'] });
+    });
+
+    it('upper-cases a character with Shift', () => {
+        expect(parseChord('Meta+Shift+p')).toEqual({ key: 'P', modifiers: ['meta', 'shift'] });
+    });
+
+    it('handles the plus key itself', () => {
+        expect(parseChord('+')).toEqual({ key: '+', modifiers: [] });
+        expect(parseChord('Ctrl++')).toEqual({ key: '+', modifiers: ['ctrl'] });
+    });
+
+    it('rejects unknown modifiers', () => {
+        expect(() => parseChord('Hyper+K')).toThrow('Unknown modifier in "Hyper+K": Hyper');
+    });
+});
+
+describe('getKeyDefinition', () => {
+    it('gives named keys, letters and digits their code and keyCode', () => {
+        expect(getKeyDefinition('enter')).toEqual({ key: 'Enter', code: 'Enter', keyCode: 13 });
+        expect(getKeyDefinition('k')).toEqual({ key: 'k', code: 'KeyK', keyCode: 75 });
+        expect(getKeyDefinition('7')).toEqual({ key: '7', code: 'Digit7', keyCode: 55 });
+        expect(getKeyDefinition('F5')).toEqual({ key: 'F5', code: 'F5', keyCode: 116 });
+        expect(getKeyDefinition('é')).toEqual({ key: 'é', code: '', keyCode: 0 });
+    });
+});
+
+describe('pressChord editing defaults', () => {
+    beforeEach(() => {
+        document.body.innerHTML = '';
+    });
+
+    it('deletes before and after the caret with Backspace and Delete', async () => {
+        const input = field('<input value="abcd">', 2);
+
+        await pressChord(input, 'Backspace');
+        expect(input.value).toBe('acd');
+        expect(selection(input)).toEqual([1, 1]);
+
+        await pressChord(input, 'Delete');
+        expect(input.value).toBe('ad');
+    });
+
+    it('deletes the selection, firing beforeinput and input', async () => {
+        const input = field('<input value="hello world">', 5, 11);
+        const events: string[] = [];
+        input.addEventListener('beforeinput', event => events.push(`beforeinput:${(event as InputEvent).inputType}`));
+        input.addEventListener('input', () => events.push('input'));
+
+        await pressChord(input, 'Backspace');
+        expect(input.value).toBe('hello');
+        expect(events).toEqual(['beforeinput:deleteContentBackward', 'input']);
+    });
+
+    it('repeats a key', async () => {
+        const input = field('<input value="abcdef">', 6);
+        await pressChord(input, 'Backspace', [], 3);
+        expect(input.value).toBe('abc');
+    });
+
+    it('moves the caret and extends the selection with Shift', async () => {
+        const input = field('<input value="abcdef">', 3);
+
+        await pressChord(input, 'ArrowLeft');
+        expect(selection(input)).toEqual([2, 2]);
+
+        await pressChord(input, 'Shift+Right', [], 2);
+        expect(selection(input)).toEqual([2, 4]);
+        expect(input.selectionDirection).toBe('forward');
+
+        // Collapses to the selection's end
+        await pressChord(input, 'Right');
+        expect(selection(input)).toEqual([4, 4]);
+
+        await pressChord(input, 'Shift+Home');
+        expect(selection(input)).toEqual([0, 4]);
+        expect(input.selectionDirection).toBe('backward');
+
+        await pressChord(input, 'End');
+        expect(selection(input)).toEqual([6, 6]);
+    });
+
+    it('keeps Home and End within the current line of a textarea', async () => {
+        const textarea = field('<textarea>one\ntwo\nthree</textarea>', 5);
+
+        await pressChord(textarea, 'Home');
+        expect(selection(textarea)).toEqual([4, 4]);
+        await pressChord(textarea, 'End');
+        expect(selection(textarea)).toEqual([7, 7]);
+    });
+
+    it('inserts a line break with Enter in a textarea', async () => {
+        const textarea = field('<textarea>ab</textarea>', 1);
+        await pressChord(textarea, 'Enter');
+        expect(textarea.value).toBe('a\nb');
+    });
+
+    it('submits the form with Enter in an input', async () => {
+        const input = field('<form><input value="query"></form>', 5);
+        let submitted = 0;
+        input.form!.addEventListener('submit', event => {
+            event.preventDefault();
+            submitted++;
+        });
+
+        await pressChord(input, 'Enter');
+        expect(submitted).toBe(1);
+        expect(input.value).toBe('query');
+    });
+
+    it('types printable characters over the selection', async () => {
+        const input = field('<input value="cat">', 0, 1);
+        await pressChord(input, 'b');
+        expect(input.value).toBe('bat');
+    });
+
+    it('selects all text with Ctrl+A instead of typing', async () => {
+        const input = field('<input value="select me">', 3);
+        await pressChord(input, 'Ctrl+A');
+        expect(selection(input)).toEqual([0, 9]);
+        expect(input.value).toBe('select me');
+    });
+
+    it('skips the default action when keydown is cancelled', async () => {
+        const input = field('<input value="abc">', 3);
+        input.addEventListener('keydown', event => event.preventDefault());
+
+        await pressChord(input, 'Backspace');
+        expect(input.value).toBe('abc');
+    });
+
+    it('activates buttons with Enter and toggles checkboxes with Space', async () => {
+        document.body.innerHTML = '<button>Go</button><input type="checkbox">';
+        const button = document.querySelector('button')!;
+        const checkbox = document.querySelector('input')!;
+        let clicks = 0;
+        button.addEventListener('click', () => clicks++);
+
+        await pressChord(button, 'Enter');
+        await pressChord(checkbox, 'Space');
+        expect(clicks).toBe(1);
+        expect(checkbox.checked).toBe(true);
+    });
+
+    it('presses and releases modifiers around the key', async () => {
+        const input = field('<input>', 0);
+        const events: string[] = [];
+        for (const type of ['keydown', 'keyup']) {
+            input.addEventListener(type, event => events.push(`${type}:${(event as KeyboardEvent).key}`));
+        }
+
+        await pressChord(input, 'Ctrl+Shift+K');
+        expect(events).toEqual([
+            'keydown:Control', 'keydown:Shift', 'keydown:K',
+            'keyup:K', 'keyup:Shift', 'keyup:Control',
+        ]);
+    });
+});
@@ -0,0 +1,151 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { RecoveryAttempt } from '../src/shared/protocol';
+import { acquireTarget } from '../src/content/recovery';
+import { extractActionMap, getElementId } from '../src/content/actionmap';
+
+// jsdom has no layout: elements get the rects placed here, and later placements paint on top
+const layout = new Map<Element, { x: number; y: number; w: number; h: number }>();
+
+function place(element: Element, x: number, y: number, w: number, h: number): Element {
+    layout.set(element, { x, y, w, h });
+    element.getBoundingClientRect = () => {
+        const rect = layout.get(element)!;
+        return {
+            x: rect.x, y: rect.y, left: rect.x, top: rect.y, width: rect.w, height: rect.h,
+            right: rect.x + rect.w, bottom: rect.y + rect.h, toJSON: () => rect,
+        } as DOMRect;
+    };
+    return element;
+}
+
+function add(html: string, x: number, y: number, w: number, h: number, parent: Element = document.body): Element {
+    parent.insertAdjacentHTML('beforeend', html);
+    return place(parent.lastElementChild!, x, y, w, h);
+}
+
+document.elementFromPoint = (x: number, y: number) => {
+    let top: Element | null = null;
+    for (const [element, rect] of layout) {
+        if (element.isConnected && x >= rect.x && x < rect.x + rect.w && y >= rect.y && y < rect.y + rect.h) {
+            top = element;
+        }
+    }
+    return top ?? document.body;
+};
+
+Element.prototype.scrollIntoView = function (this: Element) {
+    const rect = layout.get(this);
+    if (rect) layout.set(this, { ...rect, y: 100 });
+};
+
+describe('acquireTarget', () => {
+    let attempts: RecoveryAttempt[];
+
+    beforeEach(() => {
+        document.body.innerHTML = '';
+        layout.clear();
+        attempts = [];
+    });
+
+    it('returns a ready target without recovery rounds', async () => {
+        const button = add('<button>Save</button>', 10, 10, 80, 30);
+        const id = getElementId(button);
+
+        const target = await acquireTarget(id, undefined, true, attempts);
+        expect(target).toEqual({ element: button, id });
+        expect(attempts).toEqual([]);
+    });
+
+    it('re-resolves a re-rendered target to the same button', async () => {
+        const form = add('<form></form>', 0, 0, 400, 200);
+        const old = add('<button>Save</button>', 10, 10, 80, 30, form);
+        const [candidate] = extractActionMap();
+        expect(candidate.id).toBe(getElementId(old));
+
+        old.remove();
+        // Same button further down the form: a new position, so a new exact fingerprint
+        const fresh = add('<button>Save</button>', 10, 150, 80, 30, form);
+
+        const target = await acquireTarget(candidate.id, undefined, false, attempts);
+        expect(target.element).toBe(fresh);
+        expect(attempts).toHaveLength(1);
+        expect(attempts[0]).toMatchObject({ problem: 'not_found', remedy: 'reresolve' });
+        expect(attempts[0].action).toBe(`resolved to ${target.id}`);
+    });
+
+    it('gives up when the re-rendered target is ambiguous', async () => {
+        const old = add('<button>Save</button>', 10, 10, 80, 30);
+        const [candidate] = extractActionMap();
+        old.remove();
+        add('<div><p>Draft</p><button>Save</button></div>', 10, 10, 80, 30);
+        add('<section><button>Save</button></section>', 10, 50, 80, 30);
+
+        await expect(acquireTarget(candidate.id, undefined, false, attempts))
+            .rejects.toThrow(`Element not found: ${candidate.id}`);
+        expect(attempts.map(attempt => [attempt.problem, attempt.remedy, attempt.action])).toEqual([
+            ['not_found', 'reresolve', 'no match'],
+            ['not_found', 'reresolve', 'no match'],
+            ['not_found', null, undefined],
+        ]);
+    });
+
+    it('scrolls an off-screen target into view without using up a retry', async () => {
+        const button = add('<button>Next</button>', 10, 2000, 80, 30);
+
+        const target = await acquireTarget(getElementId(button), { retries: 1, remedies: [] }, true, attempts);
+        expect(target.element).toBe(button);
+        expect(attempts).toEqual([expect.objectContaining({ problem: 'offscreen', remedy: 'scroll', action: 'scrolled to centre' })]);
+    });
+
+    it('clicks the close control of a covering dialog', async () => {
+        const button = add('<button>Buy</button>', 10, 10, 80, 30);
+        const dialog = add('<div role="dialog"></div>', 0, 0, 300, 300);
+        const close = add('<button aria-label="Close">×</button>', 260, 10, 30, 30, dialog);
+        close.addEventListener('click', () => dialog.remove());
+
+        const target = await acquireTarget(getElementId(button), { remedies: ['dismiss_overlay'] }, true, attempts);
+        expect(target.element).toBe(button);
+        expect(attempts).toEqual([expect.objectContaining({
+            problem: 'occluded',
+            remedy: 'dismiss_overlay',
+            action: 'clicked "Close"',
+        })]);
+    });
+
+    it('presses Escape for an overlay without a close control', async () => {
+        const button = add('<button>Buy</button>', 10, 10, 80, 30);
+        const banner = add('<div style="position: fixed"><a href="/terms">Terms</a></div>', 0, 0, 300, 300);
+        document.addEventListener('keydown', event => {
+            if (event.key === 'Escape') banner.remove();
+        }, { once: true });
+
+        await acquireTarget(getElementId(button), { remedies: ['dismiss_overlay'] }, true, attempts);
+        expect(attempts[0]).toMatchObject({ problem: 'occluded', action: 'pressed Escape' });
+    });
+
+    it('does not click inside covering page content', async () => {
+        const button = add('<button>Buy</button>', 10, 10, 80, 30);
+        const panel = add('<div><button>Close</button></div>', 0, 0, 300, 300);
+        const close = panel.querySelector('button')!;
+        let clicked = false;
+        close.addEventListener('click', () => { clicked = true; });
+
+        await expect(acquireTarget(getElementId(button), { retries: 1, remedies: ['dismiss_overlay'] }, true, attempts))
+            .rejects.toThrow('Element is covered');
+        expect(clicked).toBe(false);
+        expect(attempts.map(attempt => [attempt.remedy, attempt.action])).toEqual([
+            ['dismiss_overlay', 'pressed Escape'],
+            [null, undefined],
+        ]);
+    });
+
+    it('ignores cover for keyboard and value input', async () => {
+        const input = add('<input>', 10, 10, 80, 30);
+        add('<div role="dialog">Cookies</div>', 0, 0, 300, 300);
+
+        const target = await acquireTarget(getElementId(input), undefined, false, attempts);
+        expect(target.element).toBe(input);
+        expect(attempts).toEqual([]);
+    });
+});
@@ -0,0 +1,222 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+    getListItemKey,
+    extractVirtualLists,
+    scrollToListItem,
+    noteListScroll,
+    noteListMutations,
+} from '../src/content/virtuallist';
+import { extractActionMap, getElementId, setListItemKeyProvider } from '../src/content/actionmap';
+
+const ROW = 40;
+const VISIBLE = 5;
+
+// jsdom has no layout: rects come from these functions
+function setRect(element: Element, rect: () => { x: number; y: number; w: number; h: number }): void {
+    element.getBoundingClientRect = () => {
+        const { x, y, w, h } = rect();
+        return { x, y, left: x, top: y, width: w, height: h, right: x + w, bottom: y + h, toJSON: () => ({}) } as DOMRect;
+    };
+}
+
+document.elementFromPoint = () => document.body;
+Element.prototype.scrollIntoView = () => {};
+
+/**
+ * A scroller showing VISIBLE rows of a list of total items, re-creating rows as it
+ * scrolls like a windowing library does
+ */
+class FakeList {
+    scroller: HTMLElement;
+    container: HTMLElement;
+    scrollTop = 0;
+    private rows = new Map<number, Element>();
+
+    constructor(private total: number, private aria: boolean) {
+        this.scroller = document.createElement('div');
+        this.scroller.style.overflowY = 'auto';
+        this.container = document.createElement('div');
+        this.scroller.appendChild(this.container);
+        document.body.appendChild(this.scroller);
+
+        Object.defineProperty(this.scroller, 'clientHeight', { value: VISIBLE * ROW });
+        Object.defineProperty(this.scroller, 'scrollHeight', { value: total * ROW });
+        Object.defineProperty(this.scroller, 'scrollTop', { get: () => this.scrollTop });
+        setRect(this.scroller, () => ({ x: 0, y: 0, w: 300, h: VISIBLE * ROW }));
+        setRect(this.container, () => ({ x: 0, y: -this.scrollTop, w: 300, h: total * ROW }));
+        this.scroller.scrollBy = ((options: ScrollToOptions) => this.scrollTo(this.scrollTop + (options.top || 0))) as never;
+        this.scroller.scrollTo = ((options: ScrollToOptions) => this.scrollTo(options.top || 0)) as never;
+
+        new MutationObserver(noteListMutations).observe(this.container, { childList: true });
+        this.render();
+    }
+
+    private scrollTo(top: number): void {
+        this.scrollTop = Math.max(0, Math.min(top, (this.total - VISIBLE) * ROW));
+        noteListScroll();
+        this.render();
+    }
+
+    private render(): void {
+        const first = Math.floor(this.scrollTop / ROW);
+        const last = Math.min(this.total - 1, first + VISIBLE - 1);
+        for (const [index, row] of this.rows) {
+            if (index < first || index > last) {
+                row.remove();
+                this.rows.delete(index);
+            }
+        }
+        for (let index = first; index <= last; index++) {
+            if (this.rows.has(index)) continue;
+            const row = document.createElement('div');
+            if (this.aria) {
+                row.setAttribute('aria-posinset', String(index + 1));
+                row.setAttribute('aria-setsize', String(this.total));
+            }
+            row.innerHTML = `<span>Item ${index}</span><button>Open</button>`;
+            const top = () => index * ROW - this.scrollTop;
+            setRect(row, () => ({ x: 0, y: top(), w: 300, h: ROW }));
+            setRect(row.querySelector('button')!, () => ({ x: 200, y: top() + 5, w: 80, h: 30 }));
+            this.container.appendChild(row);
+            this.rows.set(index, row);
+        }
+    }
+
+    row(index: number): Element {
+        return this.rows.get(index)!;
+    }
+}
+
+// Let the MutationObserver deliver
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('virtual lists', () => {
+    beforeEach(() => {
+        document.body.innerHTML = '';
+        setListItemKeyProvider(getListItemKey);
+    });
+
+    describe('getListItemKey', () => {
+        it('keys elements in rows of a recycling list by item index', async () => {
+            const list = new FakeList(100, false);
+            list.scroller.scrollBy({ top: 3 * ROW });
+            await flush();
+
+            expect(getListItemKey(list.row(4).querySelector('button')!)).toBe('item4');
+            expect(getListItemKey(list.row(7))).toBe('item7');
+        });
+
+        it('prefers aria-posinset over the estimated position', async () => {
+            const list = new FakeList(100, true);
+            const row = list.row(2);
+            row.setAttribute('aria-posinset', '41');
+            list.scroller.scrollBy({ top: ROW });
+            await flush();
+
+            expect(getListItemKey(row.querySelector('button')!)).toBe('item40');
+        });
+
+        it('returns null outside recycling lists', async () => {
+            const list = new FakeList(100, false);
+            const outside = document.createElement('button');
+            document.body.appendChild(outside);
+            // Only appended rows, as a feed loading more
+            noteListScroll();
+            list.container.appendChild(document.createElement('div'));
+            await flush();
+
+            expect(getListItemKey(list.row(0).querySelector('button')!)).toBeNull();
+            list.scroller.scrollBy({ top: ROW });
+            await flush();
+            expect(getListItemKey(outside)).toBeNull();
+        });
+
+        it('gives a recycled row the id of its item, not of the element it reuses', async () => {
+            const list = new FakeList(100, false);
+            list.scroller.scrollBy({ top: ROW });
+            await flush();
+
+            const candidate = extractActionMap().find(c => c.fingerprint.endsWith(':item3'))!;
+            expect(candidate.id).toBe(getElementId(list.row(3).querySelector('button')!));
+
+            // The same element now shows item 8: it no longer answers to item 3's id
+            const button = list.row(3).querySelector('button')!;
+            list.row(3).setAttribute('aria-posinset', '9');
+            const moved = extractActionMap().find(c => c.fingerprint.endsWith(':item8'))!;
+            expect(moved.id).toBe(getElementId(button));
+            expect(moved.id).not.toBe(candidate.id);
+        });
+    });
+
+    describe('extractVirtualLists', () => {
+        it('describes a list whose declared size exceeds what is rendered', () => {
+            const list = new FakeList(100, true);
+
+            const [region] = extractVirtualLists();
+            expect(region).toMatchObject({
+                id: getElementId(list.container),
+                kind: 'virtualList',
+                scrollerId: getElementId(list.scroller),
+                recycled: false,
+                renderedCount: VISIBLE,
+                estimatedTotal: 100,
+                visibleRange: { start: 0, end: VISIBLE - 1 },
+            });
+        });
+
+        it('marks a list that re-creates rows on scroll as recycled', async () => {
+            const list = new FakeList(100, false);
+            list.scroller.scrollBy({ top: 2 * ROW });
+            await flush();
+
+            const [region] = extractVirtualLists();
+            expect(region.recycled).toBe(true);
+            expect(region.estimatedTotal).toBe(100);
+            expect(region.visibleRange).toEqual({ start: 2, end: 6 });
+        });
+
+        it('ignores plain lists', () => {
+            document.body.innerHTML = '<ul><li>One</li><li>Two</li><li>Three</li></ul>';
+            for (const li of document.querySelectorAll('li')) {
+                setRect(li, () => ({ x: 0, y: 0, w: 100, h: 20 }));
+            }
+            expect(extractVirtualLists()).toEqual([]);
+        });
+    });
+
+    describe('scrollToListItem', () => {
+        beforeEach(() => {
+            vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'requestAnimationFrame'] });
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it('scrolls until the item renders and returns its candidates', async () => {
+            const list = new FakeList(100, true);
+
+            const found = scrollToListItem('Item 12');
+            await vi.runAllTimersAsync();
+            const result = await found;
+
+            const row = list.row(12);
+            expect(result).toMatchObject({ id: getElementId(row), index: 12 });
+            expect(result.scrolls).toBeGreaterThan(0);
+            expect(result.candidateIds).toEqual([getElementId(row.querySelector('button')!)]);
+        });
+
+        it('fails when no item matches after wrapping around', async () => {
+            new FakeList(12, true);
+
+            const found = scrollToListItem('Item 99').catch((error: Error) => error);
+            await vi.runAllTimersAsync();
+            expect((await found as Error).message).toBe('No item matching "Item 99" in list');
+        });
+
+        it('fails without a list', async () => {
+            await expect(scrollToListItem('Item 1')).rejects.toThrow('No virtual list found');
+        });
+    });
+});
@@ -5,8 +5,12 @@
 
 import WebSocket from 'ws';
 import { EventEmitter } from 'events';
+import { readFile } from 'fs/promises';
+import { basename, extname } from 'path';
 
 // Types (inline to avoid import issues)
+export type Rect = { x: number; y: number; w: number; h: number };
+
 export interface ActionCandidate {
     id: string;
     rect: { x: number; y: number; w: number; h: number };
@@ -14,6 +18,7 @@ export interface ActionCandidate {
     role: string;
     tag: string;
     name: string;
+    description: string;
     aria: string;
     placeholder?: string;
     value?: string;
@@ -38,12 +43,169 @@ export interface ActionCandidate {
     };
     hit: { cx: number; cy: number };
     occluded: boolean;
+    visibleFraction: number;
+    occludedBy: { id: string | null; dismissId: string | null; role: string; name: string; rect: Rect } | null;
+    inViewport: boolean;
+    frameId?: number;
+    shadowPath?: string[];
+    fingerprint: string;
+    headingId: string | null;
+    landmarkId: string | null;
+}
+
+export interface PageOutline {
+    tabId: number;
+    url: string;
+    timestamp: number;
+    landmarks: { id: string; role: string; name: string; rect: Rect; parentId: string | null }[];
+    headings: { id: string; level: number; text: string; rect: Rect; landmarkId: string | null }[];
+    textBlocks: { id: string; text: string; rect: Rect; headingId: string | null; landmarkId: string | null }[];
+}
+
+export interface FormField {
+    id: string;
+    label: string;
+    name: string;
+    type: string;
+    required: boolean;
+    disabled: boolean;
+    value: string;
+    checked?: boolean;
+    placeholder?: string;
+    pattern?: string;
+    min?: string;
+    max?: string;
+    step?: string;
+    minLength?: number;
+    maxLength?: number;
+    valid: boolean;
+    validationMessage: string;
+    options?: { value: string; label: string; selected: boolean; id?: string }[];
+}
+
+export interface FormSchema {
+    id: string;
+    name: string;
+    action: string;
+    method: string;
+    fields: FormField[];
+    submitId: string | null;
+}
+
+export interface TableRow {
+    id: string;
+    index: number;
+    cells: { column: number; text: string; candidateIds: string[]; candidateNames: string[] }[];
+}
+
+export interface TableSchema {
+    id: string;
+    name: string;
+    kind: 'table' | 'grid' | 'treegrid';
+    headers: string[];
+    rows: TableRow[];
+    rowCount: number;
+}
+
+export interface RowMatch {
+    table: TableSchema;
+    row: TableRow;
+    candidateId: string | null;
+    candidate: ActionCandidate | null;
+}
+
+export interface VirtualListRegion {
+    id: string;
+    kind: 'virtualList';
+    scrollerId: string | null;
+    rect: Rect;
+    recycled: boolean;
+    renderedCount: number;
+    estimatedTotal: number;
+    visibleRange: { start: number; end: number } | null;
+}
+
+export interface UploadFile {
+    name: string;
+    mimeType?: string;
+    content: string; // base64
+}
+
+export type InputMode = 'synthetic' | 'trusted';
+
+export type PointerCurve = 'linear' | 'ease' | 'bezier' | 'minimum_jerk';
+
+export type Remedy = 'reresolve' | 'scroll' | 'dismiss_overlay' | 'wait_stable';
+
+export interface RecoveryOptions {
+    retries?: number; // Default 2; 0 acts on the target as found
+    remedies?: Remedy[]; // Default all
+}
+
+export interface RecoveryAttempt {
+    attempt: number;
+    problem: 'not_found' | 'offscreen' | 'moving' | 'occluded';
+    detail: string;
+    remedy: Remedy | null; // null when the executor gave up
+    action?: string;
+    resolvedId?: string;
+}
+
+export type WaitCondition =
+    | 'appear'
+    | 'disappear'
+    | 'enabled'
+    | 'text'
+    | 'url'
+    | 'modal_open'
+    | 'modal_closed'
+    | 'quiet';
+
+export interface StepExpectation {
+    id?: string; // Defaults to the step's target
+    visible?: boolean;
+    value?: string;
+    focused?: boolean;
+    text?: string;
+    url?: string;
+    timeout?: number;
+}
+
+export interface BatchStep {
+    command: { type: string; [key: string]: unknown }; // Any command, without tabId
+    expect?: StepExpectation;
+    delay?: number;
+}
+
+export interface BatchStepResult {
+    index: number;
+    type: string;
+    commandId: string;
+    status: 'ok' | 'fail' | 'verify' | 'cancelled' | 'skipped';
+    reason?: string;
+    result?: unknown;
+    recovery?: RecoveryAttempt[];
+    elapsed: number;
+}
+
+// What a targeted action did to the page
+export interface ActionEffects {
+    urlChanged: boolean;
+    url?: string;
+    modalOpened: boolean;
+    menuOpened: boolean;
+    focusChanged: boolean;
+    focusedId: string | null;
+    candidatesAdded: number;
+    candidatesRemoved: number;
+    valueChanged: boolean;
+    value?: string;
 }
 
 export interface CommandResult {
     ok: boolean;
     commandId: string;
-    status: 'ok' | 'fail' | 'verify';
+    status: 'ok' | 'fail' | 'verify' | 'cancelled';
     reason?: string;
     result?: unknown;
     verification?: {
@@ -51,7 +213,11 @@ export interface CommandResult {
         stillVisible: boolean;
         hitTestOk: boolean;
         rectChanged: boolean;
+        oldRect?: Rect;
+        newRect?: Rect;
+        effects?: ActionEffects;
     };
+    recovery?: RecoveryAttempt[]; // Problems found with the target and the remedies tried
 }
 
 export interface TabInfo {
@@ -66,6 +232,7 @@ export interface BridgeOptions {
     autoReconnect?: boolean;
     reconnectInterval?: number;
     maxReconnectAttempts?: number;
+    commandTimeout?: number; // timeoutMs for commands that don't set one (backend default 30000)
 }
 
 export type BridgeEvent =
@@ -74,9 +241,50 @@ export type BridgeEvent =
     | 'error'
     | 'snapshot'
     | 'delta'
+    | 'outline'
+    | 'forms'
+    | 'tables'
+    | 'regions'
     | 'event'
     | 'ack';
 
+/**
+ * The timeoutMs the backend gives a command that sets none: wait_for's own timeout and
+ * a batch's summed step waits, each plus 5000; 30000 for everything else
+ */
+function getDefaultTimeout(command: { type: string; [key: string]: any }): number {
+    if (command.type === 'wait_for') {
+        return (command.timeout ?? 10000) + 5000;
+    }
+    if (command.type === 'batch') {
+        let total = 5000;
+        for (const step of command.steps as BatchStep[]) {
+            total += (step.delay ?? 0) + ((step.command.timeoutMs as number | undefined) ?? getDefaultTimeout(step.command));
+            if (step.expect) total += step.expect.timeout ?? 1000;
+        }
+        return total;
+    }
+    return 30000;
+}
+
+const MIME_TYPES: Record<string, string> = {
+    '.txt': 'text/plain',
+    '.csv': 'text/csv',
+    '.html': 'text/html',
+    '.json': 'application/json',
+    '.pdf': 'application/pdf',
+    '.zip': 'application/zip',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.svg': 'image/svg+xml',
+    '.mp4': 'video/mp4',
+    '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
 /**
  * Perception Bridge - main API for browser control
  */
@@ -86,6 +294,7 @@ export class PerceptionBridge extends EventEmitter {
     private autoReconnect: boolean;
     private reconnectInterval: number;
     private maxReconnectAttempts: number;
+    private commandTimeout?: number;
     private reconnectAttempts = 0;
     private isConnecting = false;
     private pendingRequests = new Map<string, {
@@ -93,6 +302,9 @@ export class PerceptionBridge extends EventEmitter {
         reject: (error: Error) => void;
     }>();
 
+    // Commands sent with act() still waiting for their ack
+    private inFlight = new Set<string>();
+
     private _connected = false;
     private _subscribedTabId?: number;
 
@@ -102,6 +314,7 @@ export class PerceptionBridge extends EventEmitter {
         this.autoReconnect = options.autoReconnect ?? true;
         this.reconnectInterval = options.reconnectInterval || 2000;
         this.maxReconnectAttempts = options.maxReconnectAttempts || 10;
+        this.commandTimeout = options.commandTimeout;
     }
 
     get connected(): boolean {
@@ -194,6 +407,15 @@ export class PerceptionBridge extends EventEmitter {
             const responseToRequestType: Record<string, string> = {
                 'tabs': 'list_tabs',
                 'candidates': 'query',
+                'reacquired': 'reacquire',
+                'page_outline': 'get_outline',
+                'form_schemas': 'get_forms',
+                'table_schemas': 'get_tables',
+                'row_resolved': 'resolve_row',
+                'region_list': 'get_regions',
+                'configured': 'configure',
+                'input_configured': 'configure_input',
+                'cancel_result': 'cancel',
                 'subscribed': 'subscribe',
                 'navigate_result': 'navigate',
                 'cdp_status': 'cdp_status',
@@ -203,10 +425,8 @@ export class PerceptionBridge extends EventEmitter {
             };
 
             // Check for pending request response
-            if (message.type === 'tabs' || message.type === 'candidates' || message.type === 'subscribed'
-                || message.type === 'navigate_result' || message.type === 'cdp_status'
-                || message.type === 'cdp_type_result' || message.type === 'cdp_key_result' || message.type === 'cdp_eval_result') {
-                const requestType = responseToRequestType[message.type] || message.type;
+            if (message.type in responseToRequestType) {
+                const requestType = responseToRequestType[message.type];
                 const pending = this.pendingRequests.get(requestType);
                 if (pending) {
                     pending.resolve(message);
@@ -234,6 +454,18 @@ export class PerceptionBridge extends EventEmitter {
                 case 'delta':
                     this.emit('delta', message);
                     break;
+                case 'outline':
+                    this.emit('outline', message);
+                    break;
+                case 'forms':
+                    this.emit('forms', message);
+                    break;
+                case 'tables':
+                    this.emit('tables', message);
+                    break;
+                case 'regions':
+                    this.emit('regions', message);
+                    break;
                 case 'event':
                     this.emit('event', message);
                     break;
@@ -249,13 +481,16 @@ export class PerceptionBridge extends EventEmitter {
     /**
      * Send request and wait for response
      */
-    private async request<T>(type: string, data: any = {}): Promise<T> {
+    private async request<T>(type: string, data: any = {}, options: {
+        key?: string; // What the response is matched by (acks: their commandId)
+        timeout?: number;
+    } = {}): Promise<T> {
         if (!this.ws || !this._connected) {
             throw new Error('Not connected');
         }
 
         return new Promise((resolve, reject) => {
-            const key = data.commandId || type;
+            const key = options.key || type;
             this.pendingRequests.set(key, { resolve, reject });
 
             this.ws!.send(JSON.stringify({ type, ...data }));
@@ -266,7 +501,7 @@ export class PerceptionBridge extends EventEmitter {
                     this.pendingRequests.delete(key);
                     reject(new Error('Request timeout'));
                 }
-            }, 30000);
+            }, options.timeout || 30000);
         });
     }
 
@@ -345,14 +580,122 @@ export class PerceptionBridge extends EventEmitter {
         return response.candidates;
     }
 
+    /**
+     * Reacquire "the same element as before" by an earlier id or a fingerprint
+     */
+    async reacquire(
+        tabId: number,
+        target: { id?: string; fingerprint?: string }
+    ): Promise<ActionCandidate | null> {
+        const response = await this.request<{ type: string; candidate: ActionCandidate | null }>(
+            'reacquire',
+            { tabId, ...target }
+        );
+        return response.candidate;
+    }
+
+    /**
+     * Get the page outline (landmarks, headings, visible text blocks)
+     */
+    async getOutline(tabId: number): Promise<PageOutline | null> {
+        const response = await this.request<{ type: string; outline: PageOutline | null }>(
+            'get_outline',
+            { tabId }
+        );
+        return response.outline;
+    }
+
+    /**
+     * Get form schemas (fields, constraints, values, submit control) for a tab
+     */
+    async getForms(tabId: number): Promise<FormSchema[]> {
+        const response = await this.request<{ type: string; forms: FormSchema[] }>(
+            'get_forms',
+            { tabId }
+        );
+        return response.forms;
+    }
+
+    /**
+     * Get tables and grids (headers, rows, cells with their candidate ids) for a tab
+     */
+    async getTables(tabId: number): Promise<TableSchema[]> {
+        const response = await this.request<{ type: string; tables: TableSchema[] }>(
+            'get_tables',
+            { tabId }
+        );
+        return response.tables;
+    }
+
+    /**
+     * Find the row where a column has a value, and optionally the named candidate
+     * in that row (e.g. resolveRow(tab, { column: 'Email', value: 'x', target: 'Edit' }))
+     */
+    async resolveRow(
+        tabId: number,
+        query: { column: string; value: string; target?: string; tableId?: string }
+    ): Promise<RowMatch | null> {
+        const response = await this.request<{ type: string; match: RowMatch | null }>(
+            'resolve_row',
+            { tabId, ...query }
+        );
+        return response.match;
+    }
+
+    /**
+     * Get virtualized list regions (estimated size, visible range) for a tab
+     */
+    async getRegions(tabId: number): Promise<VirtualListRegion[]> {
+        const response = await this.request<{ type: string; regions: VirtualListRegion[] }>(
+            'get_regions',
+            { tabId }
+        );
+        return response.regions;
+    }
+
+    /**
+     * Set perception options for a tab (e.g. include off-screen candidates)
+     */
+    async configure(tabId: number, options: { includeOffscreen?: boolean }): Promise<boolean> {
+        const response = await this.request<{ type: string; ok: boolean }>(
+            'configure',
+            { tabId, options }
+        );
+        return response.ok;
+    }
+
+    /**
+     * Set the default input mode per domain (subdomains included). Trusted input runs
+     * through chrome.debugger, so events are isTrusted; set a domain back to
+     * 'synthetic' to undo. Commands can still override with their own inputMode.
+     */
+    async setInputDefaults(defaults: Record<string, InputMode>): Promise<boolean> {
+        const response = await this.request<{ type: string; ok: boolean }>(
+            'configure_input',
+            { defaults }
+        );
+        return response.ok;
+    }
+
     /**
      * Execute a command
      */
     private async act(command: any): Promise<CommandResult> {
         const commandId = `cmd_${Date.now()}_${Math.random().toString(36).substring(2, 6)}`;
         command.commandId = commandId;
+        command.timeoutMs ??= this.commandTimeout;
 
-        const response = await this.request<any>('act', { command });
+        // The backend fails the command (reason "timeout") shortly after timeoutMs; give it a moment past that
+        this.inFlight.add(commandId);
+        let response: any;
+        try {
+            response = await this.request<any>('act', { command }, {
+                key: commandId,
+                timeout: (command.timeoutMs ?? getDefaultTimeout(command)) + 5000,
+            });
+        } finally {
+            this.inFlight.delete(commandId);
+        }
 
         return {
             ok: response.status === 'ok' || response.status === 'verify',
@@ -361,20 +704,38 @@ export class PerceptionBridge extends EventEmitter {
             reason: response.reason,
             result: response.result,
             verification: response.verification,
+            recovery: response.recovery,
         };
     }
 
+    /**
+     * Cancel a running command, or every command this bridge is waiting on. The
+     * command's own call resolves with status 'cancelled'. Returns the ids cancelled.
+     */
+    async cancel(commandId?: string, reason?: string): Promise<string[]> {
+        const ids = commandId ? [commandId] : [...this.inFlight];
+        const cancelled: string[] = [];
+        for (const id of ids) {
+            const response = await this.request<{ cancelled: boolean }>('cancel', { commandId: id, reason });
+            if (response.cancelled) cancelled.push(id);
+        }
+        return cancelled;
+    }
+
     // ============================================================================
     // High-level API
     // ============================================================================
 
     /**
-     * Click an element by ID
+     * Click an element by ID. A target that is missing, off-screen, moving or covered
+     * goes through recovery first (options.recovery); result.recovery lists the rounds.
      */
     async click(tabId: number, id: string, options: {
         button?: 'left' | 'right' | 'middle';
         modifiers?: ('ctrl' | 'shift' | 'alt' | 'meta')[];
         clickCount?: number;
+        inputMode?: InputMode;
+        recovery?: RecoveryOptions;
     } = {}): Promise<CommandResult> {
         return this.act({
             type: 'click',
@@ -390,6 +751,8 @@ export class PerceptionBridge extends EventEmitter {
     async type(tabId: number, id: string, text: string, options: {
         clearFirst?: boolean;
         delay?: number;
+        inputMode?: InputMode;
+        recovery?: RecoveryOptions;
     } = {}): Promise<CommandResult> {
         return this.act({
             type: 'type',
@@ -398,31 +761,206 @@ export class PerceptionBridge extends EventEmitter {
             text,
             clearFirst: options.clearFirst ?? true,
             delay: options.delay,
+            inputMode: options.inputMode,
+            recovery: options.recovery,
         });
     }
 
     /**
      * Hover over an element
      */
-    async hover(tabId: number, id: string, duration?: number): Promise<CommandResult> {
+    async hover(tabId: number, id: string, duration?: number, options: {
+        steps?: number;
+        curve?: PointerCurve;
+        jitter?: number;
+        inputMode?: InputMode;
+        recovery?: RecoveryOptions;
+    } = {}): Promise<CommandResult> {
         return this.act({
             type: 'hover',
             tabId,
             id,
             duration,
+            ...options,
+        });
+    }
+
+    /**
+     * Move the pointer from its last known position to a viewport point along a path.
+     * jitter (px) adds sideways wobble; bezier and minimum_jerk curves move like a hand.
+     */
+    async moveMouse(tabId: number, x: number, y: number, options: {
+        steps?: number;
+        curve?: PointerCurve;
+        duration?: number;
+        jitter?: number;
+    } = {}): Promise<CommandResult> {
+        return this.act({
+            type: 'move_mouse',
+            tabId,
+            x,
+            y,
+            ...options,
+        });
+    }
+
+    /**
+     * Drag an element onto another candidate, or to a point in top-level viewport coordinates
+     */
+    async drag(tabId: number, id: string, to: { targetId: string } | { x: number; y: number }, options: {
+        steps?: number;
+        curve?: PointerCurve;
+        duration?: number;
+        recovery?: RecoveryOptions;
+    } = {}): Promise<CommandResult> {
+        return this.act({
+            type: 'drag',
+            tabId,
+            id,
+            ...to,
+            ...options,
         });
     }
 
     /**
      * Scroll the page or element
      */
-    async scroll(tabId: number, dx: number, dy: number, target?: string): Promise<CommandResult> {
+    async scroll(tabId: number, dx: number, dy: number, target?: string, inputMode?: InputMode): Promise<CommandResult> {
         return this.act({
             type: 'scroll',
             tabId,
             dx,
             dy,
             target,
+            inputMode,
+        });
+    }
+
+    /**
+     * Press a key or chord ("Enter", "Ctrl+K", "Shift+Tab") on the focused element,
+     * or on a candidate after focusing it
+     */
+    async press(tabId: number, key: string, options: {
+        id?: string;
+        modifiers?: ('ctrl' | 'shift' | 'alt' | 'meta')[];
+        repeat?: number;
+        delay?: number;
+        inputMode?: InputMode;
+        recovery?: RecoveryOptions;
+    } = {}): Promise<CommandResult> {
+        return this.act({
+            type: 'key',
+            tabId,
+            key,
+            ...options,
+        });
+    }
+
+    /**
+     * Scroll a virtualized list until an item containing the text is rendered.
+     * The result carries the item id, its index and the candidate ids inside it.
+     */
+    async scrollToItem(tabId: number, query: string, options: {
+        listId?: string;
+        maxScrolls?: number;
+    } = {}): Promise<CommandResult> {
+        return this.act({
+            type: 'scroll_to_item',
+            tabId,
+            query,
+            ...options,
+        });
+    }
+
+    /**
+     * Upload files into a file input (or its label/button), or drop them on a drop zone
+     */
+    async upload(tabId: number, id: string, files: UploadFile[]): Promise<CommandResult> {
+        return this.act({
+            type: 'upload',
+            tabId,
+            id,
+            files,
+        });
+    }
+
+    /**
+     * Upload files from local paths; MIME types are guessed from the extension
+     */
+    async uploadFiles(tabId: number, id: string, paths: string[]): Promise<CommandResult> {
+        const files = await Promise.all(paths.map(async path => ({
+            name: basename(path),
+            mimeType: MIME_TYPES[extname(path).toLowerCase()] || 'application/octet-stream',
+            content: (await readFile(path)).toString('base64'),
+        })));
+        return this.upload(tabId, id, files);
+    }
+
+    /**
+     * Run several commands in one round trip, in order, in the content script. Each step
+     * can carry an expectation checked after it; by default the batch stops at the first
+     * failed step and skips the rest. result.steps holds a BatchStepResult per step.
+     */
+    async batch(tabId: number, steps: BatchStep[], options: {
+        onFailure?: 'stop' | 'continue';
+    } = {}): Promise<CommandResult> {
+        return this.act({
+            type: 'batch',
+            tabId,
+            steps,
+            ...options,
+        });
+    }
+
+    /**
+     * Screenshot a candidate (scrolled into view, with padding around it) or a rect in
+     * top-level viewport coordinates. The result carries the base64 image, its size in
+     * device pixels and the device-pixel scale. The tab must be the active tab.
+     */
+    async capturePatch(tabId: number, target: { id: string } | { x: number; y: number; w: number; h: number }, options: {
+        padding?: number;
+        format?: 'png' | 'jpeg';
+        quality?: number;
+    } = {}): Promise<CommandResult> {
+        return this.act({
+            type: 'capture_patch',
+            tabId,
+            ...target,
+            ...options,
+        });
+    }
+
+    /**
+     * Wait for a condition in the page (candidate appears/disappears/is enabled, text,
+     * URL, modal open/closed, DOM quiet). Resolves with the matching candidate, or
+     * fails when the timeout passes.
+     */
+    async waitFor(tabId: number, condition: WaitCondition, options: {
+        id?: string;
+        query?: string;
+        text?: string;
+        url?: string;
+        quietMs?: number;
+        timeout?: number;
+    } = {}): Promise<CommandResult> {
+        return this.act({
+            type: 'wait_for',
+            tabId,
+            condition,
+            ...options,
+        });
+    }
+
+    /**
+     * Open a cascading menu path (["File", "Export", "PDF"]) by hovering each level
+     * and click the last item. Failures name the level that didn't open or match.
+     */
+    async navigateMenu(tabId: number, path: string[], timeout?: number): Promise<CommandResult> {
+        return this.act({
+            type: 'navigate_menu',
+            tabId,
+            path,
+            timeout,
         });
     }
 
@@ -438,14 +976,19 @@ export class PerceptionBridge extends EventEmitter {
     }
 
     /**
-     * Select option in a dropdown
+     * Select option in a dropdown, or in an ARIA combobox/listbox
+     * (filter: type the value into the combobox first)
      */
-    async select(tabId: number, id: string, value: string | string[]): Promise<CommandResult> {
+    async select(tabId: number, id: string, value: string | string[], options: {
+        filter?: boolean;
+        recovery?: RecoveryOptions;
+    } = {}): Promise<CommandResult> {
         return this.act({
             type: 'select',
             tabId,
             id,
             value,
+            ...options,
         });
     }
 
@@ -5,7 +5,8 @@
  */
 
 import * as readline from 'readline';
-import { PerceptionBridge, ActionCandidate, CommandResult } from './bridge.js';
+import { writeFile } from 'fs/promises';
+import { PerceptionBridge, ActionCandidate, CommandResult, ActionEffects, WaitCondition, PointerCurve } from './bridge.js';
 
 // ANSI colors (since chalk is ESM-only, use raw codes for simplicity)
 const colors = {
@@ -56,18 +57,50 @@ function printCandidate(candidate: ActionCandidate): void {
 
     if (candidate.state.disabled) flags.push(c('red', 'disabled'));
     if (candidate.occluded) flags.push(c('yellow', 'occluded'));
+    else if (candidate.visibleFraction < 1 && candidate.inViewport !== false) {
+        flags.push(c('yellow', `${Math.round(candidate.visibleFraction * 100)}% visible`));
+    }
+    if (candidate.occludedBy) {
+        const { id, dismissId, role, name } = candidate.occludedBy;
+        const under = id || (name ? `${role} "${name.substring(0, 30)}"` : role);
+        flags.push(c('yellow', `under ${under}${dismissId ? ` (dismiss: ${dismissId})` : ''}`));
+    }
+    if (candidate.inViewport === false) flags.push(c('dim', 'offscreen'));
     if (candidate.state.focused) flags.push(c('green', 'focused'));
     if (candidate.ctx.inModal) flags.push(c('magenta', 'modal'));
 
     print(`  ${role} ${name} ${id} ${flags.join(' ')}`);
 }
 
+function describeEffects(effects: ActionEffects): string {
+    const parts: string[] = [];
+    if (effects.urlChanged) parts.push(`navigated to ${effects.url}`);
+    if (effects.modalOpened) parts.push('modal opened');
+    if (effects.menuOpened) parts.push('menu opened');
+    if (effects.focusChanged) parts.push(`focus -> ${effects.focusedId ?? 'page'}`);
+    if (effects.candidatesAdded || effects.candidatesRemoved) {
+        parts.push(`candidates +${effects.candidatesAdded}/-${effects.candidatesRemoved}`);
+    }
+    if (effects.valueChanged) parts.push(`value ${JSON.stringify(effects.value)}`);
+    return parts.length > 0 ? parts.join(', ') : 'none';
+}
+
 function printResult(result: CommandResult): void {
+    for (const attempt of result.recovery || []) {
+        const remedy = attempt.remedy ? `${attempt.remedy}${attempt.action ? ` (${attempt.action})` : ''}` : 'gave up';
+        print(c('dim', `    Recovery ${attempt.attempt}: ${attempt.detail} -> ${remedy}`));
+    }
     if (result.ok) {
         printSuccess(`Command ${result.commandId} - ${result.status}`);
         if (result.verification) {
-            print(`    Visible: ${result.verification.stillVisible}, Hit OK: ${result.verification.hitTestOk}`);
+            const { stillVisible, hitTestOk, rectChanged, effects } = result.verification;
+            print(`    Visible: ${stillVisible}, Hit OK: ${hitTestOk}, Moved: ${rectChanged}`);
+            if (effects) {
+                print(`    Effects: ${describeEffects(effects)}`);
+            }
         }
+    } else if (result.status === 'cancelled') {
+        printError(`Command cancelled: ${result.reason}`);
     } else {
         printError(`Command failed: ${result.reason}`);
     }
@@ -99,15 +132,33 @@ ${c('cyan', 'Inspection:')}
   list [filter]              List candidates (optionally filtered)
   find <text>                Find candidates matching text
   roles                      List all roles in current tab
+  outline                    Show landmarks, headings and visible text
+  forms                      Show form fields, values and validation
+  tables                     Show tables and grids with their rows
+  row <column> <value> [target]  Find a table row by cell value (and a control in it)
+  lists                      Show virtualized lists and their visible range
+  reacquire <id>             Find the element an earlier id referred to
+  offscreen <on|off>         Include candidates outside the viewport
+  inputmode <domain> <synthetic|trusted>  Default input mode for a domain
   
 ${c('cyan', 'Actions:')}
   click <id>                 Click element by ID
   click-text <text>          Click element by text
   type <id> <text>           Type text into element
+  key <chord> [id] [count]   Press a key or chord (Enter, Ctrl+K, Shift+Tab)
   hover <id>                 Hover over element
+  move <x> <y> [curve]       Move the pointer along a path (linear, ease, bezier, minimum_jerk)
+  drag <id> <targetId|x y>   Drag element onto a target or point
+  upload <id> <path...>      Upload local files into a file input or drop zone
   scroll <dx> <dy>           Scroll page
+  scroll-to <text>           Scroll a virtual list until an item with text renders
   focus <id>                 Focus element
-  select <id> <value>        Select option in dropdown
+  select <id> <value>        Select option in dropdown or combobox
+  menu <a > b > c>           Hover down a cascading menu and click the last item
+  patch <id> [file]          Save a screenshot of an element (default <id>.png)
+  wait <condition> [arg]     Wait for appear|disappear|enabled <id|text>, text <text>,
+                             url <pattern>, modal_open, modal_closed, quiet [ms]
+  Ctrl+C                     Cancel the running command (exits when none is running)
 
 ${c('cyan', 'Other:')}
   clear                      Clear screen
@@ -193,7 +244,6 @@ ${c('cyan', 'Other:')}
                 break;
 
             case 'cdpkey':
-            case 'key':
                 const keyArg = parts[1];
                 if (!keyArg) {
                     printError('Usage: cdpkey <key> (e.g., Enter, Tab, Escape)');
@@ -207,6 +257,23 @@ ${c('cyan', 'Other:')}
                 }
                 break;
 
+            case 'key':
+            case 'press':
+                if (!currentTabId) {
+                    printError('No tab selected');
+                    break;
+                }
+                if (!parts[1]) {
+                    printError('Usage: key <key|chord> [id] [count] (e.g., Enter, Ctrl+K, Shift+Tab)');
+                    break;
+                }
+                const pressResult = await bridge.press(currentTabId, parts[1], {
+                    id: parts[2] && !/^\d+$/.test(parts[2]) ? parts[2] : undefined,
+                    repeat: parts.length > 2 ? parseInt(parts[parts.length - 1], 10) || undefined : undefined,
+                });
+                printResult(pressResult);
+                break;
+
             case 'eval':
             case 'js':
                 const expr = parts.slice(1).join(' ');
@@ -272,6 +339,166 @@ ${c('cyan', 'Other:')}
                 }
                 break;
 
+            case 'outline':
+                if (!currentTabId) {
+                    printError('No tab selected');
+                    break;
+                }
+                const outline = await bridge.getOutline(currentTabId);
+                if (!outline) {
+                    printError('No outline for this tab yet');
+                    break;
+                }
+                print(`\n${c('bold', 'Landmarks:')}`);
+                for (const landmark of outline.landmarks) {
+                    print(`  ${c('cyan', landmark.role.padEnd(15))} ${landmark.name.substring(0, 40).padEnd(40)} ${c('gray', landmark.id)}`);
+                }
+                print(`\n${c('bold', 'Headings:')}`);
+                for (const heading of outline.headings) {
+                    print(`  ${'  '.repeat(heading.level - 1)}${c('cyan', `h${heading.level}`)} ${heading.text.substring(0, 60)} ${c('gray', heading.id)}`);
+                }
+                print(`\n${c('bold', `Visible text (${outline.textBlocks.length} blocks):`)}`);
+                for (const block of outline.textBlocks.slice(0, 20)) {
+                    print(`  ${c('dim', block.text.substring(0, 80))}`);
+                }
+                break;
+
+            case 'forms':
+                if (!currentTabId) {
+                    printError('No tab selected');
+                    break;
+                }
+                const forms = await bridge.getForms(currentTabId);
+                if (forms.length === 0) {
+                    print(c('dim', 'No forms'));
+                    break;
+                }
+                for (const form of forms) {
+                    print(`\n${c('bold', form.name || form.action || 'Form')} ${c('gray', form.id)}${form.submitId ? c('gray', ` submit: ${form.submitId}`) : ''}`);
+                    for (const field of form.fields) {
+                        const required = field.required ? c('yellow', '*') : ' ';
+                        const value = field.options
+                            ? field.options.map(o => o.selected ? c('green', o.label) : o.label).join(' | ')
+                            : field.value;
+                        const invalid = field.valid ? '' : c('red', ` ✗ ${field.validationMessage}`);
+                        print(`  ${required}${c('cyan', field.type.padEnd(10))} ${field.label.substring(0, 30).padEnd(30)} ${c('gray', field.id)} ${value}${invalid}`);
+                    }
+                }
+                break;
+
+            case 'tables':
+                if (!currentTabId) {
+                    printError('No tab selected');
+                    break;
+                }
+                const tables = await bridge.getTables(currentTabId);
+                if (tables.length === 0) {
+                    print(c('dim', 'No tables'));
+                    break;
+                }
+                for (const table of tables) {
+                    print(`\n${c('bold', table.name || table.kind)} ${c('gray', `${table.id} ${table.rows.length}/${table.rowCount} rows`)}`);
+                    if (table.headers.length > 0) {
+                        print(`  ${c('cyan', table.headers.map(h => h.substring(0, 20)).join(' | '))}`);
+                    }
+                    for (const row of table.rows.slice(0, 20)) {
+                        const cells = row.cells.map(cell =>
+                            cell.text.substring(0, 20) + (cell.candidateIds.length ? c('gray', ` [${cell.candidateIds.join(',')}]`) : '')
+                        );
+                        print(`  ${cells.join(' | ')}`);
+                    }
+                }
+                break;
+
+            case 'row':
+                if (!currentTabId) {
+                    printError('No tab selected');
+                    break;
+                }
+                if (!parts[1] || !parts[2]) {
+                    printError('Usage: row <column> <value> [target]');
+                    break;
+                }
+                const rowMatch = await bridge.resolveRow(currentTabId, {
+                    column: parts[1],
+                    value: parts[2],
+                    target: parts.slice(3).join(' ') || undefined,
+                });
+                if (!rowMatch) {
+                    printError(`No row where ${parts[1]} is ${parts[2]}`);
+                    break;
+                }
+                print(`${c('bold', rowMatch.table.name || rowMatch.table.id)} row ${rowMatch.row.index} ${c('gray', rowMatch.row.id)}`);
+                print(`  ${rowMatch.row.cells.map(cell => cell.text.substring(0, 20)).join(' | ')}`);
+                if (rowMatch.candidate) {
+                    printCandidate(rowMatch.candidate);
+                } else if (rowMatch.candidateId) {
+                    print(`  ${c('gray', rowMatch.candidateId)} ${c('dim', 'offscreen')}`);
+                }
+                break;
+
+            case 'lists':
+                if (!currentTabId) {
+                    printError('No tab selected');
+                    break;
+                }
+                const lists = await bridge.getRegions(currentTabId);
+                if (lists.length === 0) {
+                    print(c('dim', 'No virtualized lists'));
+                    break;
+                }
+                for (const list of lists) {
+                    const range = list.visibleRange ? `${list.visibleRange.start}-${list.visibleRange.end}` : 'none';
+                    print(`  ${c('bold', list.id)} ${list.recycled ? 'recycled' : 'feed'} ~${list.estimatedTotal} items, ${list.renderedCount} rendered, visible ${range}${list.scrollerId ? c('gray', ` in ${list.scrollerId}`) : ''}`);
+                }
+                break;
+
+            case 'reacquire':
+                if (!currentTabId) {
+                    printError('No tab selected');
+                    break;
+                }
+                if (!parts[1]) {
+                    printError('Usage: reacquire <id|fingerprint>');
+                    break;
+                }
+                const reacquireTarget = parts[1].includes(':') ? { fingerprint: parts[1] } : { id: parts[1] };
+                const reacquired = await bridge.reacquire(currentTabId, reacquireTarget);
+                if (reacquired) {
+                    printCandidate(reacquired);
+                } else {
+                    printError(`No match for ${parts[1]}`);
+                }
+                break;
+
+            case 'offscreen':
+                if (!currentTabId) {
+                    printError('No tab selected');
+                    break;
+                }
+                if (parts[1] !== 'on' && parts[1] !== 'off') {
+                    printError('Usage: offscreen <on|off>');
+                    break;
+                }
+                if (await bridge.configure(currentTabId, { includeOffscreen: parts[1] === 'on' })) {
+                    printSuccess(`Off-screen candidates ${parts[1] === 'on' ? 'included' : 'excluded'}`);
+                } else {
+                    printError('No extension connected');
+                }
+                break;
+
+            case 'inputmode':
+                if (!parts[1] || (parts[2] !== 'synthetic' && parts[2] !== 'trusted')) {
+                    printError('Usage: inputmode <domain> <synthetic|trusted>');
+                    break;
+                }
+                if (await bridge.setInputDefaults({ [parts[1]]: parts[2] })) {
+                    printSuccess(`${parts[1]} uses ${parts[2]} input`);
+                } else {
+                    printError('No extension connected');
+                }
+                break;
+
             case 'click':
                 if (!currentTabId) {
                     printError('No tab selected');
@@ -327,6 +554,116 @@ ${c('cyan', 'Other:')}
                 printResult(hoverResult);
                 break;
 
+            case 'move':
+                if (!currentTabId) {
+                    printError('No tab selected');
+                    break;
+                }
+                const moveX = parseInt(parts[1], 10);
+                const moveY = parseInt(parts[2], 10);
+                if (isNaN(moveX) || isNaN(moveY)) {
+                    printError('Usage: move <x> <y> [linear|ease|bezier|minimum_jerk]');
+                    break;
+                }
+                const moveResult = await bridge.moveMouse(currentTabId, moveX, moveY, {
+                    curve: parts[3] as PointerCurve | undefined,
+                    duration: 400,
+                    steps: 25,
+                    jitter: parts[3] === 'bezier' || parts[3] === 'minimum_jerk' ? 2 : 0,
+                });
+                printResult(moveResult);
+                break;
+
+            case 'drag':
+                if (!currentTabId) {
+                    printError('No tab selected');
+                    break;
+                }
+                if (!parts[1] || !parts[2]) {
+                    printError('Usage: drag <id> <targetId|x y>');
+                    break;
+                }
+                const dragTo = parts[3] !== undefined
+                    ? { x: parseInt(parts[2], 10), y: parseInt(parts[3], 10) }
+                    : { targetId: parts[2] };
+                const dragResult = await bridge.drag(currentTabId, parts[1], dragTo);
+                printResult(dragResult);
+                break;
+
+            case 'upload':
+                if (!currentTabId) {
+                    printError('No tab selected');
+                    break;
+                }
+                if (!parts[1] || !parts[2]) {
+                    printError('Usage: upload <id> <path...>');
+                    break;
+                }
+                const uploadResult = await bridge.uploadFiles(currentTabId, parts[1], parts.slice(2));
+                printResult(uploadResult);
+                break;
+
+            case 'menu':
+                if (!currentTabId) {
+                    printError('No tab selected');
+                    break;
+                }
+                const menuPath = parts.slice(1).join(' ').split('>').map(label => label.trim()).filter(Boolean);
+                if (menuPath.length === 0) {
+                    printError('Usage: menu <label> > <label> > ... (e.g., File > Export > PDF)');
+                    break;
+                }
+                const menuResult = await bridge.navigateMenu(currentTabId, menuPath);
+                printResult(menuResult);
+                break;
+
+            case 'patch':
+                if (!currentTabId) {
+                    printError('No tab selected');
+                    break;
+                }
+                if (!parts[1]) {
+                    printError('Usage: patch <id> [file]');
+                    break;
+                }
+                const patchFile = parts[2] || `${parts[1]}.png`;
+                const patchResult = await bridge.capturePatch(currentTabId, { id: parts[1] }, {
+                    format: /\.jpe?g$/i.test(patchFile) ? 'jpeg' : 'png',
+                });
+                if (!patchResult.ok) {
+                    printResult(patchResult);
+                    break;
+                }
+                const patch = patchResult.result as { data: string; width: number; height: number };
+                await writeFile(patchFile, Buffer.from(patch.data, 'base64'));
+                printSuccess(`Saved ${patch.width}x${patch.height} patch to ${patchFile}`);
+                break;
+
+            case 'wait':
+                if (!currentTabId) {
+                    printError('No tab selected');
+                    break;
+                }
+                const conditions: WaitCondition[] = ['appear', 'disappear', 'enabled', 'text', 'url', 'modal_open', 'modal_closed', 'quiet'];
+                const condition = parts[1] as WaitCondition;
+                if (!conditions.includes(condition)) {
+                    printError(`Usage: wait <${conditions.join('|')}> [arg]`);
+                    break;
+                }
+                const waitArg = parts.slice(2).join(' ');
+                const onCandidate = condition === 'appear' || condition === 'disappear' || condition === 'enabled';
+                const isId = /^(f\d+_)?[ae]_\S+$/.test(waitArg);
+                print(`Waiting for ${condition}${waitArg ? ` ${waitArg}` : ''}...`);
+                const waitResult = await bridge.waitFor(currentTabId, condition, {
+                    id: onCandidate && isId ? waitArg : undefined,
+                    query: onCandidate && !isId ? waitArg : undefined,
+                    text: condition === 'text' ? waitArg : undefined,
+                    url: condition === 'url' ? waitArg : undefined,
+                    quietMs: condition === 'quiet' ? parseInt(waitArg, 10) || undefined : undefined,
+                });
+                printResult(waitResult);
+                break;
+
             case 'scroll':
                 if (!currentTabId) {
                     printError('No tab selected');
@@ -338,6 +675,19 @@ ${c('cyan', 'Other:')}
                 printResult(scrollResult);
                 break;
 
+            case 'scroll-to':
+                if (!currentTabId) {
+                    printError('No tab selected');
+                    break;
+                }
+                if (!parts[1]) {
+                    printError('Usage: scroll-to <text>');
+                    break;
+                }
+                const scrollToResult = await bridge.scrollToItem(currentTabId, parts.slice(1).join(' '));
+                printResult(scrollToResult);
+                break;
+
             case 'focus':
                 if (!currentTabId) {
                     printError('No tab selected');
@@ -428,6 +778,16 @@ Type ${c('cyan', 'help')} for available commands.
         }
     });
 
+    rl.on('SIGINT', () => {
+        bridge.cancel().then(cancelled => {
+            if (cancelled.length === 0) {
+                bridge.disconnect();
+                rl.close();
+                process.exit(0);
+            }
+        }).catch(e => printError(`Cancel failed: ${(e as Error).message}`));
+    });
+
     // Start prompt
     prompt();
 }